@@ -29,6 +29,8 @@ const serverExternal = [
   'vscode',
   'vscode-html-languageservice',
   'vscode-css-languageservice',
+  // The JavaScript service reads TypeScript's bundled lib.*.d.ts files from disk at runtime.
+  'typescript',
   'vscode-languageserver',
   'vscode-languageserver/node',
   'vscode-languageserver-textdocument',
@@ -0,0 +1,95 @@
+import type { Color, ColorInformation, ColorPresentation, Range, TextEdit } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { LanguageService as CssLanguageService, Stylesheet } from 'vscode-css-languageservice';
+
+import type { CssRegion } from '../extractCssRegions';
+
+/** A CSS region of the page with its parsed stylesheet. */
+export type ParsedCssRegion = { region: CssRegion; stylesheet: Stylesheet };
+
+/**
+ * Maps a range of a region's CSS document to the JSP. Offsets before the original content (the
+ * `x{` wrapper of inline styles) map to the start of the region.
+ */
+export function mapRangeFromCssToJsp(
+  jspDocument: TextDocument,
+  region: CssRegion,
+  cssDocument: TextDocument,
+  range: Range,
+): Range {
+  const startCssOffset = cssDocument.offsetAt(range.start);
+  const endCssOffset = cssDocument.offsetAt(range.end);
+
+  const startJspOffset = region.jspStartOffset + Math.max(0, startCssOffset - region.cssContentStartOffset);
+  const endJspOffset = region.jspStartOffset + Math.max(0, endCssOffset - region.cssContentStartOffset);
+
+  return {
+    start: jspDocument.positionAt(startJspOffset),
+    end: jspDocument.positionAt(endJspOffset),
+  };
+}
+
+export function mapRangeFromJspToCss(
+  jspDocument: TextDocument,
+  region: CssRegion,
+  cssDocument: TextDocument,
+  range: Range,
+): Range {
+  const toCss = (jspOffset: number) => region.cssContentStartOffset + Math.max(0, jspOffset - region.jspStartOffset);
+  return {
+    start: cssDocument.positionAt(toCss(jspDocument.offsetAt(range.start))),
+    end: cssDocument.positionAt(toCss(jspDocument.offsetAt(range.end))),
+  };
+}
+
+export function mapTextEditFromCssToJsp(
+  jspDocument: TextDocument,
+  region: CssRegion,
+  cssDocument: TextDocument,
+  edit: TextEdit,
+): TextEdit {
+  return {
+    newText: edit.newText,
+    range: mapRangeFromCssToJsp(jspDocument, region, cssDocument, edit.range),
+  };
+}
+
+/** Colors of `<style>` blocks and `style` attributes, with JSP ranges. */
+export function findJspDocumentColors(
+  cssLanguageService: CssLanguageService,
+  jspDocument: TextDocument,
+  cssRegions: readonly ParsedCssRegion[],
+): ColorInformation[] {
+  const out: ColorInformation[] = [];
+  for (const { region, stylesheet } of cssRegions) {
+    for (const info of cssLanguageService.findDocumentColors(region.cssDocument, stylesheet)) {
+      out.push({ color: info.color, range: mapRangeFromCssToJsp(jspDocument, region, region.cssDocument, info.range) });
+    }
+  }
+  return out;
+}
+
+/** Presentations of a color at a JSP range, with their edits mapped back to the JSP. */
+export function getJspColorPresentations(
+  cssLanguageService: CssLanguageService,
+  jspDocument: TextDocument,
+  cssRegions: readonly ParsedCssRegion[],
+  color: Color,
+  range: Range,
+): ColorPresentation[] {
+  const jspOffset = jspDocument.offsetAt(range.start);
+  const hit = cssRegions.find(({ region }) => jspOffset >= region.jspStartOffset && jspOffset < region.jspEndOffset);
+  if (!hit) {
+    return [];
+  }
+
+  const { region, stylesheet } = hit;
+  const cssDoc = region.cssDocument;
+  const cssRange = mapRangeFromJspToCss(jspDocument, region, cssDoc, range);
+
+  return cssLanguageService.getColorPresentations(cssDoc, stylesheet, color, cssRange).map((p) => ({
+    ...p,
+    textEdit: p.textEdit ? mapTextEditFromCssToJsp(jspDocument, region, cssDoc, p.textEdit) : undefined,
+    additionalTextEdits: p.additionalTextEdits?.map((e) => mapTextEditFromCssToJsp(jspDocument, region, cssDoc, e)),
+  }));
+}
@@ -0,0 +1,314 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import fg from 'fast-glob';
+import type { Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { type CssRegion, extractCssRegionsFromProjectedHtml } from '../extractCssRegions';
+import { maskJspToHtml } from '../maskToHtml';
+import { findTagEnd } from '../taglibs/startTagContext';
+
+export type SelectorKind = 'class' | 'id';
+
+export type SelectorDefinition = {
+  kind: SelectorKind;
+  name: string;
+  /** URI of the defining `.css` / JSP file. */
+  uri: string;
+  /** Range of `name` (without the `.` / `#`) in the defining file. */
+  range: Range;
+  /** The full rule (`.btn.primary:hover { ... }`), trimmed for display. */
+  ruleText: string;
+};
+
+export type SelectorIndex = {
+  /** File system path -> selectors defined in that file. */
+  byFile: Map<string, SelectorDefinition[]>;
+  builtAtMs: number;
+  roots: string[];
+};
+
+type CssSelectorHit = {
+  kind: SelectorKind;
+  name: string;
+  startOffset: number;
+  endOffset: number;
+  ruleStartOffset: number;
+  ruleEndOffset: number;
+};
+
+const DEFAULT_IGNORE_GLOBS = ['**/.git/**', '**/node_modules/**', '**/dist/**', '**/out/**', '**/build/**', '**/target/**'];
+
+const SELECTOR_SOURCE_GLOBS = ['**/*.css', '**/*.jsp', '**/*.jspf', '**/*.tag'];
+
+/** Large generated bundles aren't useful for completion and are expensive to scan. */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const MAX_RULE_TEXT_LINES = 12;
+
+/** Replaces comments and string contents with spaces so offsets stay stable. */
+function maskCssCommentsAndStrings(css: string): string {
+  return css.replace(/\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?/g, (m) => m.replace(/[^\n]/g, ' '));
+}
+
+function findMatchingBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return text.length - 1;
+}
+
+/**
+ * Finds `.class` / `#id` selectors in a stylesheet (best-effort, no full CSS parse).
+ * At-rule blocks (`@media`, `@supports`) are descended into; at-rule preludes and
+ * declaration blocks are never scanned, so hex colors are not taken for ids.
+ */
+export function findSelectorsInCss(cssText: string): CssSelectorHit[] {
+  const text = maskCssCommentsAndStrings(cssText);
+  const out: CssSelectorHit[] = [];
+
+  let segmentStart = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === ';' || ch === '}') {
+      segmentStart = i + 1;
+      continue;
+    }
+    if (ch !== '{') {
+      continue;
+    }
+
+    const prelude = text.slice(segmentStart, i);
+    const preludeStart = segmentStart + (prelude.length - prelude.trimStart().length);
+    if (prelude.trim().startsWith('@')) {
+      segmentStart = i + 1;
+      continue;
+    }
+
+    const close = findMatchingBrace(text, i);
+    const re = /([.#])(-?[_a-zA-Z\u00A0-\uFFFF][\w\u00A0-\uFFFF-]*)/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(prelude))) {
+      const startOffset = segmentStart + m.index + 1;
+      out.push({
+        kind: m[1] === '.' ? 'class' : 'id',
+        name: m[2]!,
+        startOffset,
+        endOffset: startOffset + m[2]!.length,
+        ruleStartOffset: preludeStart,
+        ruleEndOffset: close + 1,
+      });
+    }
+
+    i = close;
+    segmentStart = close + 1;
+  }
+
+  return out;
+}
+
+function formatRuleText(text: string): string {
+  const lines = text.split(/\r?\n/);
+  return lines.length > MAX_RULE_TEXT_LINES ? [...lines.slice(0, MAX_RULE_TEXT_LINES), '  /* ... */'].join('\n') : text;
+}
+
+/** Selector definitions in a `.css` file. */
+export function getSelectorDefinitionsFromCss(uri: string, cssText: string): SelectorDefinition[] {
+  const doc = TextDocument.create(uri, 'css', 0, cssText);
+  return findSelectorsInCss(cssText).map((hit) => ({
+    kind: hit.kind,
+    name: hit.name,
+    uri,
+    range: { start: doc.positionAt(hit.startOffset), end: doc.positionAt(hit.endOffset) },
+    ruleText: formatRuleText(cssText.slice(hit.ruleStartOffset, hit.ruleEndOffset)),
+  }));
+}
+
+/** Selector definitions in the `<style>` blocks of a JSP document. */
+export function getSelectorDefinitionsFromJsp(uri: string, jspText: string): SelectorDefinition[] {
+  const htmlDocument = TextDocument.create(uri, 'html', 0, maskJspToHtml(jspText));
+  return getSelectorDefinitionsFromCssRegions(
+    TextDocument.create(uri, 'jsp', 0, jspText),
+    extractCssRegionsFromProjectedHtml(htmlDocument),
+  );
+}
+
+/** Selectors of a page's `<style>` blocks, from CSS regions already extracted from its projection. */
+export function getSelectorDefinitionsFromCssRegions(doc: TextDocument, regions: readonly CssRegion[]): SelectorDefinition[] {
+  const uri = doc.uri;
+  const jspText = doc.getText();
+  const out: SelectorDefinition[] = [];
+  for (const region of regions) {
+    if (region.kind !== 'style-block') {
+      continue;
+    }
+    const cssText = region.cssDocument.getText();
+    for (const hit of findSelectorsInCss(cssText)) {
+      const base = region.jspStartOffset;
+      out.push({
+        kind: hit.kind,
+        name: hit.name,
+        uri,
+        range: { start: doc.positionAt(base + hit.startOffset), end: doc.positionAt(base + hit.endOffset) },
+        ruleText: formatRuleText(jspText.slice(base + hit.ruleStartOffset, base + hit.ruleEndOffset)),
+      });
+    }
+  }
+  return out;
+}
+
+function isCssPath(p: string): boolean {
+  return p.toLowerCase().endsWith('.css');
+}
+
+export function isSelectorSourcePath(p: string): boolean {
+  return /\.(?:css|jsp|jspf|tag)$/i.test(p);
+}
+
+/** (Re)reads one file into the index; removes it when missing or too large. */
+export async function updateSelectorIndexFile(index: SelectorIndex, fsPath: string): Promise<void> {
+  try {
+    const stat = await fs.stat(fsPath);
+    if (!stat.isFile() || stat.size > MAX_FILE_BYTES) {
+      index.byFile.delete(fsPath);
+      return;
+    }
+    const text = await fs.readFile(fsPath, 'utf8');
+    const uri = pathToFileURL(fsPath).toString();
+    const defs = isCssPath(fsPath) ? getSelectorDefinitionsFromCss(uri, text) : getSelectorDefinitionsFromJsp(uri, text);
+    if (defs.length) {
+      index.byFile.set(fsPath, defs);
+    } else {
+      index.byFile.delete(fsPath);
+    }
+  } catch {
+    index.byFile.delete(fsPath);
+  }
+}
+
+/**
+ * Builds the workspace selector index from `.css` files and JSP `<style>` blocks.
+ * Files are read sequentially to keep memory and I/O bounded in large repos.
+ */
+export async function buildSelectorIndex(options: { roots: string[] }): Promise<SelectorIndex> {
+  const index: SelectorIndex = { byFile: new Map(), builtAtMs: Date.now(), roots: [...options.roots] };
+
+  for (const root of options.roots) {
+    const hits = await fg(SELECTOR_SOURCE_GLOBS, {
+      cwd: root,
+      absolute: true,
+      onlyFiles: true,
+      ignore: DEFAULT_IGNORE_GLOBS,
+      suppressErrors: true,
+      followSymbolicLinks: false,
+    });
+    for (const h of hits) {
+      await updateSelectorIndexFile(index, path.normalize(String(h)));
+    }
+  }
+
+  index.builtAtMs = Date.now();
+  return index;
+}
+
+/**
+ * All definitions of a selector. `current` (typically the open document's fresh definitions)
+ * replaces whatever the index holds for that URI.
+ */
+export function findSelectorDefinitions(
+  index: SelectorIndex | undefined,
+  kind: SelectorKind,
+  name: string,
+  current?: { uri: string; definitions: SelectorDefinition[] },
+): SelectorDefinition[] {
+  const out: SelectorDefinition[] = [];
+  for (const defs of index?.byFile.values() ?? []) {
+    for (const d of defs) {
+      if (d.kind === kind && d.name === name && d.uri !== current?.uri) {
+        out.push(d);
+      }
+    }
+  }
+  for (const d of current?.definitions ?? []) {
+    if (d.kind === kind && d.name === name) {
+      out.push(d);
+    }
+  }
+  return out;
+}
+
+/** Distinct selector names of one kind, with the first defining URI for display. */
+export function listSelectorNames(
+  index: SelectorIndex | undefined,
+  kind: SelectorKind,
+  current?: { uri: string; definitions: SelectorDefinition[] },
+): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const d of current?.definitions ?? []) {
+    if (d.kind === kind && !out.has(d.name)) {
+      out.set(d.name, d.uri);
+    }
+  }
+  for (const defs of index?.byFile.values() ?? []) {
+    for (const d of defs) {
+      if (d.kind === kind && d.uri !== current?.uri && !out.has(d.name)) {
+        out.set(d.name, d.uri);
+      }
+    }
+  }
+  return out;
+}
+
+export type SelectorAttributeContext = {
+  kind: SelectorKind;
+  /** Word under/before the cursor. */
+  word: string;
+  wordStart: number;
+  wordEnd: number;
+  /** Other values already present in the attribute (`class="a b"`). */
+  otherValues: string[];
+};
+
+/**
+ * If `offset` is inside a `class="..."` or `id="..."` attribute value, returns the word at the
+ * cursor. Runs on the projected HTML, so EL/scriptlets inside the value are blanks.
+ */
+export function findSelectorAttributeContext(projectedText: string, offset: number): SelectorAttributeContext | undefined {
+  const lt = projectedText.lastIndexOf('<', Math.max(0, offset - 1));
+  if (lt === -1 || !/[A-Za-z]/.test(projectedText[lt + 1] ?? '') || findTagEnd(projectedText, lt + 1) <= offset) {
+    return undefined;
+  }
+
+  const before = projectedText.slice(lt, offset);
+  const m = /\s(class|id)\s*=\s*(["'])([^"']*)$/i.exec(before);
+  if (!m) {
+    return undefined;
+  }
+
+  const quote = m[2]!;
+  const valueStart = offset - m[3]!.length;
+  let valueEnd = projectedText.indexOf(quote, offset);
+  if (valueEnd === -1) {
+    valueEnd = projectedText.length;
+  }
+
+  let wordStart = offset;
+  while (wordStart > valueStart && !/\s/.test(projectedText[wordStart - 1]!)) wordStart--;
+  let wordEnd = offset;
+  while (wordEnd < valueEnd && !/\s/.test(projectedText[wordEnd]!)) wordEnd++;
+
+  const otherValues = (projectedText.slice(valueStart, wordStart) + ' ' + projectedText.slice(wordEnd, valueEnd))
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return {
+    kind: m[1]!.toLowerCase() === 'class' ? 'class' : 'id',
+    word: projectedText.slice(wordStart, wordEnd),
+    wordStart,
+    wordEnd,
+    otherValues,
+  };
+}
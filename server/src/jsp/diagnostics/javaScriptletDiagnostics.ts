@@ -1,90 +1,117 @@
 import type { Diagnostic } from 'vscode-languageserver';
-import { DiagnosticSeverity } from 'vscode-languageserver';
+import { DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 
+import type { ElRegion } from '../elSupport';
 import type { JavaRegion } from '../extractJavaRegions';
+import type { JavaTypeIndex } from '../java/javaTypeIndex';
+import { findMissingPageImports, findUnusedPageImports, sharesPageImports } from '../java/pageImports';
+import { mapJavaOffsetToJsp, translateJspToJava } from '../java/jspTranslation';
+import { findUsesBeforeDeclaration, type ScriptletSymbols } from '../java/scriptletSymbols';
 
 // java-parser is a tolerant Java 8+ grammar parser built on Chevrotain.
 // We only use it for syntax errors (no type info).
 import { parse } from 'java-parser';
 
-function isScriptletRegion(region: JavaRegion): boolean {
-  return (
-    region.kind === 'scriptlet-statement' ||
-    region.kind === 'scriptlet-expression' ||
-    region.kind === 'scriptlet-declaration'
-  );
-}
-
-type WrappedSource = {
-  source: string;
-  contentStartLine1: number; // 1-based
+type ParseErrorLocation = {
+  /** 1-based; NaN when the parser ran out of input. */
+  line: number;
+  column: number;
+  /** Expected token, for "expected X but found Y" errors. */
+  expected?: string;
+  /** Text of the offending token ('' at end of input). */
+  found: string;
+  /** First line of the parser's message, for errors of other shapes. */
+  detail: string;
 };
 
-function buildWrappedJavaSource(args: {
-  region: JavaRegion;
-  content: string;
-  imports: string[];
-}): WrappedSource {
-  const { region, content, imports } = args;
-
-  const importLines = (imports ?? []).map((i) => `import ${i};`);
-
-  if (region.kind === 'scriptlet-declaration') {
-    const header = [...importLines, 'class __Jsp {'];
-    const contentStartLine1 = header.length + 1;
-    const footer = ['}'];
-    return {
-      source: [...header, content, ...footer].join('\n'),
-      contentStartLine1,
-    };
-  }
-
-  // statement / expression: wrap in a method.
-  const header = [...importLines, 'class __Jsp {', 'void __m() {'];
-  const contentStartLine1 = header.length + 1;
-
-  let contentLine = content;
-  if (region.kind === 'scriptlet-expression') {
-    // Make expressions parseable as a statement.
-    contentLine = `Object __jspExpr = (${content});`;
+/**
+ * java-parser throws a plain Error whose message carries the location
+ * (`... errors detected in line: 3, column: 7!\n<chevrotain message>!\n\t->rule stack`).
+ */
+function parseErrorLocation(err: unknown): ParseErrorLocation {
+  const raw = String((err as any)?.message ?? err ?? '');
+  const loc = /in line: (\w+), column: (\w+)!/.exec(raw);
+  const body = raw.split('\n').slice(1).join('\n');
+  const line = Number(loc?.[1]);
+  const column = Number(loc?.[2]);
+
+  const expected = /Expecting --> '(.*?)' <-- but found --> '(.*?)' <--/.exec(body);
+  if (expected) {
+    return { line, column, expected: expected[1]!, found: expected[2]!, detail: '' };
   }
-
-  const footer = ['}', '}'];
+  const unexpected = /but found: '(.*?)'/.exec(body) ?? /unexpected character: ->([\s\S])<-/.exec(body);
   return {
-    source: [...header, contentLine, ...footer].join('\n'),
-    contentStartLine1,
+    line,
+    column,
+    found: unexpected?.[1] ?? '',
+    detail: body.split('\n')[0]!.replace(/!$/, '').trim(),
   };
 }
 
-function extractChevrotainLoc(err: any):
-  | { startLine: number; startColumn: number; endLine: number; endColumn: number; message: string }
-  | undefined {
-  // Common shapes observed from Chevrotain-based parsers.
-  const message = String(err?.message ?? 'Java syntax error');
-
-  const tok = err?.token ?? err?.previousToken ?? err?.resyncedTokens?.[0];
-  if (tok && Number.isFinite(tok.startLine) && Number.isFinite(tok.startColumn)) {
-    const startLine = tok.startLine;
-    const startColumn = tok.startColumn;
-    const endLine = Number.isFinite(tok.endLine) ? tok.endLine : startLine;
-    const endColumn = Number.isFinite(tok.endColumn) ? tok.endColumn : startColumn + 1;
-    return { startLine, startColumn, endLine, endColumn, message };
+/** Message for an error at a token of the page's own code (`inCode`) or in the surrounding generated code. */
+function describeParseError(loc: ParseErrorLocation, inCode: boolean): string {
+  if (loc.expected !== undefined) {
+    if (!inCode) {
+      return `Java syntax error: expected '${loc.expected}'${loc.found ? '' : ' before the end of the page'}`;
+    }
+    return `Java syntax error: expected '${loc.expected}' but found '${loc.found}'`;
   }
+  if (!inCode) {
+    return 'Java syntax error: incomplete code';
+  }
+  return loc.found ? `Java syntax error: unexpected '${loc.found}'` : `Java syntax error: ${loc.detail || 'invalid code'}`;
+}
 
-  // Some errors expose "context" tokens.
-  const ctx = err?.context?.token;
-  if (ctx && Number.isFinite(ctx.startLine) && Number.isFinite(ctx.startColumn)) {
-    const startLine = ctx.startLine;
-    const startColumn = ctx.startColumn;
-    const endLine = Number.isFinite(ctx.endLine) ? ctx.endLine : startLine;
-    const endColumn = Number.isFinite(ctx.endColumn) ? ctx.endColumn : startColumn + 1;
-    return { startLine, startColumn, endLine, endColumn, message };
+function offsetAtLineColumn(source: string, line: number, column: number): number {
+  if (!Number.isFinite(line) || !Number.isFinite(column)) {
+    return source.length;
   }
+  let offset = 0;
+  for (let l = 1; l < line; l++) {
+    const nl = source.indexOf('\n', offset);
+    if (nl === -1) {
+      return source.length;
+    }
+    offset = nl + 1;
+  }
+  return offset + column - 1;
+}
 
+/**
+ * JSP offset of the first `}` closing more blocks than the scriptlets before it opened (declarations
+ * counted separately, as they become class members). The parser only notices once the generated
+ * class has been closed early.
+ */
+function findUnmatchedClosingBrace(jspText: string, javaRegions: JavaRegion[]): number | undefined {
+  for (const kind of ['scriptlet-statement', 'scriptlet-declaration'] as const) {
+    let depth = 0;
+    for (const r of javaRegions) {
+      if (r.kind !== kind) {
+        continue;
+      }
+      const code = jspText
+        .slice(r.jspContentStartOffset, r.jspContentEndOffset)
+        .replace(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g, (m) => ' '.repeat(m.length));
+      for (let i = 0; i < code.length; i++) {
+        if (code[i] === '{') {
+          depth++;
+        } else if (code[i] === '}' && --depth < 0) {
+          return r.jspContentStartOffset + i;
+        }
+      }
+    }
+  }
   return undefined;
 }
 
+/**
+ * Java syntax errors for the page's scriptlets, declarations and expressions, checked together
+ * as the `_jspService` method / class members they are translated to (see `translateJspToJava`),
+ * so blocks spanning several scriptlets are understood. Errors are mapped back to the JSP.
+ * Fragments and pages with static includes aren't checked: their blocks may open or close in
+ * another file.
+ */
 export function validateJavaScriptletSyntax(args: {
   doc: TextDocument;
   javaRegions: JavaRegion[];
@@ -93,68 +120,114 @@ export function validateJavaScriptletSyntax(args: {
 }): Diagnostic[] {
   const { doc, javaRegions, pageImports } = args;
   const severity = args.severity ?? DiagnosticSeverity.Error;
-  const out: Diagnostic[] = [];
 
-  const text = doc.getText();
+  const hasCode = javaRegions.some(
+    (r) =>
+      (r.kind === 'scriptlet-statement' || r.kind === 'scriptlet-expression' || r.kind === 'scriptlet-declaration') &&
+      r.jspContentEndOffset > r.jspContentStartOffset,
+  );
+  if (!hasCode || sharesPageImports(doc.uri, doc.getText(), javaRegions)) {
+    return [];
+  }
 
-  for (const region of javaRegions) {
-    if (!isScriptletRegion(region)) {
-      continue;
+  const diagnostic = (message: string, start: number, end: number): Diagnostic => ({
+    message,
+    severity,
+    range: { start: doc.positionAt(start), end: doc.positionAt(end) },
+    source: 'jsp-lang(java)',
+    code: 'jsp.java.syntax',
+  });
+
+  const translated = translateJspToJava({ jspText: doc.getText(), javaRegions, pageImports });
+  try {
+    parse(translated.source);
+    return [];
+  } catch (e: unknown) {
+    const extraBrace = findUnmatchedClosingBrace(doc.getText(), javaRegions);
+    if (extraBrace !== undefined) {
+      return [diagnostic("Java syntax error: unexpected '}'", extraBrace, extraBrace + 1)];
     }
 
-    const content = text.slice(region.jspContentStartOffset, region.jspContentEndOffset);
-    if (!content.trim()) {
-      continue;
+    const loc = parseErrorLocation(e);
+    const javaOffset = offsetAtLineColumn(translated.source, loc.line, loc.column);
+    let start = mapJavaOffsetToJsp(translated, javaOffset);
+    if (start === undefined) {
+      return [];
+    }
+    const inCode = translated.mappings.some((m) => javaOffset >= m.javaOffset && javaOffset < m.javaOffset + m.length);
+    if (!inCode) {
+      // Point just after the last code before the generated code.
+      const text = doc.getText();
+      while (start > 0 && /\s/.test(text[start - 1]!)) start--;
     }
 
-    const wrapped = buildWrappedJavaSource({ region, content, imports: pageImports });
-
-    try {
-      parse(wrapped.source);
-    } catch (e: any) {
-      const errors = Array.isArray(e?.errors) ? e.errors : [e];
-      const jspContentPos = doc.positionAt(region.jspContentStartOffset);
-
-      // Limit to a few diagnostics per region to avoid spam.
-      for (const raw of errors.slice(0, 3)) {
-        const loc = extractChevrotainLoc(raw);
-
-        if (!loc) {
-          out.push({
-            message: String(raw?.message ?? 'Java syntax error in scriptlet.'),
-            severity,
-            range: {
-              start: doc.positionAt(region.jspStartOffset),
-              end: doc.positionAt(Math.min(region.jspStartOffset + 3, region.jspEndOffset)),
-            },
-            source: 'jsp-lang(java)',
-            code: 'jsp.java.syntax',
-          });
-          continue;
-        }
-
-        const relStartLine = loc.startLine - wrapped.contentStartLine1;
-        const relEndLine = loc.endLine - wrapped.contentStartLine1;
-
-        const startLine = Math.max(0, jspContentPos.line + relStartLine);
-        const endLine = Math.max(0, jspContentPos.line + relEndLine);
+    return [diagnostic(describeParseError(loc, inCode), start, start + (inCode ? loc.found.length : 0))];
+  }
+}
 
-        const startChar = relStartLine === 0 ? Math.max(0, jspContentPos.character + (loc.startColumn - 1)) : Math.max(0, loc.startColumn - 1);
-        const endChar = relEndLine === 0 ? Math.max(startChar + 1, jspContentPos.character + (loc.endColumn - 1)) : Math.max(loc.endColumn - 1, (loc.startColumn - 1) + 1);
+/** Variables used in page code before the scriptlet that declares them (a compile error in the generated servlet). */
+export function validateJavaUseBeforeDeclaration(args: {
+  doc: TextDocument;
+  symbols: ScriptletSymbols;
+  severity?: DiagnosticSeverity;
+}): Diagnostic[] {
+  const { doc, symbols } = args;
+  const severity = args.severity ?? DiagnosticSeverity.Warning;
+
+  return findUsesBeforeDeclaration(symbols).map(({ reference, declaration }) => ({
+    message: `'${reference.name}' is used before it is declared (line ${doc.positionAt(declaration.jspStart).line + 1})`,
+    severity,
+    range: { start: doc.positionAt(reference.jspStart), end: doc.positionAt(reference.jspEnd) },
+    source: 'jsp-lang(java)',
+    code: 'jsp.java.use-before-declaration',
+  }));
+}
 
-        out.push({
-          message: loc.message,
-          severity,
-          range: {
-            start: { line: startLine, character: startChar },
-            end: { line: endLine, character: endChar },
-          },
-          source: 'jsp-lang(java)',
-          code: 'jsp.java.syntax',
-        });
-      }
-    }
+/**
+ * `jsp.java.unused-import` and `jsp.java.missing-import` for `<%@ page import %>`. Skipped for
+ * fragments and pages with static includes, whose imports are shared with code not on the page.
+ * Missing-import diagnostics carry `data.candidates` (qualified names) for the quick fix.
+ */
+export function validatePageImports(args: {
+  doc: TextDocument;
+  javaRegions: readonly JavaRegion[];
+  elRegions: readonly ElRegion[];
+  /** Undefined when the page doesn't parse; only unused imports are checked then. */
+  symbols: ScriptletSymbols | undefined;
+  typeIndex: JavaTypeIndex | undefined;
+  unusedSeverity: DiagnosticSeverity | null;
+  missingSeverity: DiagnosticSeverity | null;
+}): Diagnostic[] {
+  const { doc, javaRegions, symbols, unusedSeverity, missingSeverity } = args;
+  const jspText = doc.getText();
+  if (sharesPageImports(doc.uri, jspText, javaRegions)) {
+    return [];
   }
+  const range = (start: number, end: number) => ({ start: doc.positionAt(start), end: doc.positionAt(end) });
+
+  const unused: Diagnostic[] =
+    unusedSeverity === null
+      ? []
+      : findUnusedPageImports({ jspText, javaRegions, elRegions: args.elRegions }).map((i) => ({
+          message: `The import '${i.name}' is never used`,
+          severity: unusedSeverity,
+          range: range(i.jspStart, i.jspEnd),
+          source: 'jsp-lang(java)',
+          code: 'jsp.java.unused-import',
+          tags: [DiagnosticTag.Unnecessary],
+        }));
+
+  const missing: Diagnostic[] =
+    missingSeverity === null || !symbols
+      ? []
+      : findMissingPageImports({ jspText, javaRegions, symbols, typeIndex: args.typeIndex }).map((m) => ({
+          message: `'${m.name}' is not imported`,
+          severity: missingSeverity,
+          range: range(m.jspStart, m.jspEnd),
+          source: 'jsp-lang(java)',
+          code: 'jsp.java.missing-import',
+          data: { name: m.name, candidates: m.candidates },
+        }));
 
-  return out;
+  return [...unused, ...missing];
 }
@@ -32,9 +32,23 @@ export const DEFAULT_LINT_CONFIG: LintConfig = {
     'jsp.include.unresolvable': 'warning',
 
     'jsp.tag.missing-required-attribute': 'warning',
+    'jsp.tag.unclosed': 'warning',
+    'jsp.tag.misnested': 'warning',
+    'jsp.tag.invalid-parent': 'warning',
 
-    // Only emitted when `java.enableSyntaxDiagnostics` is enabled.
+    // Only emitted when `java.enableSyntaxDiagnostics` is enabled (the default).
     'jsp.java.syntax': 'error',
+    'jsp.java.use-before-declaration': 'warning',
+    'jsp.java.unused-import': 'warning',
+    'jsp.java.missing-import': 'warning',
+
+    // Unescaped request data in `${...}` / `<%= %>` output, by where it is written.
+    'jsp.xss.html': 'warning',
+    'jsp.xss.attribute': 'warning',
+    'jsp.xss.url': 'warning',
+    'jsp.xss.script': 'warning',
+    // Any other unescaped value: reports most `${row.name}`-style output.
+    'jsp.xss.unescaped': 'off',
   },
   scriptlets: {
     maxCount: 5,
@@ -42,7 +56,7 @@ export const DEFAULT_LINT_CONFIG: LintConfig = {
     maxNesting: 3,
   },
   java: {
-    enableSyntaxDiagnostics: false,
+    enableSyntaxDiagnostics: true,
   },
 };
 
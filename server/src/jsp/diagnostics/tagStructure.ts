@@ -0,0 +1,327 @@
+import { DiagnosticSeverity, type Diagnostic } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import { JSTL_CORE_URIS } from '../taglibs/jstl';
+import { parseTaglibDirectives } from '../taglibs/parseTaglibDirectives';
+import { isVoidElement, scanTagTokens, type TagNameSpan, type TagToken } from '../taglibs/startTagContext';
+import type { LintConfig } from './lintConfig';
+import { DEFAULT_LINT_CONFIG, effectiveRuleLevel, severityFromLevel } from './lintConfig';
+
+/**
+ * Required direct (custom tag) parents. Keys and values are local names; `core` entries apply
+ * to prefixes bound to the JSTL core taglib, `jsp` entries to standard actions.
+ */
+const REQUIRED_PARENTS: Record<'core' | 'jsp', Record<string, string[]>> = {
+  core: {
+    when: ['choose'],
+    otherwise: ['choose'],
+  },
+  jsp: {
+    param: ['include', 'forward', 'params'],
+    params: ['plugin'],
+    fallback: ['plugin'],
+  },
+};
+
+type TaglibElement = {
+  name: string;
+  localName: string;
+  library?: 'core' | 'jsp';
+  span: TagNameSpan;
+  /** HTML frame opened for the tag's body. */
+  frame: Frame;
+};
+
+/**
+ * A region whose markup may or may not be emitted (a scriptlet block or a custom tag body).
+ * `branches` collects the HTML stacks at the end of `} else {`, `case` and sibling branches.
+ */
+type Frame = {
+  kind: 'java' | 'taglib';
+  snapshot: string[];
+  branches: string[][];
+  /** A `}` followed by `else` / `catch` / `finally`: the next `{` continues this frame. */
+  awaitingContinuation?: boolean;
+};
+
+type JavaEvent = {
+  offset: number;
+  kind: 'open' | 'close' | 'branch';
+  /** For `close`: the block continues with `else` / `catch` / `finally`. */
+  continues?: boolean;
+};
+
+const CONTINUATION_KEYWORDS = new Set(['else', 'catch', 'finally']);
+
+/** Offset of the next Java token after `from` (skipping whitespace and comments), or -1. */
+function skipJavaTrivia(code: string, from: number): number {
+  let i = from;
+  while (i < code.length) {
+    if (/\s/.test(code[i]!)) {
+      i++;
+    } else if (code.startsWith('//', i)) {
+      const nl = code.indexOf('\n', i);
+      i = nl === -1 ? code.length : nl + 1;
+    } else if (code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2);
+      i = end === -1 ? code.length : end + 2;
+    } else {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Braces and `case` / `default` labels of scriptlet statements, in document order.
+ * Strings, char literals and comments are skipped; a `}` whose next token (possibly in the next
+ * scriptlet, when only whitespace separates them) is `else` / `catch` / `finally` continues.
+ */
+function collectJavaEvents(jspText: string, projectedText: string, javaRegions: JavaRegion[]): JavaEvent[] {
+  const statements = javaRegions.filter((r) => r.kind === 'scriptlet-statement');
+  const events: JavaEvent[] = [];
+
+  const nextWordAfter = (regionIndex: number, from: number): string | undefined => {
+    for (let r = regionIndex; r < statements.length; r++) {
+      const region = statements[r]!;
+      if (r > regionIndex && projectedText.slice(statements[r - 1]!.jspEndOffset, region.jspStartOffset).trim()) {
+        return undefined;
+      }
+      const code = jspText.slice(region.jspContentStartOffset, region.jspContentEndOffset);
+      const i = skipJavaTrivia(code, r === regionIndex ? from : 0);
+      if (i !== -1) {
+        return /^[A-Za-z_$][\w$]*/.exec(code.slice(i))?.[0] ?? code[i];
+      }
+    }
+    return undefined;
+  };
+
+  statements.forEach((region, regionIndex) => {
+    const base = region.jspContentStartOffset;
+    const code = jspText.slice(base, region.jspContentEndOffset);
+
+    let i = 0;
+    while (i < code.length) {
+      const ch = code[i]!;
+      if (code.startsWith('//', i) || code.startsWith('/*', i)) {
+        i = skipJavaTrivia(code, i);
+        if (i === -1) break;
+        continue;
+      }
+      if (code.startsWith('"""', i)) {
+        const end = code.indexOf('"""', i + 3);
+        i = end === -1 ? code.length : end + 3;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        i++;
+        while (i < code.length && code[i] !== ch && code[i] !== '\n') {
+          i += code[i] === '\\' ? 2 : 1;
+        }
+        i++;
+        continue;
+      }
+      if (ch === '{') {
+        events.push({ offset: base + i, kind: 'open' });
+      } else if (ch === '}') {
+        const next = nextWordAfter(regionIndex, i + 1);
+        events.push({ offset: base + i, kind: 'close', continues: !!next && CONTINUATION_KEYWORDS.has(next) });
+      } else if (/[A-Za-z_$]/.test(ch)) {
+        const word = /^[A-Za-z_$][\w$]*/.exec(code.slice(i))![0];
+        if ((word === 'case' || word === 'default') && !/[\w$]/.test(code[i - 1] ?? '')) {
+          events.push({ offset: base + i, kind: 'branch' });
+        }
+        i += word.length;
+        continue;
+      }
+      i++;
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Structural validation of HTML and custom (taglib) elements, on the projected HTML.
+ *
+ * Custom tags are balanced strictly, the way the JSP compiler parses them: scriptlets don't
+ * affect them. Plain HTML is template text to the compiler, so it may legitimately be opened in
+ * one scriptlet branch or custom tag body and closed in another; HTML elements are tracked per
+ * branch and only end tags that can't match any open element are reported.
+ *
+ * Rules:
+ * - `jsp.tag.unclosed`: a custom tag is never closed.
+ * - `jsp.tag.misnested`: an end tag closes a custom tag while an inner custom tag is still
+ *   open, or has no matching start tag.
+ * - `jsp.tag.invalid-parent`: `<c:when>` / `<c:otherwise>` outside `<c:choose>`,
+ *   `<jsp:param>` outside `<jsp:include>` / `<jsp:forward>` / `<jsp:params>`, ...
+ */
+export function validateTagStructure(args: {
+  doc: TextDocument;
+  projectedText: string;
+  javaRegions: JavaRegion[];
+  lintConfig?: LintConfig;
+}): Diagnostic[] {
+  const { doc, projectedText, javaRegions } = args;
+  const lint = args.lintConfig ?? DEFAULT_LINT_CONFIG;
+  const jspText = doc.getText();
+  const out: Diagnostic[] = [];
+
+  const libraryByPrefix = new Map<string, 'core' | undefined>();
+  for (const d of parseTaglibDirectives(jspText)) {
+    libraryByPrefix.set(d.prefix, JSTL_CORE_URIS.has(d.uri) ? 'core' : undefined);
+  }
+
+  const report = (ruleId: string, message: string, span: TagNameSpan, startOffset = span.startOffset - 1): void => {
+    const severity = lint.enable ? severityFromLevel(effectiveRuleLevel(lint, ruleId, 'warning')) : null;
+    if (!severity) {
+      return;
+    }
+    out.push({
+      message,
+      severity,
+      range: { start: doc.positionAt(startOffset), end: doc.positionAt(span.endOffset) },
+      source: 'jsp-lang(lint)',
+      code: ruleId,
+    });
+  };
+
+  let html: string[] = [];
+  const taglibs: TaglibElement[] = [];
+  const frames: Frame[] = [];
+
+  const openFrame = (kind: Frame['kind']): Frame => {
+    const frame: Frame = { kind, snapshot: [...html], branches: [] };
+    frames.push(frame);
+    return frame;
+  };
+
+  // Whatever ran inside the frame, continue with the branch that leaves the most elements open:
+  // later end tags then find their start tags, which avoids false "unexpected" reports.
+  const closeFrame = (frame: Frame): void => {
+    const idx = frames.lastIndexOf(frame);
+    if (idx === -1) {
+      return;
+    }
+    while (frames.length > idx) {
+      const f = frames.pop()!;
+      const candidates = [...f.branches, html, f.snapshot];
+      html = [...candidates.reduce((a, b) => (b.length > a.length ? b : a))];
+    }
+  };
+
+  const onHtmlEndTag = (token: TagToken): void => {
+    const key = token.name.includes(':') ? token.name : token.name.toLowerCase();
+    const idx = html.lastIndexOf(key);
+    if (idx !== -1) {
+      // Anything above is implicitly closed (`<li>`, `<p>`, ...), as in HTML itself.
+      html.length = idx;
+      return;
+    }
+    out.push({
+      message: `Unexpected closing tag </${key}>.`,
+      severity: DiagnosticSeverity.Error,
+      range: { start: doc.positionAt(token.startOffset), end: doc.positionAt(token.endOffset) },
+      source: 'jsp-lang(html)',
+    });
+  };
+
+  const onTaglibStartTag = (token: TagToken, prefix: string, localName: string): void => {
+    const library = prefix === 'jsp' ? 'jsp' : libraryByPrefix.get(prefix);
+    const required = library ? REQUIRED_PARENTS[library][localName] : undefined;
+    if (required) {
+      const parent = taglibs[taglibs.length - 1];
+      if (!parent || parent.library !== library || !required.includes(parent.localName)) {
+        const parents = required.map((p) => `<${prefix}:${p}>`).join(', ');
+        report('jsp.tag.invalid-parent', `<${token.name}> must be a direct child of ${parents}.`, token.nameSpan);
+      }
+    }
+
+    if (!token.selfClosing) {
+      taglibs.push({ name: token.name, localName, library, span: token.nameSpan, frame: openFrame('taglib') });
+    }
+  };
+
+  const onTaglibEndTag = (token: TagToken): void => {
+    const idx = taglibs.map((t) => t.name).lastIndexOf(token.name);
+    if (idx === -1) {
+      const message = `Unexpected closing tag </${token.name}>: no matching <${token.name}> is open.`;
+      report('jsp.tag.misnested', message, token.nameSpan, token.nameSpan.startOffset - 2);
+      return;
+    }
+
+    const inner = taglibs.slice(idx + 1);
+    if (inner.length) {
+      const open = inner.map((t) => `<${t.name}>`).join(', ');
+      const message = `</${token.name}> closes <${token.name}> while ${open} is still open.`;
+      report('jsp.tag.misnested', message, token.nameSpan, token.nameSpan.startOffset - 2);
+    }
+
+    closeFrame(taglibs[idx]!.frame);
+    taglibs.length = idx;
+  };
+
+  const tagTokens = scanTagTokens(projectedText);
+  const javaEvents = collectJavaEvents(jspText, projectedText, javaRegions);
+
+  let j = 0;
+  const applyJavaEventsBefore = (offset: number): void => {
+    for (; j < javaEvents.length && javaEvents[j]!.offset < offset; j++) {
+      const e = javaEvents[j]!;
+      const top = frames[frames.length - 1];
+      if (e.kind === 'open') {
+        if (top?.awaitingContinuation) {
+          top.awaitingContinuation = false;
+        } else {
+          openFrame('java');
+        }
+        continue;
+      }
+
+      let javaFrame: Frame | undefined;
+      for (let k = frames.length - 1; k >= 0 && !javaFrame; k--) {
+        if (frames[k]!.kind === 'java') javaFrame = frames[k];
+      }
+      if (!javaFrame) {
+        continue;
+      }
+
+      if (e.kind === 'branch' || e.continues) {
+        // Unwind custom tag frames opened inside the branch, then start the next branch.
+        while (frames[frames.length - 1] !== javaFrame) closeFrame(frames[frames.length - 1]!);
+        javaFrame.branches.push(html);
+        html = [...javaFrame.snapshot];
+        javaFrame.awaitingContinuation = e.kind === 'close';
+      } else {
+        closeFrame(javaFrame);
+      }
+    }
+  };
+
+  for (const token of tagTokens) {
+    applyJavaEventsBefore(token.startOffset);
+
+    const colon = token.name.indexOf(':');
+    const prefix = colon > 0 ? token.name.slice(0, colon) : undefined;
+    const isCustomTag = !!prefix && (prefix === 'jsp' || libraryByPrefix.has(prefix));
+
+    if (isCustomTag) {
+      if (token.isClose) {
+        onTaglibEndTag(token);
+      } else {
+        onTaglibStartTag(token, prefix!, token.name.slice(colon + 1));
+      }
+    } else if (token.isClose) {
+      onHtmlEndTag(token);
+    } else if (!token.selfClosing && !isVoidElement(token.name)) {
+      html.push(token.name.includes(':') ? token.name : token.name.toLowerCase());
+    }
+  }
+
+  for (const t of taglibs) {
+    report('jsp.tag.unclosed', `<${t.name}> is never closed.`, t.span);
+  }
+
+  return out;
+}
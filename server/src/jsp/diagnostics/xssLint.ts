@@ -0,0 +1,533 @@
+import { type CodeAction, CodeActionKind, type Diagnostic, type TextEdit } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+  getLanguageService as getHtmlLanguageService,
+  type HTMLDocument,
+  type Node as HtmlNode,
+  TokenType,
+} from 'vscode-html-languageservice';
+
+import type { ElRegion } from '../elSupport';
+import type { JavaRegion } from '../extractJavaRegions';
+import { isJavaScriptType } from '../extractJsRegions';
+import { scriptletVariableType, type ScriptletSymbols } from '../java/scriptletSymbols';
+import type { ServletApiFlavor } from '../java/servletApiModel';
+import { JSTL_CORE_URIS, jstlTaglibPrefix } from '../taglibs/jstl';
+import { parseTaglibDirectives } from '../taglibs/parseTaglibDirectives';
+import type { LintConfig } from './lintConfig';
+import { DEFAULT_LINT_CONFIG, effectiveRuleLevel, severityFromLevel } from './lintConfig';
+
+/** Where a value ends up in the page, which decides the escaping it needs. */
+type OutputContext = {
+  kind: 'html' | 'attribute' | 'url' | 'script' | 'handler';
+  /** Attribute kinds: the attribute name (none for a value written between attributes). */
+  attribute?: string;
+  /** Attribute kinds: inside quotes, where escaping keeps the value from adding attributes. */
+  quoted?: boolean;
+};
+
+/** A run of the projected HTML with one output context; `undefined` when nothing is output (custom tag attributes, styles). */
+type ContextSpan = { start: number; end: number; context: OutputContext | undefined };
+
+type ValueToken = { text: string; start: number; end: number };
+
+/** Rules for request data, by context; other unescaped values fall under `jsp.xss.unescaped` (off by default). */
+const RULE_IDS: Record<OutputContext['kind'], string> = {
+  html: 'jsp.xss.html',
+  attribute: 'jsp.xss.attribute',
+  url: 'jsp.xss.url',
+  script: 'jsp.xss.script',
+  handler: 'jsp.xss.script',
+};
+const UNESCAPED_RULE_ID = 'jsp.xss.unescaped';
+
+const URL_ATTRIBUTES = new Set([
+  'href',
+  'src',
+  'srcset',
+  'action',
+  'formaction',
+  'background',
+  'cite',
+  'poster',
+  'codebase',
+  'data',
+  'longdesc',
+  'manifest',
+  'ping',
+  'xlink:href',
+]);
+
+/** Custom tags whose body is handed to the tag rather than written out, by library. */
+const NON_OUTPUT_BODIES: Record<'core' | 'jsp', Set<string>> = {
+  core: new Set(['set', 'out', 'param', 'url', 'redirect', 'import']),
+  jsp: new Set(['attribute', 'param']),
+};
+
+/** Function names that make a value safe in each context (JSTL, OWASP Encoder, ESAPI, Commons Text, Spring, ...). */
+const HTML_ESCAPERS = /^(?:escapeXml\d*|escapeHtml\d*|htmlEscape|for(?:Html|Xml)\w*|encodeFor(?:HTML|XML)\w*)$/i;
+const URL_ENCODERS = /^(?:encode|urlEncode|encodeUrlComponent|encodeUriComponent|forUri\w*|encodeForURL|escapeUri\w*)$/i;
+const JS_ENCODERS = /^(?:escape(?:EcmaScript|JavaScript|Json)|for(?:JavaScript|Js)\w*|encodeForJavaScript|toJson)$/i;
+/** Calls whose result is a number. */
+const COUNT_FUNCTIONS = /^(?:length|size)$/;
+
+/** Top-level operators whose result is a number or boolean, never markup (EL `+` is numeric, `+=` concatenates). */
+const SCALAR_OPERATORS = ['==', '!=', '<', '>', '<=', '>=', '&&', '||', '!', '-', '*', '/', '%'];
+const EL_SCALAR_OPERATORS = new Set([
+  ...SCALAR_OPERATORS,
+  ...['+', 'eq', 'ne', 'lt', 'gt', 'le', 'ge', 'and', 'or', 'not', 'div', 'mod', 'empty'],
+]);
+const JAVA_SCALAR_OPERATORS = new Set([...SCALAR_OPERATORS, 'instanceof']);
+
+const SCALAR_JAVA_TYPES = new Set([
+  'int', 'long', 'short', 'byte', 'double', 'float', 'boolean', 'char',
+  'Integer', 'Long', 'Short', 'Byte', 'Double', 'Float', 'Boolean', 'Character', 'Number', 'BigDecimal', 'BigInteger',
+]);
+
+/** Values the application controls. */
+const SAFE_VALUES = new Set(['pageContext.request.contextPath', 'request.getContextPath()']);
+
+/** EL implicit objects and request getters that carry data the client sent. */
+const REQUEST_EL_OBJECTS = new Set(['param', 'paramValues', 'header', 'headerValues', 'cookie']);
+const REQUEST_GETTERS = new Set([
+  'getParameter',
+  'getParameterValues',
+  'getParameterMap',
+  'getHeader',
+  'getHeaders',
+  'getCookies',
+  'getQueryString',
+  'getRequestURI',
+  'getRequestURL',
+  'getPathInfo',
+  'getRemoteUser',
+]);
+
+/** Stands in for a checked value when scanning the projection: any non-space that isn't markup. */
+const VALUE_PLACEHOLDER = 'x';
+
+const htmlLanguageService = getHtmlLanguageService();
+
+function unquote(raw: string): string {
+  return /^(["']).*\1$/s.test(raw) ? raw.slice(1, -1) : raw;
+}
+
+function attributeContext(name: string, quoted: boolean): OutputContext {
+  if (/^on[a-z]+$/.test(name)) return { kind: 'handler', attribute: name, quoted };
+  if (URL_ATTRIBUTES.has(name)) return { kind: 'url', attribute: name, quoted };
+  return { kind: 'attribute', attribute: name, quoted };
+}
+
+/**
+ * Output contexts of the projected HTML, token by token. The checked values are filled in (they are
+ * whitespace in the projection), so an unquoted `class=${x}` stays one attribute value and a value
+ * between attributes reads as an attribute of its own.
+ */
+function outputContextSpans(projectedText: string, values: readonly { start: number; end: number }[]): ContextSpan[] {
+  // `values` are sorted by start; the text is joined in one pass.
+  const parts: string[] = [];
+  let pos = 0;
+  for (const v of values) {
+    const start = Math.max(v.start, pos);
+    if (v.end > start) {
+      parts.push(projectedText.slice(pos, start), VALUE_PLACEHOLDER.repeat(v.end - start));
+      pos = v.end;
+    }
+  }
+  parts.push(projectedText.slice(pos));
+  const text = parts.join('');
+
+  const spans: ContextSpan[] = [];
+  const scanner = htmlLanguageService.createScanner(text, 0);
+  let inStartTag = false;
+  let tag = '';
+  let attribute: string | undefined;
+  let scriptType: string | undefined;
+
+  let token: TokenType;
+  while ((token = scanner.scan()) !== TokenType.EOS) {
+    const start = scanner.getTokenOffset();
+    const end = scanner.getTokenEnd();
+    const custom = tag.includes(':');
+    // Custom tag attributes go to the tag; other start tag content outside values can add attributes.
+    let context: OutputContext | undefined = !inStartTag ? { kind: 'html' } : custom ? undefined : { kind: 'attribute' };
+
+    switch (token) {
+      case TokenType.StartTagOpen:
+        inStartTag = true;
+        tag = '';
+        attribute = undefined;
+        break;
+      case TokenType.StartTag:
+        tag = scanner.getTokenText().toLowerCase();
+        if (tag === 'script') scriptType = undefined;
+        break;
+      case TokenType.AttributeName:
+        attribute = scanner.getTokenText().toLowerCase();
+        break;
+      case TokenType.AttributeValue: {
+        const raw = scanner.getTokenText();
+        if (tag === 'script' && attribute === 'type') scriptType = unquote(raw);
+        if (!custom && attribute) context = attributeContext(attribute, /^["']/.test(raw));
+        break;
+      }
+      case TokenType.StartTagClose:
+      case TokenType.StartTagSelfClose:
+        inStartTag = false;
+        break;
+      case TokenType.Script:
+        context = { kind: isJavaScriptType(scriptType) ? 'script' : 'html' };
+        break;
+      case TokenType.Styles:
+        context = undefined;
+        break;
+    }
+    if (end > start) {
+      spans.push({ start, end, context });
+    }
+  }
+  return spans;
+}
+
+function contextSpanAt(spans: ContextSpan[], offset: number): ContextSpan | undefined {
+  let lo = 0;
+  let hi = spans.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const span = spans[mid]!;
+    if (offset < span.start) hi = mid - 1;
+    else if (offset >= span.end) lo = mid + 1;
+    else return span;
+  }
+  return undefined;
+}
+
+/** Whether the value at `offset` is in the body of a custom tag that consumes it (`<c:set>`, `<jsp:attribute>`, ...). */
+function isInConsumingTagBody(htmlParsed: HTMLDocument, libraryByPrefix: Map<string, 'core'>, offset: number): boolean {
+  for (let node: HtmlNode | undefined = htmlParsed.findNodeAt(offset); node; node = node.parent) {
+    const [prefix, localName] = (node.tag ?? '').split(':');
+    if (localName === undefined || node.startTagEnd === undefined || offset < node.startTagEnd) continue;
+    const library = prefix === 'jsp' ? 'jsp' : libraryByPrefix.get(prefix!);
+    if (library && NON_OUTPUT_BODIES[library].has(localName)) return true;
+  }
+  return false;
+}
+
+function tokenizeValue(code: string): ValueToken[] {
+  const re = /'(?:[^'\\]|\\.)*'?|"(?:[^"\\]|\\.)*"?|\d+(?:\.\d+)?[lLfFdD]?|[A-Za-z_$][\w$]*|==|!=|<=|>=|&&|\|\||\+=|->|\S/g;
+  const tokens: ValueToken[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(code))) {
+    tokens.push({ text: m[0], start: m.index, end: m.index + m[0].length });
+  }
+  return tokens;
+}
+
+/** Index of the bracket closing the one at `open`, or -1. */
+function closingBracket(tokens: ValueToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    const t = tokens[i]!.text;
+    if (t === '(' || t === '[' || t === '{') depth++;
+    else if (t === ')' || t === ']' || t === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Indexes of the tokens outside any brackets. */
+function topLevelIndexes(tokens: ValueToken[]): number[] {
+  const out: number[] = [];
+  let depth = 0;
+  tokens.forEach((t, i) => {
+    if (t.text === ')' || t.text === ']' || t.text === '}') depth--;
+    if (depth === 0) out.push(i);
+    if (t.text === '(' || t.text === '[' || t.text === '{') depth++;
+  });
+  return out;
+}
+
+function isLiteral(token: ValueToken): boolean {
+  return /^["'\d]/.test(token.text) || token.text === 'true' || token.text === 'false' || token.text === 'null';
+}
+
+/**
+ * Whether a value can't carry markup or script into `context`: literals, numbers and booleans
+ * (comparisons, arithmetic, `empty`, `fn:length`, scalar page variables), application values
+ * such as the context path, and calls to an encoder that fits the context.
+ */
+function isSafeValue(
+  tokens: ValueToken[],
+  language: 'el' | 'java',
+  context: OutputContext,
+  isScalarVariable: (name: string) => boolean,
+): boolean {
+  while (tokens.length > 1 && tokens[0]!.text === '(' && closingBracket(tokens, 0) === tokens.length - 1) {
+    tokens = tokens.slice(1, -1);
+  }
+  if (!tokens.length) {
+    return true;
+  }
+
+  const topLevel = topLevelIndexes(tokens);
+  // `cond ? a : b` is as safe as its branches.
+  const question = topLevel.find((i) => tokens[i]!.text === '?');
+  if (question !== undefined) {
+    let nested = 0;
+    const colon = topLevel.find((i) => {
+      if (i <= question) return false;
+      if (tokens[i]!.text === '?') nested++;
+      else if (tokens[i]!.text === ':' && nested-- === 0) return true;
+      return false;
+    });
+    return (
+      colon !== undefined &&
+      isSafeValue(tokens.slice(question + 1, colon), language, context, isScalarVariable) &&
+      isSafeValue(tokens.slice(colon + 1), language, context, isScalarVariable)
+    );
+  }
+
+  const scalarOperators = language === 'el' ? EL_SCALAR_OPERATORS : JAVA_SCALAR_OPERATORS;
+  if (topLevel.some((i) => scalarOperators.has(tokens[i]!.text) && tokens[i - 1]?.text !== '.')) {
+    return true;
+  }
+  if (tokens.every(isLiteral) || SAFE_VALUES.has(tokens.map((t) => t.text).join(''))) {
+    return true;
+  }
+  if (tokens.length === 1 && isScalarVariable(tokens[0]!.text)) {
+    return true;
+  }
+
+  // `prefix:name(...)`, `Type.name(...)`, `x.name()`: the call is the whole value.
+  const open = topLevel.find((i) => tokens[i]!.text === '(');
+  const callee = open !== undefined ? tokens[open - 1]?.text : undefined;
+  if (open === undefined || !callee || closingBracket(tokens, open) !== tokens.length - 1) {
+    return false;
+  }
+  if (COUNT_FUNCTIONS.test(callee)) {
+    return true;
+  }
+  switch (context.kind) {
+    case 'html':
+    case 'attribute':
+      // Unquoted, an escaped value can still add attributes (`x onclick=...`).
+      return (context.kind === 'html' || !!context.quoted) && HTML_ESCAPERS.test(callee);
+    case 'url':
+      return URL_ENCODERS.test(callee);
+    case 'script':
+    case 'handler':
+      return JS_ENCODERS.test(callee);
+  }
+}
+
+/** The first request-derived part of a value (`param.q`, `request.getHeader("Referer")`), for the message. */
+function findRequestData(code: string, tokens: ValueToken[], language: 'el' | 'java'): string | undefined {
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i]!;
+    if (tokens[i - 1]?.text === '.' || tokens[i - 1]?.text === ':') continue;
+
+    let end: number | undefined;
+    if (language === 'el' && REQUEST_EL_OBJECTS.has(t.text)) {
+      end = i;
+      while (tokens[end + 1]?.text === '.' && tokens[end + 2]) end += 2;
+      if (tokens[end + 1]?.text === '[') end = Math.max(end, closingBracket(tokens, end + 1));
+    } else if (language === 'java' && t.text === 'request' && tokens[i + 1]?.text === '.') {
+      const getter = tokens[i + 2];
+      if (getter && REQUEST_GETTERS.has(getter.text) && tokens[i + 3]?.text === '(') {
+        end = closingBracket(tokens, i + 3);
+      }
+    }
+    if (end !== undefined && end >= i) {
+      return code.slice(t.start, tokens[end]!.end);
+    }
+  }
+  return undefined;
+}
+
+/** `var` names of the page's `<c:url>` tags: URLs the application built. */
+function collectUrlVariables(jspText: string, libraryByPrefix: Map<string, 'core'>): Set<string> {
+  const names = new Set<string>();
+  const re = /<([\w-]+):url\b[^>]*?\svar\s*=\s*["']([\w$]+)["']/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(jspText))) {
+    if (libraryByPrefix.get(m[1]!) === 'core') names.add(m[2]!);
+  }
+  return names;
+}
+
+/** Non-HTML pages (`contentType="application/json"`, `text/plain`, ...) have no markup to inject into. */
+function isHtmlPage(jspText: string): boolean {
+  const m = /<%@\s*page\b[^%]*?\bcontentType\s*=\s*["']\s*([^"';\s]+)/i.exec(jspText);
+  return !m || /html|xml/i.test(m[1]!);
+}
+
+function describe(context: OutputContext): { where: string; remedy: string } {
+  switch (context.kind) {
+    case 'html':
+      return { where: 'HTML text without escaping', remedy: 'wrap it in <c:out> or fn:escapeXml(...)' };
+    case 'attribute':
+      if (!context.attribute) {
+        return { where: 'a start tag', remedy: 'write it as a quoted attribute value instead' };
+      }
+      return context.quoted
+        ? { where: `the "${context.attribute}" attribute without escaping`, remedy: 'escape it with fn:escapeXml(...)' }
+        : {
+            where: `the unquoted "${context.attribute}" attribute`,
+            remedy: 'quote the value and escape it with fn:escapeXml(...)',
+          };
+    case 'url':
+      return {
+        where: `the "${context.attribute}" URL without URL encoding`,
+        remedy: 'build it with <c:url> and <c:param>, or encode the user-controlled part',
+      };
+    case 'script':
+      return { where: 'a <script> block without JavaScript encoding', remedy: 'HTML escaping does not make it safe there' };
+    case 'handler':
+      return {
+        where: `the "${context.attribute}" event handler without JavaScript encoding`,
+        remedy: 'HTML escaping does not make it safe there',
+      };
+  }
+}
+
+function truncate(s: string): string {
+  const oneLine = s.replace(/\s+/g, ' ');
+  return oneLine.length > 50 ? `${oneLine.slice(0, 49)}…` : oneLine;
+}
+
+/**
+ * Security lint for `${...}` and `<%= %>` output, using the HTML projection to tell where each value
+ * lands: HTML text (`jsp.xss.html`), attribute values (`jsp.xss.attribute`), URL attributes such as
+ * `href`/`src` (`jsp.xss.url`), and `<script>` blocks or `on*` handlers (`jsp.xss.script`). Those
+ * rules report request data (`param.q`, `request.getHeader(...)`); any other unescaped value falls
+ * under `jsp.xss.unescaped`. Values that can't carry markup or that go through a fitting encoder are
+ * left alone, as are custom tag attributes and bodies the tag consumes (`<c:out value>`, `<c:set>`,
+ * ...), which aren't written as is.
+ */
+export function validateXssOutput(args: {
+  doc: TextDocument;
+  projectedText: string;
+  htmlParsed: HTMLDocument;
+  javaRegions: readonly JavaRegion[];
+  elRegions: readonly ElRegion[];
+  scriptletSymbols: ScriptletSymbols | undefined;
+  lintConfig?: LintConfig;
+}): Diagnostic[] {
+  const { doc, projectedText, htmlParsed, scriptletSymbols } = args;
+  const lint = args.lintConfig ?? DEFAULT_LINT_CONFIG;
+  const jspText = doc.getText();
+  if (!lint.enable || !isHtmlPage(jspText)) {
+    return [];
+  }
+
+  const libraryByPrefix = new Map<string, 'core'>();
+  for (const d of parseTaglibDirectives(jspText)) {
+    if (JSTL_CORE_URIS.has(d.uri)) libraryByPrefix.set(d.prefix, 'core');
+  }
+  const urlVariables = collectUrlVariables(jspText, libraryByPrefix);
+  const values = [
+    ...args.elRegions
+      .filter((r) => jspText[r.jspStartOffset] === '$')
+      .map((r) => ({ region: r, language: 'el' as const })),
+    ...args.javaRegions.filter((r) => r.kind === 'scriptlet-expression').map((r) => ({ region: r, language: 'java' as const })),
+  ].sort((a, b) => a.region.jspStartOffset - b.region.jspStartOffset);
+  const spans = outputContextSpans(
+    projectedText,
+    values.map((v) => ({ start: v.region.jspStartOffset, end: v.region.jspEndOffset })),
+  );
+
+  const out: Diagnostic[] = [];
+  for (const { region, language } of values) {
+    const span = contextSpanAt(spans, region.jspStartOffset);
+    const context = span?.context;
+    // Inside a custom tag written into an attribute value: `href="<c:url value='${x}'/>"`.
+    if (!context || /<[\w-]+:[\w-]+\b[^>]*$/.test(jspText.slice(span.start, region.jspStartOffset))) {
+      continue;
+    }
+    if (isInConsumingTagBody(htmlParsed, libraryByPrefix, region.jspStartOffset)) {
+      continue;
+    }
+
+    const code = jspText.slice(region.jspContentStartOffset, region.jspContentEndOffset);
+    const tokens = tokenizeValue(code);
+    const isScalarVariable = (name: string) =>
+      language === 'el'
+        ? context.kind !== 'script' && context.kind !== 'handler' && urlVariables.has(name)
+        : !!scriptletSymbols &&
+          SCALAR_JAVA_TYPES.has(scriptletVariableType(scriptletSymbols, name, region.jspContentStartOffset) ?? '');
+    if (isSafeValue(tokens, language, context, isScalarVariable)) {
+      continue;
+    }
+
+    const requestData = findRequestData(code, tokens, language);
+    const ruleId = requestData ? RULE_IDS[context.kind] : UNESCAPED_RULE_ID;
+    const severity = severityFromLevel(effectiveRuleLevel(lint, ruleId, requestData ? 'warning' : 'off'));
+    if (!severity) {
+      continue;
+    }
+    const subject = requestData
+      ? `Request data \`${truncate(requestData)}\``
+      : `\`${truncate(jspText.slice(region.jspStartOffset, region.jspEndOffset))}\``;
+    const { where, remedy } = describe(context);
+    out.push({
+      message: `${subject} is written into ${where}; ${remedy}.`,
+      severity,
+      range: { start: doc.positionAt(region.jspStartOffset), end: doc.positionAt(region.jspEndOffset) },
+      source: 'jsp-lang(lint)',
+      code: ruleId,
+      data: { context: context.kind, escapable: context.kind === 'html' || (context.kind === 'attribute' && !!context.quoted) },
+    });
+  }
+  return out;
+}
+
+/**
+ * Quick fixes for XSS diagnostics in HTML text and quoted attributes: wrap the value in
+ * `<c:out value="..."/>` (HTML text) or in `${fn:escapeXml(...)}` (EL), declaring the JSTL taglib when
+ * the page has none. Unquoted attributes, URL and script contexts need more than escaping, so they get no fix.
+ */
+export function getXssQuickFixes(args: {
+  doc: TextDocument;
+  javaRegions: readonly JavaRegion[];
+  diagnostic: Diagnostic;
+  flavor: ServletApiFlavor;
+}): CodeAction[] {
+  const { doc, javaRegions, diagnostic, flavor } = args;
+  const code = diagnostic.code;
+  const start = doc.offsetAt(diagnostic.range.start);
+  const end = doc.offsetAt(diagnostic.range.end);
+  const source = doc.getText().slice(start, end);
+  const isEl = /^\$\{[\s\S]*\}$/.test(source);
+  const isExpression = /^<%=[\s\S]*%>$/.test(source);
+  const data = diagnostic.data as { context?: OutputContext['kind']; escapable?: boolean } | undefined;
+  if (typeof code !== 'string' || !code.startsWith('jsp.xss.') || data?.escapable !== true || (!isEl && !isExpression)) {
+    return [];
+  }
+
+  const actions: CodeAction[] = [];
+  const action = (title: string, newText: string, taglib: { edit?: TextEdit }) => {
+    const edits = [{ range: diagnostic.range, newText }];
+    if (taglib.edit) edits.unshift(taglib.edit);
+    actions.push({
+      title,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: actions.length === 0,
+      edit: { changes: { [doc.uri]: edits } },
+    });
+  };
+
+  const quote = !source.includes('"') ? '"' : !source.includes("'") ? "'" : undefined;
+  const core = data.context === 'html' && quote ? jstlTaglibPrefix(doc, javaRegions, 'core', flavor) : undefined;
+  if (core) {
+    action(`Wrap in <${core.prefix}:out>`, `<${core.prefix}:out value=${quote}${source}${quote}/>`, core);
+  }
+  const functions = isEl ? jstlTaglibPrefix(doc, javaRegions, 'functions', flavor) : undefined;
+  if (functions) {
+    const value = source.slice(2, -1).trim();
+    action(`Escape with ${functions.prefix}:escapeXml(...)`, `\${${functions.prefix}:escapeXml(${value})}`, functions);
+  }
+  return actions;
+}
@@ -1,3 +1,5 @@
+import { scanJspSpans, type JspSpan } from './jspSpans';
+
 export type ElRegion = {
   /** Start offset of the full EL expression including delimiters (0-based). */
   jspStartOffset: number;
@@ -68,50 +70,26 @@ export const EL_IMPLICIT_OBJECTS: ElImplicitObject[] = [
   },
 ];
 
-function findNextElStart(source: string, fromIndex: number): number {
-  const idxDollar = source.indexOf('${', fromIndex);
-  const idxHash = source.indexOf('#{', fromIndex);
-
-  if (idxDollar === -1 && idxHash === -1) {
-    return -1;
-  }
-  if (idxDollar === -1) {
-    return idxHash;
-  }
-  if (idxHash === -1) {
-    return idxDollar;
-  }
-  return Math.min(idxDollar, idxHash);
+/** The EL region for an `el` span (see `scanJspSpans`). */
+export function elRegionFromSpan(span: JspSpan): ElRegion {
+  const jspContentStartOffset = Math.min(span.endExclusive, span.start + 2);
+  return {
+    jspStartOffset: span.start,
+    jspEndOffset: span.endExclusive,
+    jspContentStartOffset,
+    jspContentEndOffset: Math.max(jspContentStartOffset, span.closed ? span.endExclusive - 1 : span.endExclusive),
+  };
 }
 
+/**
+ * `${...}` / `#{...}` expressions in template text and attribute values. Uses the same
+ * tokenizer as the HTML projection, so both agree on boundaries; EL inside JSP comments and
+ * scriptlets is not EL.
+ */
 export function extractElRegionsFromJsp(source: string): ElRegion[] {
-  const regions: ElRegion[] = [];
-
-  let i = 0;
-  while (true) {
-    const start = findNextElStart(source, i);
-    if (start === -1) {
-      break;
-    }
-
-    const endBrace = source.indexOf('}', start + 2);
-    const jspStartOffset = start;
-    const jspEndOffset = endBrace === -1 ? source.length : endBrace + 1;
-
-    const jspContentStartOffset = Math.min(jspEndOffset, jspStartOffset + 2);
-    const jspContentEndOffset = Math.max(jspContentStartOffset, jspEndOffset - 1);
-
-    regions.push({
-      jspStartOffset,
-      jspEndOffset,
-      jspContentStartOffset,
-      jspContentEndOffset,
-    });
-
-    i = Math.max(jspStartOffset + 2, jspEndOffset);
-  }
-
-  return regions;
+  return scanJspSpans(source)
+    .filter((span) => span.kind === 'el')
+    .map(elRegionFromSpan);
 }
 
 function findElRegionAtOffset(regions: ElRegion[], offset: number): ElRegion | undefined {
@@ -0,0 +1,134 @@
+import type { CompletionList, Position } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+  doComplete as doEmmetComplete,
+  expandAbbreviation,
+  extractAbbreviation,
+  getExpandOptions,
+  parseAbbreviation,
+  type VSCodeEmmetConfig,
+} from '@vscode/emmet-helper';
+
+import { getStartTagContext } from '../taglibs/startTagContext';
+import type { TaglibTag } from '../taglibs/types';
+
+export type EmmetConfig = {
+  enable: boolean;
+};
+
+export const DEFAULT_EMMET_CONFIG: EmmetConfig = {
+  enable: true,
+};
+
+export function normalizeEmmetConfig(cfg: any): EmmetConfig {
+  return {
+    enable: typeof cfg?.enable === 'boolean' ? cfg.enable : DEFAULT_EMMET_CONFIG.enable,
+  };
+}
+
+const EMMET_CONFIG: VSCodeEmmetConfig = {
+  showExpandedAbbreviation: 'always',
+  showAbbreviationSuggestions: true,
+  showSuggestionsAsSnippets: false,
+};
+
+/** Emmet options and parsed trees, as typed by the helper's `parseAbbreviation`. */
+type EmmetUserConfig = Parameters<typeof parseAbbreviation>[1];
+type MarkupAbbreviation = Extract<ReturnType<typeof parseAbbreviation>, { type: 'Abbreviation' }>;
+type AbbreviationNode = MarkupAbbreviation['children'][number];
+
+function isInsideHtmlComment(text: string, offset: number): boolean {
+  const open = text.lastIndexOf('<!--', offset - 4);
+  if (open === -1) {
+    return false;
+  }
+  const close = text.indexOf('-->', open + 4);
+  return close === -1 || close + 3 > offset;
+}
+
+/**
+ * Adds the TLD's required attributes to every `prefix:tag` node and self-closes tags declared
+ * with `body-content` `empty`. Returns false when the abbreviation has no known taglib tags.
+ */
+function applyTaglibDefinitions(
+  nodes: AbbreviationNode[],
+  resolveTag: (prefix: string, localName: string) => TaglibTag | undefined,
+): boolean {
+  let changed = false;
+  for (const node of nodes) {
+    const colon = node.name?.indexOf(':') ?? -1;
+    const tag = node.name && colon > 0 ? resolveTag(node.name.slice(0, colon), node.name.slice(colon + 1)) : undefined;
+    if (tag) {
+      const present = new Set((node.attributes ?? []).map((a) => a.name));
+      const required = [...tag.attributes.values()].filter((a) => a.required && !present.has(a.name));
+      node.attributes = [...(node.attributes ?? []), ...required.map((a) => ({ name: a.name, valueType: 'raw' as const }))];
+      if (tag.bodyContent?.toLowerCase() === 'empty' && !node.children.length) {
+        node.selfClosing = true;
+      }
+      changed = true;
+    }
+    if (applyTaglibDefinitions(node.children, resolveTag)) {
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Emmet completions for the markup parts of a JSP document.
+ *
+ * Runs on the projected HTML (JSP constructs are blanks there). Callers are expected to skip
+ * Java, EL, CSS and JavaScript regions. Abbreviations that use taglib tags (`c:forEach>li`)
+ * are expanded with the tags' required attributes as tab stops; tags whose TLD declares
+ * `body-content` `empty` are self-closed.
+ */
+export function getJspEmmetCompletions(args: {
+  htmlDocument: TextDocument;
+  position: Position;
+  resolveTag: (prefix: string, localName: string) => TaglibTag | undefined;
+}): CompletionList | undefined {
+  const { htmlDocument, position, resolveTag } = args;
+  const text = htmlDocument.getText();
+  const offset = htmlDocument.offsetAt(position);
+
+  // Inside a start tag (`<div cl|`) or an HTML comment, abbreviations make no sense.
+  if (getStartTagContext(text, offset) || isInsideHtmlComment(text, offset)) {
+    return undefined;
+  }
+
+  const list = doEmmetComplete(htmlDocument, position, 'html', EMMET_CONFIG);
+  if (!list?.items.length) {
+    return undefined;
+  }
+
+  const extracted = extractAbbreviation(htmlDocument, position, { lookAhead: true, type: 'markup' });
+  if (!extracted || !extracted.abbreviation.includes(':')) {
+    return list;
+  }
+
+  const expanded = list.items.find((i) => i.label === extracted.abbreviation);
+  if (!expanded?.textEdit) {
+    return list;
+  }
+
+  try {
+    const options = getExpandOptions('html', EMMET_CONFIG, extracted.filter);
+    // Taglib tags are XML: self-closing tags need the slash.
+    const config: EmmetUserConfig = { ...options, options: { ...options.options, 'output.selfClosingStyle': 'xhtml' } };
+    const tree = parseAbbreviation(extracted.abbreviation, config);
+    if (Array.isArray(tree) || !applyTaglibDefinitions(tree.children, resolveTag)) {
+      return list;
+    }
+
+    let snippet = expandAbbreviation(tree, config);
+    if (!/\$\{0\}|\$0/.test(snippet)) {
+      snippet += '${0}';
+    }
+    expanded.textEdit = { ...expanded.textEdit, newText: snippet };
+    expanded.documentation = snippet.replace(/\$\{\d+(?::([^}]*))?\}/g, (_m, placeholder?: string) => placeholder ?? '|');
+  } catch {
+    // Keep Emmet's own expansion.
+  }
+
+  return list;
+}
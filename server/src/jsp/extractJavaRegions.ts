@@ -1,3 +1,5 @@
+import { scanJspSpans, type JspSpan } from './jspSpans';
+
 export type JavaRegionKind =
   | 'scriptlet-statement'
   | 'scriptlet-expression'
@@ -30,35 +32,6 @@ export type ExtractedJavaRegions = {
   pageImports: string[];
 };
 
-type JspBlockDelimiters = {
-  start: number;
-  endExclusive: number;
-  kind: 'comment' | 'code';
-};
-
-function findNextJspBlock(source: string, fromIndex: number): JspBlockDelimiters | undefined {
-  const start = source.indexOf('<%', fromIndex);
-  if (start === -1) {
-    return undefined;
-  }
-
-  // JSP comment: <%-- ... --%>
-  if (source.startsWith('<%--', start)) {
-    const end = source.indexOf('--%>', start + 4);
-    if (end === -1) {
-      return { start, endExclusive: source.length, kind: 'comment' };
-    }
-    return { start, endExclusive: end + 4, kind: 'comment' };
-  }
-
-  // Everything else: <% ... %>
-  const end = source.indexOf('%>', start + 2);
-  if (end === -1) {
-    return { start, endExclusive: source.length, kind: 'code' };
-  }
-  return { start, endExclusive: end + 2, kind: 'code' };
-}
-
 function extractPageImportList(directiveBody: string): string[] {
   // Very small, forgiving parser for e.g.
   //   page import="java.util.List, java.time.Instant"
@@ -85,66 +58,60 @@ function extractPageImportList(directiveBody: string): string[] {
     .filter((s) => s.length > 0);
 }
 
-export function extractJavaRegionsFromJsp(source: string): ExtractedJavaRegions {
-  const regions: JavaRegion[] = [];
-  const pageImports: string[] = [];
-
-  let i = 0;
-  while (true) {
-    const block = findNextJspBlock(source, i);
-    if (!block) {
-      break;
+/** The Java region for a `code` span (see `scanJspSpans`). */
+export function javaRegionFromSpan(source: string, span: JspSpan): JavaRegion {
+  const jspStartOffset = span.start;
+  const jspEndOffset = span.endExclusive;
+
+  const sigil = source[jspStartOffset + 2];
+  const isExpr = sigil === '=';
+  const isDecl = sigil === '!';
+  const isDirective = sigil === '@';
+
+  const kind: JavaRegionKind = isExpr
+    ? 'scriptlet-expression'
+    : isDecl
+      ? 'scriptlet-declaration'
+      : isDirective
+        ? 'directive'
+        : 'scriptlet-statement';
+
+  const jspContentStartOffset = Math.min(
+    jspEndOffset,
+    jspStartOffset + 2 + (isExpr || isDecl || isDirective ? 1 : 0),
+  );
+  const jspContentEndOffset = Math.max(jspContentStartOffset, span.closed ? jspEndOffset - 2 : jspEndOffset);
+
+  const region: JavaRegion = {
+    kind,
+    jspStartOffset,
+    jspEndOffset,
+    jspContentStartOffset,
+    jspContentEndOffset,
+  };
+
+  if (isDirective) {
+    const body = source.slice(jspContentStartOffset, jspContentEndOffset);
+    const imports = extractPageImportList(body);
+    if (imports.length) {
+      region.kind = 'directive-page-import';
+      region.imports = imports;
     }
+  }
 
-    // Ignore JSP comments entirely for Feature 2.
-    if (block.kind === 'comment') {
-      i = block.start + 2;
-      continue;
-    }
+  return region;
+}
 
-    const jspStartOffset = block.start;
-    const jspEndOffset = block.endExclusive;
-
-    const sigil = source[jspStartOffset + 2];
-    const isExpr = sigil === '=';
-    const isDecl = sigil === '!';
-    const isDirective = sigil === '@';
-
-    const kind: JavaRegionKind = isExpr
-      ? 'scriptlet-expression'
-      : isDecl
-        ? 'scriptlet-declaration'
-        : isDirective
-          ? 'directive'
-          : 'scriptlet-statement';
-
-    const jspContentStartOffset = Math.min(
-      jspEndOffset,
-      jspStartOffset + 2 + (isExpr || isDecl || isDirective ? 1 : 0),
-    );
-    const jspContentEndOffset = Math.max(jspContentStartOffset, jspEndOffset - 2);
-
-    const region: JavaRegion = {
-      kind,
-      jspStartOffset,
-      jspEndOffset,
-      jspContentStartOffset,
-      jspContentEndOffset,
-    };
-
-    if (isDirective) {
-      const body = source.slice(jspContentStartOffset, jspContentEndOffset);
-      const imports = extractPageImportList(body);
-      if (imports.length) {
-        region.kind = 'directive-page-import';
-        region.imports = imports;
-        pageImports.push(...imports);
-      }
-    }
+/** Aggregated `<%@ page import %>` imports of a region list, in document order. */
+export function collectPageImports(regions: readonly JavaRegion[]): string[] {
+  return regions.flatMap((r) => r.imports ?? []);
+}
 
-    regions.push(region);
-    i = jspStartOffset + 2;
-  }
+export function extractJavaRegionsFromJsp(source: string): ExtractedJavaRegions {
+  // JSP comments are ignored entirely for Feature 2.
+  const regions = scanJspSpans(source)
+    .filter((span) => span.kind === 'code')
+    .map((span) => javaRegionFromSpan(source, span));
 
-  return { regions, pageImports };
+  return { regions, pageImports: collectPageImports(regions) };
 }
@@ -0,0 +1,232 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLanguageService as getHtmlLanguageService, TokenType } from 'vscode-html-languageservice';
+
+import { extractJavaRegionsFromJsp } from './extractJavaRegions';
+import { extractElRegionsFromJsp } from './elSupport';
+
+export type JsRegionKind = 'script-block' | 'event-handler-attr';
+
+export type JsRegion = {
+  kind: JsRegionKind;
+  /** Start offset in the original JSP document (0-based). */
+  jspStartOffset: number;
+  /** End offset (exclusive) in the original JSP document (0-based). */
+  jspEndOffset: number;
+  /** JavaScript document used for language service operations. */
+  jsDocument: TextDocument;
+  /** Offset in jsDocument where the original content starts (0 for script blocks). */
+  jsContentStartOffset: number;
+};
+
+const htmlLanguageService = getHtmlLanguageService();
+
+/** Wrapper used for `on*="..."` attributes so `return false;` and `event` are valid. */
+const HANDLER_PREFIX = 'function __jspHandler(event) {';
+const HANDLER_SUFFIX = '\n}';
+
+/**
+ * Placeholder written over masked `<%= ... %>` / `${...}` spans.
+ *
+ * The projected HTML replaces those spans with whitespace, which leaves holes like
+ * `var n = ;` in the script. A single-character numeric literal keeps the projection
+ * same-length and is valid both as an expression and inside string literals.
+ */
+const EXPRESSION_PLACEHOLDER = '0';
+
+function isQuote(ch: string | undefined): ch is '"' | "'" {
+  return ch === '"' || ch === "'";
+}
+
+/** Whether a `<script type>` value (absent meaning the default) is run as JavaScript. */
+export function isJavaScriptType(type: string | undefined): boolean {
+  if (!type) {
+    return true;
+  }
+  const t = type.trim().toLowerCase();
+  return (
+    t === '' ||
+    t === 'module' ||
+    t === 'text/javascript' ||
+    t === 'application/javascript' ||
+    t === 'text/ecmascript' ||
+    t === 'application/ecmascript'
+  );
+}
+
+function unquote(raw: string): string {
+  const first = raw[0];
+  const last = raw[raw.length - 1];
+  if (isQuote(first) && last === first && raw.length >= 2) {
+    return raw.slice(1, -1);
+  }
+  return raw;
+}
+
+function findJspCommentSpans(jspText: string): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  const re = /<%--[\s\S]*?(?:--%>|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(jspText))) {
+    spans.push({ start: m.index, end: m.index + m[0].length });
+    if (!m[0].length) {
+      re.lastIndex++;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Spans of JSP constructs that *produce a value* in the page output
+ * (`<%= ... %>` and `${...}` / `#{...}`), excluding anything inside JSP comments.
+ */
+function findExpressionSpans(jspText: string): Array<{ start: number; end: number }> {
+  const comments = findJspCommentSpans(jspText);
+  const inComment = (offset: number) => comments.some((c) => offset >= c.start && offset < c.end);
+
+  const spans: Array<{ start: number; end: number }> = [];
+  for (const r of extractJavaRegionsFromJsp(jspText).regions) {
+    if (r.kind === 'scriptlet-expression') {
+      spans.push({ start: r.jspStartOffset, end: r.jspEndOffset });
+    }
+  }
+  for (const r of extractElRegionsFromJsp(jspText)) {
+    if (!inComment(r.jspStartOffset)) {
+      spans.push({ start: r.jspStartOffset, end: r.jspEndOffset });
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function withPlaceholders(
+  text: string,
+  contentStart: number,
+  contentEnd: number,
+  expressions: Array<{ start: number; end: number }>,
+): string {
+  let out = text.slice(contentStart, contentEnd);
+  let previousEnd = -1;
+  for (const { start, end } of expressions) {
+    if (start < contentStart || start >= contentEnd) {
+      continue;
+    }
+    const rel = start - contentStart;
+    // Adjacent expressions (`${a}${b}`) render as one value, so they share the first placeholder.
+    const adjacent = start === previousEnd;
+    previousEnd = end;
+    // Only fill holes the projection actually masked.
+    if (out[rel] !== ' ' || adjacent) {
+      continue;
+    }
+    out = out.slice(0, rel) + EXPRESSION_PLACEHOLDER + out.slice(rel + 1);
+  }
+  return out;
+}
+
+/**
+ * Extract JavaScript regions from a *projected HTML* document.
+ *
+ * Notes:
+ * - Offsets of the projection are assumed to match the JSP source 1:1.
+ * - Masked `<%= %>` and EL spans get a placeholder expression so they don't produce false syntax errors.
+ * - Event handler attributes are wrapped as `function __jspHandler(event) {...}`.
+ */
+export function extractJsRegionsFromProjectedHtml(htmlDocument: TextDocument, jspText: string): JsRegion[] {
+  const text = htmlDocument.getText();
+  const scanner = htmlLanguageService.createScanner(text, 0);
+  const expressions = findExpressionSpans(jspText);
+
+  const regions: JsRegion[] = [];
+
+  let lastAttrName: string | undefined;
+  let scriptType: string | undefined;
+
+  while (scanner.scan() !== TokenType.EOS) {
+    switch (scanner.getTokenType()) {
+      case TokenType.StartTag: {
+        if (scanner.getTokenText().toLowerCase() === 'script') {
+          scriptType = undefined;
+        }
+        lastAttrName = undefined;
+        break;
+      }
+
+      case TokenType.AttributeName: {
+        lastAttrName = scanner.getTokenText().toLowerCase();
+        break;
+      }
+
+      case TokenType.AttributeValue: {
+        const raw = scanner.getTokenText();
+        if (lastAttrName === 'type') {
+          scriptType = unquote(raw);
+        }
+
+        if (!lastAttrName || !/^on[a-z]+$/.test(lastAttrName)) {
+          break;
+        }
+
+        const start = scanner.getTokenOffset();
+        const end = scanner.getTokenEnd();
+
+        // The scanner includes quotes in AttributeValue.
+        let contentStart = start;
+        let contentEnd = end;
+        if (isQuote(raw[0]) && raw[raw.length - 1] === raw[0] && raw.length >= 2) {
+          contentStart = start + 1;
+          contentEnd = end - 1;
+        }
+
+        if (contentEnd <= contentStart) {
+          break;
+        }
+
+        const jsContent = withPlaceholders(text, contentStart, contentEnd, expressions);
+        const jsDocument = TextDocument.create(
+          `${htmlDocument.uri}#event-handler@${contentStart}`,
+          'javascript',
+          htmlDocument.version,
+          `${HANDLER_PREFIX}${jsContent}${HANDLER_SUFFIX}`,
+        );
+
+        regions.push({
+          kind: 'event-handler-attr',
+          jspStartOffset: contentStart,
+          jspEndOffset: contentEnd,
+          jsDocument,
+          jsContentStartOffset: HANDLER_PREFIX.length,
+        });
+        break;
+      }
+
+      case TokenType.Script: {
+        const contentStart = scanner.getTokenOffset();
+        const contentEnd = scanner.getTokenEnd();
+        if (contentEnd <= contentStart || !isJavaScriptType(scriptType)) {
+          break;
+        }
+
+        const jsContent = withPlaceholders(text, contentStart, contentEnd, expressions);
+        const jsDocument = TextDocument.create(
+          `${htmlDocument.uri}#script@${contentStart}`,
+          'javascript',
+          htmlDocument.version,
+          jsContent,
+        );
+
+        regions.push({
+          kind: 'script-block',
+          jspStartOffset: contentStart,
+          jspEndOffset: contentEnd,
+          jsDocument,
+          jsContentStartOffset: 0,
+        });
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  return regions;
+}
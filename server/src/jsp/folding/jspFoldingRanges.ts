@@ -0,0 +1,181 @@
+import { type FoldingRange, FoldingRangeKind } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLanguageService as getHtmlLanguageService } from 'vscode-html-languageservice';
+import { getCSSLanguageService } from 'vscode-css-languageservice';
+
+import type { CssRegion } from '../extractCssRegions';
+import type { JavaRegion } from '../extractJavaRegions';
+
+const htmlLanguageService = getHtmlLanguageService();
+const cssLanguageService = getCSSLanguageService();
+
+type OffsetSpan = { startOffset: number; endOffset: number };
+
+function findJspComments(jspText: string): OffsetSpan[] {
+  const out: OffsetSpan[] = [];
+  const re = /<%--[\s\S]*?(?:--%>|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(jspText))) {
+    if (!m[0].length) {
+      break;
+    }
+    out.push({ startOffset: m.index, endOffset: m.index + m[0].length });
+  }
+  return out;
+}
+
+/**
+ * Folds a delimited block (`<% ... %>`, `<%-- ... --%>`) so that the closing delimiter stays visible,
+ * mirroring how the HTML service folds elements.
+ */
+function blockRange(doc: TextDocument, span: OffsetSpan, kind?: FoldingRangeKind): FoldingRange | undefined {
+  const startLine = doc.positionAt(span.startOffset).line;
+  const endLine = doc.positionAt(span.endOffset).line - 1;
+  if (endLine <= startLine) {
+    return undefined;
+  }
+  return kind ? { startLine, endLine, kind } : { startLine, endLine };
+}
+
+function getScriptletRanges(doc: TextDocument, javaRegions: JavaRegion[]): FoldingRange[] {
+  const out: FoldingRange[] = [];
+  for (const r of javaRegions) {
+    if (r.kind !== 'scriptlet-statement' && r.kind !== 'scriptlet-declaration') {
+      continue;
+    }
+    const range = blockRange(doc, { startOffset: r.jspStartOffset, endOffset: r.jspEndOffset });
+    if (range) {
+      out.push(range);
+    }
+  }
+  return out;
+}
+
+function getCommentAndRegionRanges(doc: TextDocument, comments: OffsetSpan[]): FoldingRange[] {
+  const text = doc.getText();
+  const out: FoldingRange[] = [];
+  const openRegions: number[] = [];
+
+  for (const c of comments) {
+    const body = text.slice(c.startOffset + 4, Math.max(c.startOffset + 4, c.endOffset - 4));
+
+    // `<%-- #region [name] --%>` / `<%-- #endregion --%>`
+    if (/^\s*#region\b/.test(body)) {
+      openRegions.push(doc.positionAt(c.startOffset).line);
+      continue;
+    }
+    if (/^\s*#endregion\b/.test(body)) {
+      const startLine = openRegions.pop();
+      const endLine = doc.positionAt(c.startOffset).line;
+      if (startLine !== undefined && endLine > startLine) {
+        out.push({ startLine, endLine, kind: FoldingRangeKind.Region });
+      }
+      continue;
+    }
+
+    const range = blockRange(doc, c, FoldingRangeKind.Comment);
+    if (range) {
+      out.push(range);
+    }
+  }
+
+  return out;
+}
+
+/** Folds the run of directives (`<%@ ... %>`) at the top of the file. */
+function getLeadingDirectivesRange(doc: TextDocument, javaRegions: JavaRegion[], comments: OffsetSpan[]): FoldingRange | undefined {
+  const text = doc.getText();
+  const directives = javaRegions.filter((r) => r.kind === 'directive' || r.kind === 'directive-page-import');
+
+  // Walk forward over whitespace, JSP comments and directives.
+  let offset = 0;
+  let first: JavaRegion | undefined;
+  let last: JavaRegion | undefined;
+  while (offset < text.length) {
+    if (/\s/.test(text[offset]!)) {
+      offset++;
+      continue;
+    }
+    const comment = comments.find((c) => c.startOffset === offset);
+    if (comment) {
+      offset = comment.endOffset;
+      continue;
+    }
+    const directive = directives.find((d) => d.jspStartOffset === offset);
+    if (!directive) {
+      break;
+    }
+    first ??= directive;
+    last = directive;
+    offset = directive.jspEndOffset;
+  }
+
+  if (!first || !last) {
+    return undefined;
+  }
+
+  const startLine = doc.positionAt(first.jspStartOffset).line;
+  const endLine = doc.positionAt(last.jspEndOffset).line;
+  if (endLine <= startLine) {
+    return undefined;
+  }
+  return { startLine, endLine, kind: FoldingRangeKind.Imports };
+}
+
+function getStyleBlockRanges(doc: TextDocument, cssRegions: CssRegion[]): FoldingRange[] {
+  const out: FoldingRange[] = [];
+  for (const region of cssRegions) {
+    if (region.kind !== 'style-block') {
+      continue;
+    }
+    // Style blocks are extracted verbatim, so CSS lines are offset by the block's first line.
+    const lineDelta = doc.positionAt(region.jspStartOffset).line;
+    for (const r of cssLanguageService.getFoldingRanges(region.cssDocument)) {
+      out.push({ ...r, startLine: r.startLine + lineDelta, endLine: r.endLine + lineDelta });
+    }
+  }
+  return out;
+}
+
+/**
+ * Folding ranges for a JSP document:
+ * - HTML and `prefix:tag` elements from the projected HTML document
+ * - multi-line scriptlets and declarations
+ * - JSP comments, plus `<%-- #region --%>` / `<%-- #endregion --%>` markers
+ * - the block of directives at the top of the file
+ * - CSS rules inside `<style>` blocks
+ */
+export function getJspFoldingRanges(args: {
+  doc: TextDocument;
+  htmlDocument: TextDocument;
+  javaRegions: JavaRegion[];
+  cssRegions: CssRegion[];
+}): FoldingRange[] {
+  const { doc, htmlDocument, javaRegions, cssRegions } = args;
+  const comments = findJspComments(doc.getText());
+
+  const ranges: FoldingRange[] = [
+    ...htmlLanguageService.getFoldingRanges(htmlDocument),
+    ...getScriptletRanges(doc, javaRegions),
+    ...getCommentAndRegionRanges(doc, comments),
+    ...getStyleBlockRanges(doc, cssRegions),
+  ];
+
+  const directives = getLeadingDirectivesRange(doc, javaRegions, comments);
+  if (directives) {
+    ranges.push(directives);
+  }
+
+  // Different sources can produce the same range (e.g. a scriptlet that spans exactly an element).
+  const seen = new Set<string>();
+  return ranges
+    .filter((r) => {
+      const key = `${r.startLine}:${r.endLine}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.startLine - b.startLine);
+}
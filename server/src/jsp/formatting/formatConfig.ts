@@ -0,0 +1,80 @@
+export type WrapAttributesMode =
+  | 'auto'
+  | 'force'
+  | 'force-aligned'
+  | 'force-expand-multiline'
+  | 'aligned-multiple'
+  | 'preserve'
+  | 'preserve-aligned';
+
+export type FormatConfig = {
+  enable: boolean;
+  /** Maximum characters per line (0 = disable wrapping). */
+  wrapLineLength: number;
+  wrapAttributes: WrapAttributesMode;
+  indentInnerHtml: boolean;
+  preserveNewLines: boolean;
+  /** Maximum number of consecutive blank lines to keep (0 = unlimited). */
+  maxPreserveNewLines: number;
+  endWithNewline: boolean;
+};
+
+export const DEFAULT_FORMAT_CONFIG: FormatConfig = {
+  enable: true,
+  wrapLineLength: 120,
+  wrapAttributes: 'auto',
+  indentInnerHtml: false,
+  preserveNewLines: true,
+  maxPreserveNewLines: 0,
+  endWithNewline: false,
+};
+
+const WRAP_ATTRIBUTES_MODES: ReadonlySet<string> = new Set<WrapAttributesMode>([
+  'auto',
+  'force',
+  'force-aligned',
+  'force-expand-multiline',
+  'aligned-multiple',
+  'preserve',
+  'preserve-aligned',
+]);
+
+export function normalizeFormatConfig(input: any): FormatConfig {
+  const cfg: FormatConfig = { ...DEFAULT_FORMAT_CONFIG };
+
+  if (!input || typeof input !== 'object') {
+    return cfg;
+  }
+
+  if (typeof input.enable === 'boolean') {
+    cfg.enable = input.enable;
+  }
+  if (Number.isFinite(input.wrapLineLength)) {
+    cfg.wrapLineLength = clampInt(input.wrapLineLength, 0, 10_000);
+  }
+  if (typeof input.wrapAttributes === 'string' && WRAP_ATTRIBUTES_MODES.has(input.wrapAttributes)) {
+    cfg.wrapAttributes = input.wrapAttributes as WrapAttributesMode;
+  }
+  if (typeof input.indentInnerHtml === 'boolean') {
+    cfg.indentInnerHtml = input.indentInnerHtml;
+  }
+  if (typeof input.preserveNewLines === 'boolean') {
+    cfg.preserveNewLines = input.preserveNewLines;
+  }
+  if (Number.isFinite(input.maxPreserveNewLines)) {
+    cfg.maxPreserveNewLines = clampInt(input.maxPreserveNewLines, 0, 1_000);
+  }
+  if (typeof input.endWithNewline === 'boolean') {
+    cfg.endWithNewline = input.endWithNewline;
+  }
+
+  return cfg;
+}
+
+function clampInt(v: unknown, min: number, max: number): number {
+  const n = typeof v === 'number' ? v : Number(v);
+  if (!Number.isFinite(n)) {
+    return min;
+  }
+  return Math.max(min, Math.min(max, Math.floor(n)));
+}
@@ -0,0 +1,269 @@
+import type { FormattingOptions, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+  getLanguageService as getHtmlLanguageService,
+  type HTMLFormatConfiguration,
+  TokenType,
+} from 'vscode-html-languageservice';
+
+import { extractElRegionsFromJsp } from '../elSupport';
+import { extractJavaRegionsFromJsp } from '../extractJavaRegions';
+import { maskJspToHtml } from '../maskToHtml';
+import type { FormatConfig } from './formatConfig';
+
+type JspSpan = {
+  start: number;
+  /** Exclusive. */
+  end: number;
+  /** `<%= ... %>` and `${...}` produce inline output; everything else is block-ish. */
+  isExpression: boolean;
+};
+
+type PlaceholderContext = 'content' | 'tag' | 'embedded';
+
+type Placeholder = {
+  span: JspSpan;
+  text: string;
+  /** Offsets of the placeholder in the placeholder document. */
+  start: number;
+  end: number;
+};
+
+type Interval = { start: number; end: number };
+
+const htmlLanguageService = getHtmlLanguageService();
+
+function collectJspSpans(jspText: string): JspSpan[] {
+  const spans: JspSpan[] = [];
+
+  const commentRe = /<%--[\s\S]*?(?:--%>|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = commentRe.exec(jspText))) {
+    if (!m[0].length) {
+      break;
+    }
+    spans.push({ start: m.index, end: m.index + m[0].length, isExpression: false });
+  }
+
+  for (const r of extractJavaRegionsFromJsp(jspText).regions) {
+    spans.push({ start: r.jspStartOffset, end: r.jspEndOffset, isExpression: r.kind === 'scriptlet-expression' });
+  }
+
+  // EL inside scriptlets/comments is already covered by the enclosing span.
+  const overlaps = (start: number) => spans.some((s) => start >= s.start && start < s.end);
+  for (const r of extractElRegionsFromJsp(jspText)) {
+    if (!overlaps(r.jspStartOffset)) {
+      spans.push({ start: r.jspStartOffset, end: r.jspEndOffset, isExpression: true });
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/** Tag intervals (`<div ...>`, `</div>`) and embedded script/style content of the projected HTML. */
+function scanProjectedHtml(projected: string): { tags: Interval[]; embedded: Interval[] } {
+  const scanner = htmlLanguageService.createScanner(projected, 0);
+  const tags: Interval[] = [];
+  const embedded: Interval[] = [];
+
+  let tagStart = -1;
+  while (scanner.scan() !== TokenType.EOS) {
+    switch (scanner.getTokenType()) {
+      case TokenType.StartTagOpen:
+      case TokenType.EndTagOpen:
+        tagStart = scanner.getTokenOffset();
+        break;
+
+      case TokenType.StartTagClose:
+      case TokenType.StartTagSelfClose:
+      case TokenType.EndTagClose:
+        if (tagStart !== -1) {
+          tags.push({ start: tagStart, end: scanner.getTokenEnd() });
+          tagStart = -1;
+        }
+        break;
+
+      case TokenType.Script:
+      case TokenType.Styles:
+        embedded.push({ start: scanner.getTokenOffset(), end: scanner.getTokenEnd() });
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  return { tags, embedded };
+}
+
+function contains(intervals: Interval[], offset: number): boolean {
+  return intervals.some((i) => offset >= i.start && offset < i.end);
+}
+
+function uniqueMarker(jspText: string): string {
+  let marker = 'jspfmt';
+  while (jspText.includes(marker)) {
+    marker += 'x';
+  }
+  return marker;
+}
+
+function placeholderText(marker: string, index: number, context: PlaceholderContext, span: JspSpan): string {
+  if (context === 'embedded') {
+    return `/*${marker}:${index}*/`;
+  }
+  if (context === 'tag' || span.isExpression) {
+    return `__${marker}_${index}__`;
+  }
+  return `<!--${marker}:${index}-->`;
+}
+
+/**
+ * Replaces every JSP construct with an opaque placeholder the HTML formatter will keep intact:
+ * - block constructs in markup become HTML comments (formatted like their own node)
+ * - expressions and constructs inside tags become a single word
+ * - constructs inside `<script>` / `<style>` become block comments
+ */
+function buildPlaceholderDocument(jspText: string): { text: string; marker: string; placeholders: Placeholder[] } {
+  const projected = maskJspToHtml(jspText);
+  const { tags, embedded } = scanProjectedHtml(projected);
+  const marker = uniqueMarker(jspText);
+
+  const placeholders: Placeholder[] = [];
+  let out = '';
+  let last = 0;
+  for (const span of collectJspSpans(jspText)) {
+    if (span.start < last) {
+      continue;
+    }
+    const context: PlaceholderContext = contains(embedded, span.start)
+      ? 'embedded'
+      : contains(tags, span.start)
+        ? 'tag'
+        : 'content';
+
+    out += jspText.slice(last, span.start);
+    const text = placeholderText(marker, placeholders.length, context, span);
+    placeholders.push({ span, text, start: out.length, end: out.length + text.length });
+    out += text;
+    last = span.end;
+  }
+  out += jspText.slice(last);
+
+  return { text: out, marker, placeholders };
+}
+
+function toPlaceholderOffset(placeholders: Placeholder[], jspOffset: number, snap: 'start' | 'end'): number {
+  let delta = 0;
+  for (const p of placeholders) {
+    if (jspOffset <= p.span.start) {
+      break;
+    }
+    if (jspOffset < p.span.end) {
+      return snap === 'start' ? p.start : p.end;
+    }
+    delta = p.end - p.span.end;
+  }
+  return jspOffset + delta;
+}
+
+function fromPlaceholderOffset(placeholders: Placeholder[], offset: number, snap: 'start' | 'end'): number {
+  let delta = 0;
+  for (const p of placeholders) {
+    if (offset <= p.start) {
+      break;
+    }
+    if (offset < p.end) {
+      return snap === 'start' ? p.span.start : p.span.end;
+    }
+    delta = p.span.end - p.end;
+  }
+  return offset + delta;
+}
+
+function toHtmlFormatConfiguration(options: FormattingOptions, config: FormatConfig): HTMLFormatConfiguration {
+  return {
+    tabSize: options.tabSize,
+    insertSpaces: options.insertSpaces,
+    wrapLineLength: config.wrapLineLength,
+    wrapAttributes: config.wrapAttributes,
+    indentInnerHtml: config.indentInnerHtml,
+    preserveNewLines: config.preserveNewLines,
+    maxPreserveNewLines: config.maxPreserveNewLines > 0 ? config.maxPreserveNewLines : undefined,
+    endWithNewline: config.endWithNewline,
+    unformatted: '',
+    contentUnformatted: 'pre,code,textarea',
+  };
+}
+
+/**
+ * Formats a JSP document (or a range of it) with the HTML formatter.
+ *
+ * JSP scriptlets, expressions, directives, comments and EL are swapped for placeholders before
+ * formatting and restored afterwards, so their contents are left byte-identical. Taglib tags
+ * (`<c:if>`, `<c:forEach>`) are unknown to the HTML formatter and therefore indented like block
+ * elements.
+ *
+ * Returns no edits if the formatter did not preserve every placeholder.
+ */
+export function formatJsp(args: {
+  doc: TextDocument;
+  range?: Range;
+  options: FormattingOptions;
+  config: FormatConfig;
+}): TextEdit[] {
+  const { doc, range, options, config } = args;
+  if (!config.enable) {
+    return [];
+  }
+
+  const jspText = doc.getText();
+  const { text, marker, placeholders } = buildPlaceholderDocument(jspText);
+  const placeholderDoc = TextDocument.create(doc.uri, 'html', doc.version, text);
+
+  const placeholderRange: Range | undefined = range
+    ? {
+        start: placeholderDoc.positionAt(toPlaceholderOffset(placeholders, doc.offsetAt(range.start), 'start')),
+        end: placeholderDoc.positionAt(toPlaceholderOffset(placeholders, doc.offsetAt(range.end), 'end')),
+      }
+    : undefined;
+
+  const htmlEdits = htmlLanguageService.format(placeholderDoc, placeholderRange, toHtmlFormatConfiguration(options, config));
+
+  const placeholderRe = new RegExp(`<!--${marker}:(\\d+)-->|/\\*${marker}:(\\d+)\\*/|__${marker}_(\\d+)__`, 'g');
+
+  const out: TextEdit[] = [];
+  for (const edit of htmlEdits) {
+    const editStart = placeholderDoc.offsetAt(edit.range.start);
+    const editEnd = placeholderDoc.offsetAt(edit.range.end);
+
+    let restoredCount = 0;
+    const newText = edit.newText.replace(placeholderRe, (match, a?: string, b?: string, c?: string) => {
+      const p = placeholders[Number(a ?? b ?? c)];
+      if (!p) {
+        return match;
+      }
+      restoredCount++;
+      return jspText.slice(p.span.start, p.span.end);
+    });
+
+    const expectedCount = placeholders.filter((p) => p.start >= editStart && p.end <= editEnd).length;
+    if (restoredCount !== expectedCount) {
+      // The formatter dropped or duplicated a JSP construct: refuse to touch the document.
+      return [];
+    }
+
+    const jspStart = fromPlaceholderOffset(placeholders, editStart, 'start');
+    const jspEnd = fromPlaceholderOffset(placeholders, editEnd, 'end');
+    if (jspText.slice(jspStart, jspEnd) === newText) {
+      continue;
+    }
+
+    out.push({
+      range: { start: doc.positionAt(jspStart), end: doc.positionAt(jspEnd) },
+      newText,
+    });
+  }
+
+  return out;
+}
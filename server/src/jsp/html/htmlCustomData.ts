@@ -0,0 +1,84 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { newHTMLDataProvider, type HTMLDataV1, type IHTMLDataProvider } from 'vscode-html-languageservice';
+
+export type HtmlConfig = {
+  /** HTML custom data files (VS Code `html.customData` format); absolute or workspace-relative. */
+  customData: string[];
+};
+
+export const DEFAULT_HTML_CONFIG: HtmlConfig = {
+  customData: [],
+};
+
+export function normalizeHtmlConfig(cfg: any): HtmlConfig {
+  return {
+    customData: Array.isArray(cfg?.customData)
+      ? cfg.customData.filter((x: any) => typeof x === 'string' && x.trim()).map((x: string) => x.trim())
+      : DEFAULT_HTML_CONFIG.customData,
+  };
+}
+
+/**
+ * Resolves configured custom data paths to absolute file system paths.
+ * Relative paths are tried against every workspace root (like `html.customData`).
+ */
+export function resolveHtmlCustomDataPaths(customData: string[], roots: string[]): string[] {
+  const out = new Set<string>();
+  for (const p of customData) {
+    if (path.isAbsolute(p)) {
+      out.add(path.normalize(p));
+      continue;
+    }
+    for (const root of roots) {
+      out.add(path.resolve(root, p));
+    }
+  }
+  return [...out];
+}
+
+export type HtmlCustomDataLoadResult = {
+  providers: IHTMLDataProvider[];
+  /** Files that exist but couldn't be parsed, with the reason. */
+  errors: Array<{ fsPath: string; message: string }>;
+};
+
+function isHtmlDataV1(data: any): data is HTMLDataV1 {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    (data.tags === undefined || Array.isArray(data.tags)) &&
+    (data.globalAttributes === undefined || Array.isArray(data.globalAttributes)) &&
+    (data.valueSets === undefined || Array.isArray(data.valueSets))
+  );
+}
+
+/**
+ * Loads HTML custom data files into data providers for the HTML language service.
+ * Missing files are skipped silently (relative paths are tried against every root).
+ */
+export async function loadHtmlCustomData(fsPaths: string[]): Promise<HtmlCustomDataLoadResult> {
+  const result: HtmlCustomDataLoadResult = { providers: [], errors: [] };
+
+  for (const fsPath of fsPaths) {
+    let text: string;
+    try {
+      text = await fs.readFile(fsPath, 'utf8');
+    } catch {
+      continue;
+    }
+
+    try {
+      const data = JSON.parse(text);
+      if (!isHtmlDataV1(data)) {
+        result.errors.push({ fsPath, message: 'not an HTML custom data file (expected "tags"/"globalAttributes" arrays)' });
+        continue;
+      }
+      result.providers.push(newHTMLDataProvider(fsPath, data));
+    } catch (err) {
+      result.errors.push({ fsPath, message: String(err) });
+    }
+  }
+
+  return result;
+}
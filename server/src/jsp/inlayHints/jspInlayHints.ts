@@ -0,0 +1,240 @@
+import { type InlayHint, InlayHintKind, type Range } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { findDocumentLinkCandidates, isWebUrl, toLocalResourcePath } from '../navigation/documentLinks';
+import { JSTL_CORE_URIS } from '../taglibs/jstl';
+import { parseTaglibDirectives } from '../taglibs/parseTaglibDirectives';
+import { scanTagTokens } from '../taglibs/startTagContext';
+import type { TaglibIndex } from '../taglibs/types';
+
+export type InlayHintsConfig = {
+  /** TLD type of taglib attribute values, plus a marker for `rtexprvalue` false. */
+  attributeTypes: boolean;
+  /** Resolved file after `<%@ include file>` / `<jsp:include page>` (and forward/import) values. */
+  includeTargets: boolean;
+  /** Type of variables declared by tags (`<c:forEach var>`, `<jsp:useBean id>`, ...). */
+  variableTypes: boolean;
+};
+
+export const DEFAULT_INLAY_HINTS_CONFIG: InlayHintsConfig = {
+  attributeTypes: true,
+  includeTargets: true,
+  variableTypes: true,
+};
+
+export function normalizeInlayHintsConfig(cfg: any): InlayHintsConfig {
+  const flag = (key: keyof InlayHintsConfig): boolean =>
+    typeof cfg?.[key] === 'boolean' ? cfg[key] : DEFAULT_INLAY_HINTS_CONFIG[key];
+  return {
+    attributeTypes: flag('attributeTypes'),
+    includeTargets: flag('includeTargets'),
+    variableTypes: flag('variableTypes'),
+  };
+}
+
+export type JspInlayHintsArgs = {
+  doc: TextDocument;
+  projectedText: string;
+  index: TaglibIndex | undefined;
+  config: InlayHintsConfig;
+  /** Resolves an include path to the text shown for it (e.g. a workspace-relative path). */
+  resolveIncludePath: (includePath: string) => string | undefined;
+  range?: Range;
+};
+
+type TagAttribute = {
+  name: string;
+  value: string;
+  /** Offset just after the closing quote. */
+  endOffset: number;
+};
+
+/** `com.x.Foo` -> `Foo`, `java.util.List<com.x.Foo>` -> `List<Foo>`. */
+function simpleTypeName(type: string): string {
+  return type.replace(/\b(?:[a-z_$][\w$]*\.)+(?=[A-Z_$])/g, '');
+}
+
+function isLiteralValue(value: string): boolean {
+  return !value.includes('${') && !value.includes('#{') && !value.includes('<%');
+}
+
+/** Quoted attributes of a start tag; values are read from the JSP text (EL is masked in the projection). */
+function parseTagAttributes(jspText: string, projectedText: string, from: number, to: number): TagAttribute[] {
+  const out: TagAttribute[] = [];
+  const re = /(^|\s)([A-Za-z_][\w:.-]*)\s*=\s*("[^"]*"|'[^']*')/g;
+  const attrText = projectedText.slice(from, to);
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(attrText))) {
+    const endOffset = from + m.index + m[0].length;
+    const quoted = m[3]!;
+    out.push({ name: m[2]!, value: jspText.slice(endOffset - quoted.length + 1, endOffset - 1), endOffset });
+  }
+  return out;
+}
+
+function typeHint(doc: TextDocument, offset: number, type: string): InlayHint {
+  return {
+    position: doc.positionAt(offset),
+    label: `: ${simpleTypeName(type)}`,
+    kind: InlayHintKind.Type,
+    tooltip: type,
+    paddingLeft: true,
+  };
+}
+
+/** Types of the variables JSTL core tags and `<jsp:useBean>` declare, where they follow from the markup. */
+function inferVariableTypes(
+  library: 'core' | 'jsp',
+  localName: string,
+  attrs: Map<string, string>,
+  servletPackage: 'javax' | 'jakarta',
+): Map<string, string> {
+  const out = new Map<string, string>();
+  const loopStatus = `${servletPackage}.servlet.jsp.jstl.core.LoopTagStatus`;
+
+  if (library === 'jsp') {
+    const type = attrs.get('type') ?? attrs.get('class');
+    if (localName === 'useBean' && type && isLiteralValue(type)) {
+      out.set('id', type.trim());
+    }
+    return out;
+  }
+
+  switch (localName) {
+    case 'forEach': {
+      const items = attrs.get('items');
+      if (items === undefined) {
+        // Without `items`, the tag iterates from `begin` to `end`.
+        out.set('var', 'java.lang.Integer');
+      } else if (isLiteralValue(items)) {
+        // A literal `items` string is split on commas.
+        out.set('var', 'java.lang.String');
+      }
+      out.set('varStatus', loopStatus);
+      break;
+    }
+    case 'forTokens':
+      out.set('var', 'java.lang.String');
+      out.set('varStatus', loopStatus);
+      break;
+    case 'set': {
+      const value = attrs.get('value');
+      if (value !== undefined && isLiteralValue(value)) {
+        out.set('var', 'java.lang.String');
+      }
+      break;
+    }
+    case 'catch':
+      out.set('var', 'java.lang.Throwable');
+      break;
+    case 'import':
+      out.set('var', 'java.lang.String');
+      out.set('varReader', 'java.io.Reader');
+      break;
+    case 'url':
+      out.set('var', 'java.lang.String');
+      break;
+  }
+  return out;
+}
+
+function collectTagHints(args: JspInlayHintsArgs, jspText: string): InlayHint[] {
+  const { doc, projectedText, index, config } = args;
+  const out: InlayHint[] = [];
+
+  const prefixToUri = new Map<string, string>();
+  for (const d of parseTaglibDirectives(jspText)) {
+    prefixToUri.set(d.prefix, d.uri);
+  }
+
+  for (const tag of scanTagTokens(projectedText)) {
+    const colon = tag.name.indexOf(':');
+    if (tag.isClose || colon === -1) {
+      continue;
+    }
+    const prefix = tag.name.slice(0, colon);
+    const localName = tag.name.slice(colon + 1);
+    const uri = prefixToUri.get(prefix);
+    const attrs = parseTagAttributes(jspText, projectedText, tag.nameSpan.endOffset, tag.endOffset);
+
+    const library = prefix === 'jsp' ? 'jsp' : uri && JSTL_CORE_URIS.has(uri) ? 'core' : undefined;
+    const variableTypes =
+      config.variableTypes && library
+        ? inferVariableTypes(
+            library,
+            localName,
+            new Map(attrs.map((a) => [a.name, a.value])),
+            uri === 'jakarta.tags.core' ? 'jakarta' : 'javax',
+          )
+        : undefined;
+    const tagDef = uri ? index?.byUri.get(uri)?.tags.get(localName) : undefined;
+
+    for (const attr of attrs) {
+      // A variable name's own attribute type (a static String) is less useful than the variable's type.
+      const variableType = isLiteralValue(attr.value) ? variableTypes?.get(attr.name) : undefined;
+      if (variableType) {
+        out.push(typeHint(doc, attr.endOffset, variableType));
+        continue;
+      }
+
+      const def = config.attributeTypes ? tagDef?.attributes.get(attr.name) : undefined;
+      if (!def || (!def.type && def.rtexprvalue !== false)) {
+        continue;
+      }
+      const label = [def.type ? `: ${simpleTypeName(def.type)}` : '', def.rtexprvalue === false ? '(static)' : '']
+        .filter(Boolean)
+        .join(' ');
+      const tooltip = [
+        def.type,
+        def.rtexprvalue === false ? 'rtexprvalue is false: EL and <%= %> expressions are not allowed here.' : undefined,
+      ]
+        .filter(Boolean)
+        .join('\n');
+      out.push({ position: doc.positionAt(attr.endOffset), label, kind: InlayHintKind.Type, tooltip, paddingLeft: true });
+    }
+  }
+  return out;
+}
+
+function collectIncludeHints(args: JspInlayHintsArgs, jspText: string): InlayHint[] {
+  const { doc, projectedText, resolveIncludePath } = args;
+  const out: InlayHint[] = [];
+  for (const c of findDocumentLinkCandidates(jspText, projectedText)) {
+    if (c.kind !== 'include' || isWebUrl(c.value)) {
+      continue;
+    }
+    const localPath = toLocalResourcePath(c.value);
+    const resolved = localPath ? resolveIncludePath(localPath) : undefined;
+    if (!resolved) {
+      continue;
+    }
+    // After the closing quote.
+    const quote = jspText.slice(c.endOffset).search(/["']/);
+    const offset = quote === -1 ? c.endOffset : c.endOffset + quote + 1;
+    out.push({ position: doc.positionAt(offset), label: `→ ${resolved}`, tooltip: resolved, paddingLeft: true });
+  }
+  return out;
+}
+
+/**
+ * Inlay hints for a JSP document: taglib attribute types, resolved include targets and the types
+ * of tag-declared variables. Tags are found on the projected HTML, so markup inside scriptlets
+ * and JSP comments is ignored.
+ */
+export function collectJspInlayHints(args: JspInlayHintsArgs): InlayHint[] {
+  const { doc, config, range } = args;
+  const jspText = doc.getText();
+
+  const hints = [
+    ...(config.attributeTypes || config.variableTypes ? collectTagHints(args, jspText) : []),
+    ...(config.includeTargets ? collectIncludeHints(args, jspText) : []),
+  ];
+
+  const from = range ? doc.offsetAt(range.start) : 0;
+  const to = range ? doc.offsetAt(range.end) : jspText.length;
+  return hints
+    .map((hint) => ({ hint, offset: doc.offsetAt(hint.position) }))
+    .filter(({ offset }) => offset >= from && offset <= to)
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ hint }) => hint);
+}
@@ -0,0 +1,359 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import {
+  type CancellationToken,
+  CompletionRequest,
+  type CompletionItem,
+  type CompletionList,
+  DefinitionRequest,
+  type Diagnostic,
+  DidChangeTextDocumentNotification,
+  DidCloseTextDocumentNotification,
+  DidOpenTextDocumentNotification,
+  ExitNotification,
+  type Hover,
+  HoverRequest,
+  InitializedNotification,
+  InitializeRequest,
+  type Location,
+  type MessageConnection,
+  type NotificationType,
+  PublishDiagnosticsNotification,
+  type Range,
+  ShutdownRequest,
+  StreamMessageReader,
+  StreamMessageWriter,
+  createMessageConnection,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { mapJavaRangeToJsp, mapJspOffsetToJava, type TranslatedJava } from './jspTranslation';
+
+export type JavaLanguageServerBridgeOptions = {
+  /** Executable and arguments of a Java language server speaking LSP over stdio. */
+  command: string[];
+  cwd?: string;
+  workspaceFolderUris: string[];
+  translate(doc: TextDocument): TranslatedJava;
+  /** Called when the Java server published new diagnostics for a page. */
+  onDiagnostics(jspUri: string): void;
+  log(message: string): void;
+};
+
+/**
+ * Forwards scriptlet requests to an external Java language server (e.g. JDT LS), which sees each
+ * open page as its translated servlet (`<page dir>/<page>_jsp.java`); results are mapped back to
+ * the JSP. Requests at positions outside copied scriptlet code, and results pointing into generated
+ * code, are dropped. Until the Java server has initialized, and when it answers a request with an
+ * error, requests resolve to null so the built-in providers answer instead.
+ */
+export type JavaLanguageServerBridge = {
+  /** Sends the page's current translation to the Java server (starting it on first use). */
+  syncDocument(doc: TextDocument): Promise<void>;
+  closeDocument(jspUri: string): void;
+  doComplete(doc: TextDocument, offset: number, token?: CancellationToken): Promise<CompletionList | null>;
+  doHover(doc: TextDocument, offset: number, token?: CancellationToken): Promise<Hover | null>;
+  findDefinition(doc: TextDocument, offset: number, token?: CancellationToken): Promise<Location[] | null>;
+  /** Latest diagnostics the Java server published for the page, in JSP ranges (undefined while not synced). */
+  getDiagnostics(jspUri: string): Diagnostic[] | undefined;
+  dispose(): Promise<void>;
+};
+
+type BridgedPage = {
+  javaUri: string;
+  javaVersion: number;
+  /** Snapshot of the JSP the translation was made from. */
+  jspDoc: TextDocument;
+  javaDoc: TextDocument;
+  translated: TranslatedJava;
+  diagnostics: Diagnostic[];
+};
+
+const SHUTDOWN_TIMEOUT_MS = 2000;
+
+export function createJavaLanguageServerBridge(options: JavaLanguageServerBridgeOptions): JavaLanguageServerBridge {
+  /** By JSP URI. */
+  const pages = new Map<string, BridgedPage>();
+  const jspUriByJavaUri = new Map<string, string>();
+  let child: ChildProcess | undefined;
+  let started: Promise<MessageConnection | undefined> | undefined;
+  /** Set once the Java server has answered `initialize` (JDT LS can take tens of seconds). */
+  let initialized: MessageConnection | undefined;
+  let disposed = false;
+
+  function mapRange(page: BridgedPage, range: Range): Range | undefined {
+    const mapped = mapJavaRangeToJsp(page.translated, page.javaDoc.offsetAt(range.start), page.javaDoc.offsetAt(range.end));
+    return mapped && { start: page.jspDoc.positionAt(mapped.start), end: page.jspDoc.positionAt(mapped.end) };
+  }
+
+  function logFailure(what: string) {
+    return (e: unknown): null => {
+      options.log(`Java language server ${what} failed: ${e instanceof Error ? e.message : String(e)}`);
+      return null;
+    };
+  }
+
+  /** Notifications reject once the connection is disposed (the server exited); nothing is waiting for them. */
+  function notify<P>(connection: MessageConnection, type: NotificationType<P>, params: P): void {
+    connection.sendNotification(type, params).catch(logFailure(type.method));
+  }
+
+  function onExit(): void {
+    started = Promise.resolve(undefined);
+    initialized = undefined;
+    for (const [jspUri, page] of pages) {
+      if (page.diagnostics.length) {
+        page.diagnostics = [];
+        options.onDiagnostics(jspUri);
+      }
+    }
+    pages.clear();
+    jspUriByJavaUri.clear();
+  }
+
+  async function start(): Promise<MessageConnection | undefined> {
+    const [command, ...args] = options.command;
+    if (!command || disposed) {
+      return undefined;
+    }
+
+    const proc = spawn(command, args, { cwd: options.cwd, stdio: 'pipe', shell: process.platform === 'win32' });
+    child = proc;
+    proc.stderr!.on('data', (data) => options.log(String(data).trimEnd()));
+
+    const failed = new Promise<never>((_, reject) => {
+      proc.once('error', reject);
+      proc.once('exit', (code) => reject(new Error(`exited with code ${code}`)));
+    });
+
+    const connection = createMessageConnection(new StreamMessageReader(proc.stdout!), new StreamMessageWriter(proc.stdin!));
+    connection.onNotification(PublishDiagnosticsNotification.type, (params) => {
+      const jspUri = jspUriByJavaUri.get(params.uri);
+      const page = jspUri ? pages.get(jspUri) : undefined;
+      if (!jspUri || !page) {
+        return;
+      }
+      page.diagnostics = params.diagnostics.flatMap((d) => {
+        const range = mapRange(page, d.range);
+        // Related information points into the generated source.
+        return range ? [{ ...d, range, relatedInformation: undefined }] : [];
+      });
+      options.onDiagnostics(jspUri);
+    });
+    connection.listen();
+
+    try {
+      // Writing to a process that never started rejects inside vscode-jsonrpc where it can't be caught.
+      await Promise.race([new Promise((resolve) => proc.once('spawn', resolve)), failed]);
+      await Promise.race([
+        connection.sendRequest(InitializeRequest.type, {
+          processId: process.pid,
+          rootUri: options.workspaceFolderUris[0] ?? null,
+          workspaceFolders: options.workspaceFolderUris.map((uri) => ({ uri, name: uri.replace(/^.*\//, '') })),
+          capabilities: {
+            textDocument: {
+              synchronization: { dynamicRegistration: false },
+              completion: { completionItem: { snippetSupport: true, insertReplaceSupport: true } },
+              hover: { contentFormat: ['markdown', 'plaintext'] },
+              definition: { linkSupport: false },
+              publishDiagnostics: {},
+            },
+          },
+        }),
+        failed,
+      ]);
+    } catch (e: unknown) {
+      options.log(`Java language server '${command}' failed to start: ${e instanceof Error ? e.message : String(e)}`);
+      connection.dispose();
+      proc.kill();
+      return undefined;
+    }
+
+    notify(connection, InitializedNotification.type, {});
+    initialized = connection;
+    failed.catch(() => {
+      options.log(`Java language server '${command}' exited`);
+      connection.dispose();
+      onExit();
+    });
+    return connection;
+  }
+
+  async function sync(doc: TextDocument): Promise<{ connection: MessageConnection; page: BridgedPage } | undefined> {
+    started ??= start();
+    const connection = await started;
+    if (!connection) {
+      return undefined;
+    }
+
+    let page = pages.get(doc.uri);
+    if (page && page.jspDoc.version === doc.version) {
+      return { connection, page };
+    }
+
+    const jspDoc = TextDocument.create(doc.uri, doc.languageId, doc.version, doc.getText());
+    const translated = options.translate(jspDoc);
+    const javaUri = `${doc.uri.replace(/[?#].*$/, '').replace(/[^/]*$/, '')}${translated.className}.java`;
+    const javaDoc = TextDocument.create(javaUri, 'java', doc.version, translated.source);
+
+    if (page && page.javaUri === javaUri) {
+      page = { ...page, javaVersion: page.javaVersion + 1, jspDoc, javaDoc, translated };
+      notify(connection, DidChangeTextDocumentNotification.type, {
+        textDocument: { uri: javaUri, version: page.javaVersion },
+        contentChanges: [{ text: translated.source }],
+      });
+    } else {
+      if (page) {
+        closeDocument(doc.uri);
+      }
+      page = { javaUri, javaVersion: 1, jspDoc, javaDoc, translated, diagnostics: [] };
+      notify(connection, DidOpenTextDocumentNotification.type, {
+        textDocument: { uri: javaUri, languageId: 'java', version: 1, text: translated.source },
+      });
+    }
+    pages.set(doc.uri, page);
+    jspUriByJavaUri.set(javaUri, doc.uri);
+    return { connection, page };
+  }
+
+  async function javaPosition(doc: TextDocument, offset: number) {
+    if (!initialized) {
+      // Start the server (on first use) without keeping the request waiting for it.
+      void sync(doc).catch(logFailure('startup'));
+      return undefined;
+    }
+    const synced = await sync(doc);
+    const javaOffset = synced && mapJspOffsetToJava(synced.page.translated, offset);
+    if (!synced || javaOffset === undefined) {
+      return undefined;
+    }
+    return {
+      ...synced,
+      params: { textDocument: { uri: synced.page.javaUri }, position: synced.page.javaDoc.positionAt(javaOffset) },
+    };
+  }
+
+  function mapCompletionItem(page: BridgedPage, item: CompletionItem): CompletionItem {
+    const { textEdit, additionalTextEdits, ...rest } = item;
+    const mapped: CompletionItem = rest;
+
+    if (textEdit && 'range' in textEdit) {
+      const range = mapRange(page, textEdit.range);
+      if (range) {
+        mapped.textEdit = { ...textEdit, range };
+      } else {
+        mapped.insertText = textEdit.newText;
+      }
+    } else if (textEdit) {
+      const insert = mapRange(page, textEdit.insert);
+      const replace = mapRange(page, textEdit.replace);
+      if (insert && replace) {
+        mapped.textEdit = { ...textEdit, insert, replace };
+      } else {
+        mapped.insertText = textEdit.newText;
+      }
+    }
+
+    // Edits elsewhere in the generated source (such as added imports) cannot be applied to the JSP.
+    const edits = additionalTextEdits?.flatMap((e) => {
+      const range = mapRange(page, e.range);
+      return range ? [{ ...e, range }] : [];
+    });
+    if (edits?.length) {
+      mapped.additionalTextEdits = edits;
+    }
+    return mapped;
+  }
+
+  function closeDocument(jspUri: string): void {
+    const page = pages.get(jspUri);
+    if (!page) {
+      return;
+    }
+    pages.delete(jspUri);
+    jspUriByJavaUri.delete(page.javaUri);
+    void started?.then(
+      (connection) =>
+        connection && notify(connection, DidCloseTextDocumentNotification.type, { textDocument: { uri: page.javaUri } }),
+    );
+  }
+
+  return {
+    async syncDocument(doc) {
+      await sync(doc);
+    },
+
+    closeDocument,
+
+    async doComplete(doc, offset, token) {
+      const request = await javaPosition(doc, offset);
+      if (!request) {
+        return null;
+      }
+      const result = await request.connection
+        .sendRequest(CompletionRequest.type, request.params, token)
+        .catch(logFailure('completion'));
+      if (!result) {
+        return null;
+      }
+      const list = Array.isArray(result) ? { isIncomplete: false, items: result } : result;
+      return { isIncomplete: list.isIncomplete, items: list.items.map((item) => mapCompletionItem(request.page, item)) };
+    },
+
+    async doHover(doc, offset, token) {
+      const request = await javaPosition(doc, offset);
+      if (!request) {
+        return null;
+      }
+      const hover = await request.connection.sendRequest(HoverRequest.type, request.params, token).catch(logFailure('hover'));
+      if (!hover) {
+        return null;
+      }
+      return { ...hover, range: hover.range ? mapRange(request.page, hover.range) : undefined };
+    },
+
+    async findDefinition(doc, offset, token) {
+      const request = await javaPosition(doc, offset);
+      if (!request) {
+        return null;
+      }
+      const result = await request.connection
+        .sendRequest(DefinitionRequest.type, request.params, token)
+        .catch(logFailure('definition'));
+      if (result === null) {
+        return null;
+      }
+      const locations = !result ? [] : Array.isArray(result) ? result : [result];
+
+      return locations.flatMap((l): Location[] => {
+        const uri = 'targetUri' in l ? l.targetUri : l.uri;
+        const range = 'targetUri' in l ? l.targetSelectionRange : l.range;
+        const jspUri = jspUriByJavaUri.get(uri);
+        if (!jspUri) {
+          return [{ uri, range }];
+        }
+        const page = pages.get(jspUri)!;
+        const mapped = mapRange(page, range);
+        return mapped ? [{ uri: jspUri, range: mapped }] : [];
+      });
+    },
+
+    getDiagnostics(jspUri) {
+      return pages.get(jspUri)?.diagnostics;
+    },
+
+    async dispose() {
+      disposed = true;
+      initialized = undefined;
+      const connection = await started;
+      if (connection) {
+        const timeout = new Promise<void>((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS).unref());
+        await Promise.race([connection.sendRequest(ShutdownRequest.type).catch(() => undefined), timeout]);
+        void connection.sendNotification(ExitNotification.type).catch(() => undefined);
+        connection.dispose();
+      }
+      child?.kill();
+      pages.clear();
+      jspUriByJavaUri.clear();
+    },
+  };
+}
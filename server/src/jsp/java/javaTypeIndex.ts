@@ -0,0 +1,215 @@
+import * as path from 'node:path';
+import {
+  type CompletionItem,
+  CompletionItemKind,
+  type CompletionList,
+  type Range,
+} from 'vscode-languageserver/node';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import { DEFAULT_JAR_GLOBS, findFilesByGlob, isJarPath, scanJarEntries } from '../taglibs/taglibIndex';
+
+export type JavaTypeIndexOptions = {
+  roots: string[];
+  /** Glob patterns (workspace-relative) for locating Java sources; the package comes from the path below `src/main/java`. */
+  sourceGlobs?: string[];
+  /** Index the classes of .jar files (`jsp.taglibs.enableJarScanning`). */
+  enableJarScanning?: boolean;
+  /** Glob patterns (workspace-relative) for locating .jar files whose classes are indexed. */
+  jarGlobs?: string[];
+};
+
+export type JavaTypeIndex = {
+  /** Top-level type simple names by package (`''` is the default package). */
+  typesByPackage: Map<string, Set<string>>;
+  /** Every package containing types, plus all of their parent packages. */
+  packages: Set<string>;
+  builtAtMs: number;
+  sourceFileCount: number;
+  jarFileCount: number;
+};
+
+const DEFAULT_SOURCE_GLOBS = ['**/src/main/java/**/*.java'];
+
+/** Completion lists are capped; the client re-queries as the user keeps typing. */
+const MAX_COMPLETION_ITEMS = 200;
+
+function addType(index: JavaTypeIndex, qualifiedName: string): void {
+  const dot = qualifiedName.lastIndexOf('.');
+  const pkg = dot === -1 ? '' : qualifiedName.slice(0, dot);
+  const simpleName = qualifiedName.slice(dot + 1);
+  // Skip nested/anonymous classes and package-info/module-info.
+  if (!/^[\p{L}_][\p{L}\p{N}_]*$/u.test(simpleName)) {
+    return;
+  }
+
+  let types = index.typesByPackage.get(pkg);
+  if (!types) {
+    types = new Set();
+    index.typesByPackage.set(pkg, types);
+  }
+  types.add(simpleName);
+
+  for (let p = pkg; p && !index.packages.has(p); p = p.slice(0, Math.max(0, p.lastIndexOf('.')))) {
+    index.packages.add(p);
+  }
+}
+
+/** `com/acme/Foo.class` (or a multi-release `META-INF/versions/N/...` entry) to `com.acme.Foo`. */
+function classEntryToQualifiedName(entryName: string): string | undefined {
+  const m = /^(?:META-INF\/versions\/\d+\/)?([^$]+)\.class$/.exec(entryName);
+  if (!m || m[1]!.startsWith('META-INF/')) {
+    return undefined;
+  }
+  return m[1]!.replace(/\//g, '.');
+}
+
+export async function buildJavaTypeIndex(options: JavaTypeIndexOptions): Promise<JavaTypeIndex> {
+  const roots = options.roots ?? [];
+  const sourceGlobs = options.sourceGlobs?.length ? options.sourceGlobs : DEFAULT_SOURCE_GLOBS;
+  const jarGlobs = options.jarGlobs?.length ? options.jarGlobs : DEFAULT_JAR_GLOBS;
+
+  const index: JavaTypeIndex = {
+    typesByPackage: new Map(),
+    packages: new Set(),
+    builtAtMs: 0,
+    sourceFileCount: 0,
+    jarFileCount: 0,
+  };
+
+  // Sources are indexed by path only; a file's public top-level type matches its name.
+  const sourceFiles = await findFilesByGlob(roots, sourceGlobs);
+  for (const filePath of sourceFiles) {
+    const normalized = filePath.split(path.sep).join('/');
+    const m = /\/src\/main\/java\/(.+)\.java$/.exec(normalized);
+    if (m) {
+      addType(index, m[1]!.replace(/\//g, '.'));
+    }
+  }
+
+  // Jars are scanned by entry name; no class file is read.
+  const jarFiles = options.enableJarScanning ? (await findFilesByGlob(roots, jarGlobs)).filter(isJarPath) : [];
+  for (const jarPath of jarFiles) {
+    try {
+      await scanJarEntries(jarPath, (name) => {
+        const qualifiedName = classEntryToQualifiedName(name);
+        if (qualifiedName) {
+          addType(index, qualifiedName);
+        }
+      });
+    } catch {
+      // Best-effort.
+    }
+  }
+
+  index.builtAtMs = Date.now();
+  index.sourceFileCount = sourceFiles.length;
+  index.jarFileCount = jarFiles.length;
+  return index;
+}
+
+export type PageImportEntry = {
+  /** The comma-separated entry being edited, up to the cursor. */
+  typed: string;
+  /** Range of the whole entry (up to the next comma or the closing quote). */
+  replaceStart: number;
+  replaceEnd: number;
+};
+
+/** The entry of a page directive's `import="..."` value at `offset`, if the cursor is inside one. */
+export function findPageImportEntry(jspText: string, region: JavaRegion, offset: number): PageImportEntry | undefined {
+  if (region.kind !== 'directive' && region.kind !== 'directive-page-import') {
+    return undefined;
+  }
+  const body = jspText.slice(region.jspContentStartOffset, region.jspContentEndOffset);
+  if (!/^\s*page\b/i.test(body)) {
+    return undefined;
+  }
+
+  const attr = /\bimport\s*=\s*(["'])/gi;
+  for (let m = attr.exec(body); m; m = attr.exec(body)) {
+    const valueStart = region.jspContentStartOffset + m.index + m[0].length;
+    const close = body.indexOf(m[1]!, valueStart - region.jspContentStartOffset);
+    const valueEnd = close === -1 ? region.jspContentEndOffset : region.jspContentStartOffset + close;
+    if (offset < valueStart || offset > valueEnd) {
+      continue;
+    }
+
+    const before = jspText.slice(valueStart, offset);
+    const after = jspText.slice(offset, valueEnd);
+    const entryStart = valueStart + before.lastIndexOf(',') + 1;
+    const leading = /^\s*/.exec(jspText.slice(entryStart, offset))![0].length;
+    const replaceStart = entryStart + leading;
+    const tail = /^[\w$.*]*/.exec(after)![0].length;
+    return { typed: jspText.slice(replaceStart, offset), replaceStart, replaceEnd: offset + tail };
+  }
+  return undefined;
+}
+
+/**
+ * Completes packages and fully qualified type names inside `<%@ page import="..." %>`, one entry of a
+ * comma-separated list at a time. `org.apache.co` offers the subpackages and types of `org.apache`;
+ * a capitalized word without a dot offers types by simple name. Only indexed workspace sources and
+ * jars are known, not the JDK.
+ */
+export function getPageImportCompletions(
+  doc: TextDocument,
+  entry: PageImportEntry,
+  index: JavaTypeIndex | undefined,
+): CompletionList {
+  if (!index) {
+    return { isIncomplete: false, items: [] };
+  }
+
+  const range: Range = { start: doc.positionAt(entry.replaceStart), end: doc.positionAt(entry.replaceEnd) };
+  const items: CompletionItem[] = [];
+  const dot = entry.typed.lastIndexOf('.');
+  const parent = dot === -1 ? '' : entry.typed.slice(0, dot);
+  const partial = entry.typed.slice(dot + 1).toLowerCase();
+
+  for (const pkg of index.packages) {
+    const pkgParent = pkg.slice(0, Math.max(0, pkg.lastIndexOf('.')));
+    if (pkgParent !== parent || !pkg.slice(parent ? parent.length + 1 : 0).toLowerCase().startsWith(partial)) {
+      continue;
+    }
+    items.push({
+      label: pkg,
+      kind: CompletionItemKind.Module,
+      detail: 'package',
+      textEdit: { range, newText: `${pkg}.` },
+      // Continue with the package's members right away.
+      command: { title: 'Suggest', command: 'editor.action.triggerSuggest' },
+    });
+  }
+
+  const addTypes = (pkg: string, filter: (simpleName: string) => boolean, filterByName: boolean) => {
+    for (const simpleName of index.typesByPackage.get(pkg) ?? []) {
+      if (!filter(simpleName)) {
+        continue;
+      }
+      const qualifiedName = pkg ? `${pkg}.${simpleName}` : simpleName;
+      items.push({
+        label: qualifiedName,
+        kind: CompletionItemKind.Class,
+        detail: pkg || '(default package)',
+        filterText: filterByName ? simpleName : undefined,
+        textEdit: { range, newText: qualifiedName },
+      });
+    }
+  };
+
+  if (parent) {
+    addTypes(parent, (n) => n.toLowerCase().startsWith(partial), false);
+  } else if (/^[A-Z]/.test(entry.typed)) {
+    for (const pkg of index.typesByPackage.keys()) {
+      addTypes(pkg, (n) => n.toLowerCase().startsWith(partial), true);
+    }
+  }
+
+  items.sort((a, b) => a.label.localeCompare(b.label));
+  return {
+    isIncomplete: items.length > MAX_COMPLETION_ITEMS,
+    items: items.slice(0, MAX_COMPLETION_ITEMS),
+  };
+}
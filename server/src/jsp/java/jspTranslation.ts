@@ -0,0 +1,187 @@
+import type { JavaRegion } from '../extractJavaRegions';
+import type { ServletApiFlavor } from './servletApiModel';
+
+/** A stretch of JSP text copied verbatim into the generated Java source. */
+export type JavaSourceMapping = {
+  jspOffset: number;
+  javaOffset: number;
+  length: number;
+};
+
+/** Generated Java (a member or statement) and the JSP construct or template text it was translated from. */
+export type JavaSourceSegment = {
+  jspStart: number;
+  jspEnd: number;
+  javaStart: number;
+  javaEnd: number;
+};
+
+export type TranslatedJava = {
+  className: string;
+  source: string;
+  /** Sorted by `javaOffset`. */
+  mappings: JavaSourceMapping[];
+  /** Sorted by `javaStart`; a segment contains the mappings of the code copied from its construct. */
+  segments: JavaSourceSegment[];
+};
+
+/** Class name Jasper would generate for a page (`index.jsp` -> `index_jsp`). */
+export function jasperClassName(fileName: string): string {
+  const base = fileName.replace(/^.*[\\/]/, '').replace(/[^A-Za-z0-9_$]/g, '_');
+  return /^[A-Za-z_$]/.test(base) ? base : `_${base}`;
+}
+
+/** Java string literal for template text. */
+function javaStringLiteral(text: string): string {
+  return `"${text.replace(/[\\"]/g, '\\$&').replace(/\r/g, '\\r').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+}
+
+class JavaSourceBuilder {
+  private readonly parts: string[] = [];
+  private length = 0;
+  readonly mappings: JavaSourceMapping[] = [];
+  readonly segments: JavaSourceSegment[] = [];
+
+  emit(text: string): void {
+    this.parts.push(text);
+    this.length += text.length;
+  }
+
+  emitMapped(jspText: string, jspOffset: number, length: number): void {
+    if (length > 0) {
+      this.mappings.push({ jspOffset, javaOffset: this.length, length });
+    }
+    this.emit(jspText.slice(jspOffset, jspOffset + length));
+  }
+
+  /** Records everything `emitBody` emits as translated from `jspStart..jspEnd`. */
+  emitSegment(jspStart: number, jspEnd: number, emitBody: () => void): void {
+    const javaStart = this.length;
+    emitBody();
+    this.segments.push({ jspStart, jspEnd, javaStart, javaEnd: this.length });
+  }
+
+  build(className: string): TranslatedJava {
+    return {
+      className,
+      source: this.parts.join(''),
+      mappings: this.mappings,
+      segments: [...this.segments].sort((a, b) => a.javaStart - b.javaStart),
+    };
+  }
+}
+
+/**
+ * Translates a page to Java the way Jasper does: declarations (`<%! %>`) become class members,
+ * and template text, scriptlets (`<% %>`) and expressions (`<%= %>`) are stitched in document
+ * order into one `_jspService` body, with the implicit objects declared as locals. Scriptlet
+ * code is copied verbatim, so a block opened in one scriptlet and closed in another parses like
+ * it compiles. EL and custom tags are left in the template text.
+ */
+export function translateJspToJava(args: {
+  jspText: string;
+  javaRegions: readonly JavaRegion[];
+  pageImports: readonly string[];
+  className?: string;
+  flavor?: ServletApiFlavor;
+}): TranslatedJava {
+  const { jspText, javaRegions, pageImports } = args;
+  const className = args.className ?? '__jsp';
+  const pkg = args.flavor ?? 'javax';
+  const out = new JavaSourceBuilder();
+
+  for (const imp of [`${pkg}.servlet.*`, `${pkg}.servlet.http.*`, `${pkg}.servlet.jsp.*`, ...pageImports]) {
+    out.emit(`import ${imp};\n`);
+  }
+  out.emit(`\npublic final class ${className} extends ${pkg}.servlet.http.HttpServlet {\n`);
+
+  for (const r of javaRegions) {
+    if (r.kind === 'scriptlet-declaration') {
+      out.emit('\n');
+      out.emitSegment(r.jspStartOffset, r.jspEndOffset, () =>
+        out.emitMapped(jspText, r.jspContentStartOffset, r.jspContentEndOffset - r.jspContentStartOffset),
+      );
+      out.emit('\n');
+    }
+  }
+
+  out.emit(
+    [
+      '',
+      '  public void _jspService(final HttpServletRequest request, final HttpServletResponse response)',
+      '      throws java.io.IOException, ServletException {',
+      '    final PageContext pageContext = null;',
+      '    HttpSession session = null;',
+      '    final ServletContext application = null;',
+      '    final ServletConfig config = null;',
+      '    JspWriter out = null;',
+      '    final Object page = this;',
+      '    Throwable exception = null;',
+      '',
+    ].join('\n'),
+  );
+
+  let templateStart = 0;
+  const emitTemplate = (end: number): void => {
+    const text = jspText.slice(templateStart, end);
+    if (text) {
+      out.emitSegment(templateStart, end, () => out.emit(`    out.write(${javaStringLiteral(text)});`));
+      out.emit('\n');
+    }
+  };
+
+  for (const r of javaRegions) {
+    // Declarations and directives produce no output.
+    emitTemplate(r.jspStartOffset);
+    templateStart = r.jspEndOffset;
+
+    const length = r.jspContentEndOffset - r.jspContentStartOffset;
+    if (r.kind === 'scriptlet-statement') {
+      out.emitSegment(r.jspStartOffset, r.jspEndOffset, () => out.emitMapped(jspText, r.jspContentStartOffset, length));
+      out.emit('\n');
+    } else if (r.kind === 'scriptlet-expression') {
+      out.emitSegment(r.jspStartOffset, r.jspEndOffset, () => {
+        out.emit('    out.print(');
+        out.emitMapped(jspText, r.jspContentStartOffset, length);
+        // A trailing `//` comment would swallow the closing parenthesis.
+        out.emit(jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset).includes('//') ? '\n);' : ');');
+      });
+      out.emit('\n');
+    }
+  }
+  emitTemplate(jspText.length);
+
+  out.emit('  }\n}\n');
+  return out.build(className);
+}
+
+/**
+ * JSP offset for a Java offset. Offsets in generated code map to the end of the closest
+ * preceding copied stretch (or undefined when there is none).
+ */
+export function mapJavaOffsetToJsp(translated: TranslatedJava, javaOffset: number): number | undefined {
+  let best: number | undefined;
+  for (const m of translated.mappings) {
+    if (m.javaOffset > javaOffset) {
+      break;
+    }
+    best = javaOffset <= m.javaOffset + m.length ? m.jspOffset + (javaOffset - m.javaOffset) : m.jspOffset + m.length;
+  }
+  return best;
+}
+
+/** JSP range for a Java range inside one copied stretch (or undefined when it touches generated code). */
+export function mapJavaRangeToJsp(
+  translated: TranslatedJava,
+  javaStart: number,
+  javaEnd: number,
+): { start: number; end: number } | undefined {
+  const m = translated.mappings.find((x) => javaStart >= x.javaOffset && javaEnd <= x.javaOffset + x.length);
+  return m ? { start: m.jspOffset + (javaStart - m.javaOffset), end: m.jspOffset + (javaEnd - m.javaOffset) } : undefined;
+}
+
+/** Java offset for a JSP offset inside (or at the end of) a copied stretch. */
+export function mapJspOffsetToJava(translated: TranslatedJava, jspOffset: number): number | undefined {
+  const m = translated.mappings.find((x) => jspOffset >= x.jspOffset && jspOffset <= x.jspOffset + x.length);
+  return m ? m.javaOffset + (jspOffset - m.jspOffset) : undefined;
+}
@@ -0,0 +1,238 @@
+import type { TextEdit } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { ElRegion } from '../elSupport';
+import type { JavaRegion } from '../extractJavaRegions';
+import type { JavaTypeIndex } from './javaTypeIndex';
+import { findTypeNameUses, type ScriptletSymbols } from './scriptletSymbols';
+
+/** One entry of a `<%@ page import="..." %>` list. */
+export type PageImport = {
+  /** e.g. `java.util.List` or `java.util.*`. */
+  name: string;
+  /** JSP offsets of the entry text. */
+  jspStart: number;
+  jspEnd: number;
+  region: JavaRegion;
+};
+
+/** A simple type name used in page code without a page import, java.lang or Jasper import providing it. */
+export type MissingPageImport = {
+  name: string;
+  jspStart: number;
+  jspEnd: number;
+  /** Qualified names from the type index with that simple name. */
+  candidates: string[];
+};
+
+/** Public top-level types of `java.lang`, which are always in scope. */
+const JAVA_LANG_TYPES = new Set([
+  'AbstractMethodError', 'Appendable', 'ArithmeticException', 'ArrayIndexOutOfBoundsException', 'ArrayStoreException',
+  'AssertionError', 'AutoCloseable', 'Boolean', 'Byte', 'CharSequence', 'Character', 'Class', 'ClassCastException',
+  'ClassCircularityError', 'ClassFormatError', 'ClassLoader', 'ClassNotFoundException', 'ClassValue',
+  'CloneNotSupportedException', 'Cloneable', 'Comparable', 'Deprecated', 'Double', 'Enum',
+  'EnumConstantNotPresentException', 'Error', 'Exception', 'ExceptionInInitializerError', 'Float', 'FunctionalInterface',
+  'IllegalAccessError', 'IllegalAccessException', 'IllegalArgumentException', 'IllegalCallerException',
+  'IllegalMonitorStateException', 'IllegalStateException', 'IllegalThreadStateException',
+  'IncompatibleClassChangeError', 'IndexOutOfBoundsException', 'InheritableThreadLocal', 'InstantiationError',
+  'InstantiationException', 'Integer', 'InternalError', 'InterruptedException', 'Iterable', 'LinkageError', 'Long',
+  'Math', 'Module', 'NegativeArraySizeException', 'NoClassDefFoundError', 'NoSuchFieldError', 'NoSuchFieldException',
+  'NoSuchMethodError', 'NoSuchMethodException', 'NullPointerException', 'Number', 'NumberFormatException', 'Object',
+  'OutOfMemoryError', 'Override', 'Package', 'Process', 'ProcessBuilder', 'ProcessHandle', 'Readable', 'Record',
+  'ReflectiveOperationException', 'Runnable', 'Runtime', 'RuntimeException', 'SafeVarargs', 'SecurityException',
+  'Short', 'StackOverflowError', 'StackTraceElement', 'StackWalker', 'StrictMath', 'String', 'StringBuffer',
+  'StringBuilder', 'StringIndexOutOfBoundsException', 'SuppressWarnings', 'System', 'Thread', 'ThreadDeath',
+  'ThreadGroup', 'ThreadLocal', 'Throwable', 'TypeNotPresentException', 'UnknownError', 'UnsatisfiedLinkError',
+  'UnsupportedClassVersionError', 'UnsupportedOperationException', 'VerifyError', 'VirtualMachineError', 'Void',
+]);
+
+/** Types of the packages Jasper imports into every page: `servlet.*`, `servlet.http.*` and `servlet.jsp.*`. */
+const JASPER_IMPLICIT_TYPES = new Set([
+  'AsyncContext', 'AsyncEvent', 'AsyncListener', 'DispatcherType', 'Filter', 'FilterChain', 'FilterConfig',
+  'FilterRegistration', 'GenericFilter', 'GenericServlet', 'HttpConstraintElement', 'HttpMethodConstraintElement',
+  'MultipartConfigElement', 'ReadListener', 'Registration', 'RequestDispatcher', 'Servlet', 'ServletConfig',
+  'ServletContainerInitializer', 'ServletContext', 'ServletContextAttributeEvent', 'ServletContextAttributeListener',
+  'ServletContextEvent', 'ServletContextListener', 'ServletException', 'ServletInputStream', 'ServletOutputStream',
+  'ServletRegistration', 'ServletRequest', 'ServletRequestAttributeEvent', 'ServletRequestAttributeListener',
+  'ServletRequestEvent', 'ServletRequestListener', 'ServletRequestWrapper', 'ServletResponse',
+  'ServletResponseWrapper', 'ServletSecurityElement', 'SessionCookieConfig', 'SessionTrackingMode',
+  'SingleThreadModel', 'UnavailableException', 'WriteListener',
+  'Cookie', 'HttpFilter', 'HttpServlet', 'HttpServletMapping', 'HttpServletRequest', 'HttpServletRequestWrapper',
+  'HttpServletResponse', 'HttpServletResponseWrapper', 'HttpSession', 'HttpSessionActivationListener',
+  'HttpSessionAttributeListener', 'HttpSessionBindingEvent', 'HttpSessionBindingListener', 'HttpSessionContext',
+  'HttpSessionEvent', 'HttpSessionIdListener', 'HttpSessionListener', 'HttpUpgradeHandler', 'HttpUtils',
+  'MappingMatch', 'Part', 'PushBuilder', 'WebConnection',
+  'ErrorData', 'HttpJspPage', 'JspApplicationContext', 'JspContext', 'JspEngineInfo', 'JspException', 'JspFactory',
+  'JspPage', 'JspTagException', 'JspWriter', 'PageContext', 'SkipPageException',
+]);
+
+/** The import entries of every page directive, in document order. */
+export function findPageImports(jspText: string, javaRegions: readonly JavaRegion[]): PageImport[] {
+  const out: PageImport[] = [];
+  for (const region of javaRegions) {
+    if (region.kind !== 'directive-page-import') {
+      continue;
+    }
+    const body = jspText.slice(region.jspContentStartOffset, region.jspContentEndOffset);
+    const attr = /\bimport\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(body);
+    if (!attr) {
+      continue;
+    }
+    const value = attr[1] ?? attr[2] ?? '';
+    const valueStart = region.jspContentStartOffset + attr.index + attr[0].length - value.length - 1;
+    const entry = /[^,\s][^,]*/g;
+    for (let m = entry.exec(value); m; m = entry.exec(value)) {
+      const name = m[0].trimEnd();
+      out.push({ name, jspStart: valueStart + m.index, jspEnd: valueStart + m.index + name.length, region });
+    }
+  }
+  return out;
+}
+
+/**
+ * Whether another file shares the page's translation unit: a `.jspf` fragment is compiled into the
+ * page including it, and a page with `<%@ include file %>` into itself, so imports may serve (or
+ * be provided by) code the page doesn't show.
+ */
+export function sharesPageImports(uri: string, jspText: string, javaRegions: readonly JavaRegion[]): boolean {
+  return (
+    /\.jspf$/i.test(uri) ||
+    javaRegions.some(
+      (r) => r.kind === 'directive' && /^\s*include\b/i.test(jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset)),
+    )
+  );
+}
+
+function simpleName(qualifiedName: string): string {
+  return qualifiedName.slice(qualifiedName.lastIndexOf('.') + 1);
+}
+
+/** Identifiers of Java code, with comments and string/char literals left out. */
+function javaIdentifiers(code: string, out: Set<string>): void {
+  const token = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|[\p{L}_$][\p{L}\p{N}_$]*/gu;
+  for (const m of code.matchAll(token)) {
+    if (!/^["'/]/.test(m[0])) out.add(m[0]);
+  }
+}
+
+/**
+ * Single-type imports whose simple name appears nowhere in the page's scriptlets, expressions and
+ * declarations, EL (which sees page imports since JSP 2.3) or `<jsp:useBean>` tags.
+ */
+export function findUnusedPageImports(args: {
+  jspText: string;
+  javaRegions: readonly JavaRegion[];
+  elRegions: readonly ElRegion[];
+}): PageImport[] {
+  const { jspText, javaRegions, elRegions } = args;
+  const used = new Set<string>();
+  for (const r of javaRegions) {
+    if (r.kind === 'scriptlet-statement' || r.kind === 'scriptlet-expression' || r.kind === 'scriptlet-declaration') {
+      javaIdentifiers(jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset), used);
+    }
+  }
+  for (const r of elRegions) {
+    javaIdentifiers(jspText.slice(r.jspStartOffset, r.jspEndOffset), used);
+  }
+  for (const m of jspText.matchAll(/<jsp:useBean\b[^>]*>/gi)) {
+    javaIdentifiers(m[0].replace(/["']/g, ' '), used);
+  }
+
+  return findPageImports(jspText, javaRegions).filter(
+    (i) => !i.name.endsWith('*') && /^[\w$.]+$/.test(i.name) && !used.has(simpleName(i.name)),
+  );
+}
+
+/**
+ * Simple type names used in page code that no page import, `java.lang` or Jasper's implicit servlet
+ * imports provide. On-demand imports (`pkg.*`) are checked against the type index; while one names
+ * a package the index doesn't know, nothing is reported.
+ */
+export function findMissingPageImports(args: {
+  jspText: string;
+  javaRegions: readonly JavaRegion[];
+  symbols: ScriptletSymbols;
+  typeIndex: JavaTypeIndex | undefined;
+}): MissingPageImport[] {
+  const { typeIndex } = args;
+  const imports = findPageImports(args.jspText, args.javaRegions).map((i) => i.name);
+  const onDemand = imports.filter((i) => i.endsWith('.*')).map((i) => i.slice(0, -2));
+  if (onDemand.some((pkg) => !typeIndex?.packages.has(pkg))) {
+    return [];
+  }
+
+  const provided = new Set(imports.filter((i) => !i.endsWith('*')).map(simpleName));
+  const isProvided = (name: string) =>
+    provided.has(name) ||
+    JAVA_LANG_TYPES.has(name) ||
+    JASPER_IMPLICIT_TYPES.has(name) ||
+    onDemand.some((pkg) => typeIndex?.typesByPackage.get(pkg)?.has(name));
+
+  const out: MissingPageImport[] = [];
+  for (const use of findTypeNameUses(args.symbols)) {
+    if (isProvided(use.name)) {
+      continue;
+    }
+    const candidates = [...(typeIndex?.typesByPackage ?? [])]
+      .filter(([pkg, names]) => pkg && names.has(use.name))
+      .map(([pkg]) => `${pkg}.${use.name}`)
+      .sort();
+    out.push({ name: use.name, jspStart: use.jspStart, jspEnd: use.jspEnd, candidates });
+  }
+  return out;
+}
+
+/**
+ * Edit removing an import entry: with its separating comma from the list, the `import` attribute
+ * when it is the only entry, or the whole line when the directive has nothing else.
+ */
+export function removePageImportEdit(doc: TextDocument, entry: PageImport): TextEdit {
+  const text = doc.getText();
+  const { region } = entry;
+  const body = text.slice(region.jspContentStartOffset, region.jspContentEndOffset);
+  const attr = /\s*\bimport\s*=\s*(["'])([^"']*)\1/i.exec(body)!;
+  const range = (start: number, end: number) => ({ start: doc.positionAt(start), end: doc.positionAt(end) });
+
+  if (attr[2]!.trim() === entry.name) {
+    if (/^\s*page\s*$/i.test(body.replace(attr[0], ''))) {
+      const lineStart = text.lastIndexOf('\n', region.jspStartOffset - 1) + 1;
+      const rest = /^[ \t]*(?:\r?\n|$)/.exec(text.slice(region.jspEndOffset));
+      if (rest && !text.slice(lineStart, region.jspStartOffset).trim()) {
+        return { range: range(lineStart, region.jspEndOffset + rest[0].length), newText: '' };
+      }
+      return { range: range(region.jspStartOffset, region.jspEndOffset), newText: '' };
+    }
+    const attrStart = region.jspContentStartOffset + attr.index;
+    return { range: range(attrStart, attrStart + attr[0].length), newText: '' };
+  }
+
+  // Take the comma after the entry (or, for the last entry, the one before it) along.
+  const after = /^\s*,\s*/.exec(text.slice(entry.jspEnd));
+  if (after) {
+    return { range: range(entry.jspStart, entry.jspEnd + after[0].length), newText: '' };
+  }
+  const before = /,\s*$/.exec(text.slice(region.jspContentStartOffset, entry.jspStart))!;
+  return { range: range(entry.jspStart - before[0].length, entry.jspEnd), newText: '' };
+}
+
+/** Edit adding an import to the last `<%@ page import %>` list, or a new directive after the page directives. */
+export function addPageImportEdit(doc: TextDocument, javaRegions: readonly JavaRegion[], qualifiedName: string): TextEdit {
+  const text = doc.getText();
+  const last = findPageImports(text, javaRegions).at(-1);
+  if (last) {
+    const at = doc.positionAt(last.jspEnd);
+    return { range: { start: at, end: at }, newText: `, ${qualifiedName}` };
+  }
+
+  const pageDirectives = javaRegions.filter(
+    (r) => r.kind === 'directive' && /^\s*page\b/i.test(text.slice(r.jspContentStartOffset, r.jspContentEndOffset)),
+  );
+  const after = pageDirectives.at(-1);
+  const directive = `<%@ page import="${qualifiedName}" %>`;
+  if (!after) {
+    const top = doc.positionAt(0);
+    return { range: { start: top, end: top }, newText: `${directive}\n` };
+  }
+  const at = doc.positionAt(after.jspEndOffset);
+  return { range: { start: at, end: at }, newText: `\n${directive}` };
+}
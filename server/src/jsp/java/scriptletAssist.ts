@@ -0,0 +1,376 @@
+import {
+  type CompletionItem,
+  CompletionItemKind,
+  type CompletionList,
+  type Hover,
+  InsertTextFormat,
+  MarkupKind,
+  type SignatureHelp,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import { JSP_IMPLICIT_OBJECTS } from '../jspImplicitObjects';
+import {
+  type ApiMember,
+  type ApiMethod,
+  type ApiType,
+  formatApiMember,
+  getApiMembers,
+  getApiType,
+  qualifiedApiTypeName,
+  type ServletApiFlavor,
+} from './servletApiModel';
+
+export type JavaConfig = {
+  /** Which Servlet/JSP API package the model is shown with; `auto` looks at the page. */
+  servletApi: 'auto' | ServletApiFlavor;
+  /** Command line of an external stdio Java language server; empty disables the bridge. */
+  languageServerCommand: string[];
+};
+
+export const DEFAULT_JAVA_CONFIG: JavaConfig = {
+  servletApi: 'auto',
+  languageServerCommand: [],
+};
+
+export function normalizeJavaConfig(cfg: any): JavaConfig {
+  const servletApi = cfg?.servletApi;
+  const command = cfg?.languageServer?.command;
+  return {
+    servletApi: servletApi === 'javax' || servletApi === 'jakarta' ? servletApi : DEFAULT_JAVA_CONFIG.servletApi,
+    languageServerCommand: Array.isArray(command)
+      ? command.filter((x: unknown): x is string => typeof x === 'string' && x.length > 0)
+      : DEFAULT_JAVA_CONFIG.languageServerCommand,
+  };
+}
+
+/** `jakarta.*` when the page imports Jakarta packages or uses Jakarta tag URIs, `javax.*` otherwise. */
+export function detectServletApiFlavor(jspText: string, configured: JavaConfig['servletApi']): ServletApiFlavor {
+  if (configured !== 'auto') {
+    return configured;
+  }
+  return /\bjakarta\.(?:servlet|tags)\b/.test(jspText) ? 'jakarta' : 'javax';
+}
+
+/** Implicit objects are only in scope in `_jspService`, i.e. scriptlets and expressions. */
+function hasImplicitObjects(region: JavaRegion): boolean {
+  return region.kind === 'scriptlet-statement' || region.kind === 'scriptlet-expression';
+}
+
+/**
+ * Blanks out comments and the contents of string/char literals (quotes are kept), so the
+ * backward scans below can't be confused by them. `open` tells whether `code` ends inside one.
+ */
+function maskJavaCode(code: string): { masked: string; open: boolean } {
+  const out = code.split('');
+  let open = false;
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i]!;
+    if (ch === '"' || ch === '\'') {
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && code[j] !== '\n') {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      for (let k = i + 1; k < Math.min(j, code.length); k++) out[k] = ' ';
+      open = j >= code.length;
+      i = j + 1;
+      continue;
+    }
+    if (ch === '/' && (code[i + 1] === '/' || code[i + 1] === '*')) {
+      const end = code[i + 1] === '/' ? code.indexOf('\n', i) : code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : code[i + 1] === '/' ? end : end + 2;
+      for (let k = i; k < stop; k++) out[k] = ' ';
+      open = end === -1;
+      i = stop;
+      continue;
+    }
+    open = false;
+    i++;
+  }
+  return { masked: out.join(''), open };
+}
+
+function skipWhitespaceBack(text: string, i: number): number {
+  while (i > 0 && /\s/.test(text[i - 1]!)) i--;
+  return i;
+}
+
+function matchingOpenParen(text: string, closeIndex: number): number {
+  let depth = 0;
+  for (let i = closeIndex; i >= 0; i--) {
+    if (text[i] === ')') depth++;
+    else if (text[i] === '(' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+type ChainSegment = { name: string; call: boolean } | { literal: 'java.lang.String' };
+
+/**
+ * The member access chain ending at `end`, e.g. `request.getSession()` -> `request`,
+ * `getSession()`. Undefined for anything else (casts, parenthesized expressions, ...).
+ */
+function parseChainBackward(text: string, end: number): ChainSegment[] | undefined {
+  const segments: ChainSegment[] = [];
+  let i = end;
+  while (true) {
+    i = skipWhitespaceBack(text, i);
+    if (text[i - 1] === '"') {
+      const open = text.lastIndexOf('"', i - 2);
+      if (open === -1) return undefined;
+      segments.unshift({ literal: 'java.lang.String' });
+      return segments;
+    }
+
+    let call = false;
+    if (text[i - 1] === ')') {
+      const open = matchingOpenParen(text, i - 1);
+      if (open === -1) return undefined;
+      i = skipWhitespaceBack(text, open);
+      call = true;
+    }
+    const m = /[A-Za-z_$][\w$]*$/.exec(text.slice(0, i));
+    if (!m) return undefined;
+    segments.unshift({ name: m[0], call });
+    i -= m[0].length;
+
+    const dot = skipWhitespaceBack(text, i);
+    if (text[dot - 1] !== '.') {
+      return segments;
+    }
+    i = dot - 1;
+  }
+}
+
+type ResolvedReceiver = { type: ApiType; isStatic: boolean };
+
+/** Declared type of a page variable (local, parameter or field) visible at the cursor. */
+export type VariableTypeLookup = (name: string) => string | undefined;
+
+function findMembers(receiver: ResolvedReceiver, name: string, kind?: ApiMember['kind']): ApiMember[] {
+  return getApiMembers(receiver.type).filter(
+    (m) => m.name === name && (!kind || m.kind === kind) && (!receiver.isStatic || m.isStatic),
+  );
+}
+
+function resolveChain(segments: ChainSegment[], variableType?: VariableTypeLookup): ResolvedReceiver | undefined {
+  const [root, ...rest] = segments;
+  if (!root) {
+    return undefined;
+  }
+
+  let receiver: ResolvedReceiver | undefined;
+  if ('literal' in root) {
+    const type = getApiType(root.literal);
+    receiver = type && { type, isStatic: false };
+  } else if (!root.call) {
+    const implicit = JSP_IMPLICIT_OBJECTS.find((o) => o.name === root.name);
+    const declared = implicit ? undefined : variableType?.(root.name)?.replace(/<.*$/, '');
+    const type = implicit ? getApiType(implicit.type) : declared ? getApiType(declared) : getApiType(root.name);
+    receiver = type && { type, isStatic: !implicit && !declared };
+  }
+
+  for (const segment of rest) {
+    if (!receiver || 'literal' in segment) {
+      return undefined;
+    }
+    const member = findMembers(receiver, segment.name, segment.call ? 'method' : 'field')[0];
+    const typeName = member && (member.kind === 'method' ? member.returnType : member.type);
+    const type = typeName ? getApiType(typeName) : undefined;
+    receiver = type && { type, isStatic: false };
+  }
+  return receiver;
+}
+
+function memberMarkdown(members: ApiMember[]): string {
+  const signatures = members.map(formatApiMember).join('\n');
+  return ['```java', signatures, '```', '', members[0]!.doc].join('\n');
+}
+
+function regionCode(doc: TextDocument, region: JavaRegion): string {
+  return doc.getText().slice(region.jspContentStartOffset, region.jspContentEndOffset);
+}
+
+/**
+ * Member completion after `receiver.` where the receiver is an implicit object or a page variable
+ * of a model type (or a chain of calls on one, or a model type name for static members). Undefined
+ * when the cursor is not after a member access, so callers can fall back to identifier completion.
+ */
+export function getScriptletMemberCompletions(
+  doc: TextDocument,
+  region: JavaRegion,
+  offset: number,
+  variableType?: VariableTypeLookup,
+): CompletionList | undefined {
+  if (!hasImplicitObjects(region)) {
+    return undefined;
+  }
+  const { masked, open } = maskJavaCode(regionCode(doc, region).slice(0, offset - region.jspContentStartOffset));
+  if (open) {
+    return undefined;
+  }
+
+  const prefix = /[A-Za-z_$][\w$]*$/.exec(masked)?.[0] ?? '';
+  const dot = skipWhitespaceBack(masked, masked.length - prefix.length);
+  if (masked[dot - 1] !== '.') {
+    return undefined;
+  }
+
+  const chain = parseChainBackward(masked, dot - 1);
+  const receiver = chain && resolveChain(chain, variableType);
+  if (!receiver) {
+    return { isIncomplete: false, items: [] };
+  }
+
+  const byName = new Map<string, ApiMember[]>();
+  for (const member of getApiMembers(receiver.type)) {
+    if (member.isStatic !== receiver.isStatic) {
+      continue;
+    }
+    byName.set(member.name, [...(byName.get(member.name) ?? []), member]);
+  }
+
+  const items: CompletionItem[] = [...byName.values()].map((overloads) => {
+    const first = overloads[0]!;
+    const more = overloads.length > 1 ? ` (+${overloads.length - 1} overloads)` : '';
+    const item: CompletionItem = {
+      label: first.name,
+      kind: first.kind === 'field' ? (first.isStatic ? CompletionItemKind.Constant : CompletionItemKind.Field) : CompletionItemKind.Method,
+      detail: `${formatApiMember(first)}${more}`,
+      documentation: { kind: MarkupKind.Markdown, value: memberMarkdown(overloads) },
+    };
+    if (first.kind === 'method') {
+      const takesArgs = overloads.some((m) => m.kind === 'method' && m.parameters.length > 0);
+      item.insertText = takesArgs ? `${first.name}($0)` : `${first.name}()`;
+      item.insertTextFormat = InsertTextFormat.Snippet;
+    }
+    return item;
+  });
+
+  return { isIncomplete: false, items };
+}
+
+/** Hover for implicit objects, model type names and their members (also on page variables) inside scriptlets. */
+export function getScriptletHover(
+  doc: TextDocument,
+  region: JavaRegion,
+  offset: number,
+  flavor: ServletApiFlavor,
+  variableType?: VariableTypeLookup,
+): Hover | null {
+  if (!hasImplicitObjects(region)) {
+    return null;
+  }
+  const { masked } = maskJavaCode(regionCode(doc, region));
+  const rel = offset - region.jspContentStartOffset;
+
+  let start = rel;
+  let end = rel;
+  while (start > 0 && /[\w$]/.test(masked[start - 1]!)) start--;
+  while (end < masked.length && /[\w$]/.test(masked[end]!)) end++;
+  const name = masked.slice(start, end);
+  if (!/^[A-Za-z_$]/.test(name)) {
+    return null;
+  }
+
+  const range = {
+    start: doc.positionAt(region.jspContentStartOffset + start),
+    end: doc.positionAt(region.jspContentStartOffset + end),
+  };
+
+  const dot = skipWhitespaceBack(masked, start);
+  if (masked[dot - 1] === '.') {
+    const chain = parseChainBackward(masked, dot - 1);
+    const receiver = chain && resolveChain(chain, variableType);
+    if (!receiver) {
+      return null;
+    }
+    const isCall = /^\s*\(/.test(masked.slice(end));
+    const members = findMembers(receiver, name, isCall ? 'method' : 'field');
+    if (!members.length) {
+      return null;
+    }
+    const owner = qualifiedApiTypeName(receiver.type, flavor);
+    return {
+      contents: { kind: MarkupKind.Markdown, value: `${memberMarkdown(members)}\n\n*${owner}*` },
+      range,
+    };
+  }
+
+  const implicit = JSP_IMPLICIT_OBJECTS.find((o) => o.name === name);
+  const type = implicit ? getApiType(implicit.type) : getApiType(name);
+  if (!type) {
+    return null;
+  }
+  const qualified = qualifiedApiTypeName(type, flavor);
+  const header = implicit ? `${qualified} ${name}` : qualified;
+  const lead = implicit ? `JSP implicit object${name === 'exception' ? ' (error pages only)' : ''}.\n\n` : '';
+  return {
+    contents: { kind: MarkupKind.Markdown, value: ['```java', header, '```', '', `${lead}${type.doc}`].join('\n') },
+    range,
+  };
+}
+
+/** Signature help for calls on implicit objects (and chains/static members, as for completion). */
+export function getScriptletSignatureHelp(
+  doc: TextDocument,
+  region: JavaRegion,
+  offset: number,
+  variableType?: VariableTypeLookup,
+): SignatureHelp | null {
+  if (!hasImplicitObjects(region)) {
+    return null;
+  }
+  const { masked, open } = maskJavaCode(regionCode(doc, region).slice(0, offset - region.jspContentStartOffset));
+  if (open) {
+    return null;
+  }
+
+  // Innermost unclosed `(` before the cursor, counting top-level commas on the way.
+  let depth = 0;
+  let commas = 0;
+  let openParen = -1;
+  for (let i = masked.length - 1; i >= 0 && openParen === -1; i--) {
+    const ch = masked[i]!;
+    if (ch === ')' || ch === ']' || ch === '}') depth++;
+    else if (ch === '(' || ch === '[' || ch === '{') {
+      if (depth === 0) {
+        if (ch !== '(') return null;
+        openParen = i;
+      } else {
+        depth--;
+      }
+    } else if (ch === ',' && depth === 0) commas++;
+    else if (ch === ';' && depth === 0) return null;
+  }
+  if (openParen === -1) {
+    return null;
+  }
+
+  const chain = parseChainBackward(masked, openParen);
+  const method = chain?.pop();
+  if (!chain?.length || !method || 'literal' in method) {
+    return null;
+  }
+  const receiver = resolveChain(chain, variableType);
+  const overloads = receiver ? (findMembers(receiver, method.name, 'method') as ApiMethod[]) : [];
+  if (!overloads.length) {
+    return null;
+  }
+
+  const activeSignature = Math.max(
+    0,
+    overloads.findIndex((m) => m.parameters.length > commas),
+  );
+  return {
+    signatures: overloads.map((m) => ({
+      label: formatApiMember(m),
+      documentation: m.doc,
+      parameters: m.parameters.map((p) => ({ label: `${p.type} ${p.name}` })),
+    })),
+    activeSignature,
+    activeParameter: commas,
+  };
+}
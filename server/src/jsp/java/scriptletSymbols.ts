@@ -0,0 +1,392 @@
+import {
+  type CompletionItem,
+  CompletionItemKind,
+  type Hover,
+  InsertTextFormat,
+  type Location,
+  MarkupKind,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { type CstNode, type IToken, parse } from 'java-parser';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import { JSP_IMPLICIT_OBJECTS } from '../jspImplicitObjects';
+import { mapJspOffsetToJava, translateJspToJava, type TranslatedJava } from './jspTranslation';
+
+export type ScriptletSymbol = {
+  name: string;
+  kind: 'local' | 'parameter' | 'field' | 'method';
+  /** Declared type; the return type for methods. */
+  type: string;
+  /** Methods only, e.g. `(int a, String b)`. */
+  parameters?: string;
+  /** JSP offsets of the declared name. */
+  jspStart: number;
+  jspEnd: number;
+  /** Fields and methods: JSP offsets of the whole declaration (modifiers to `;` or closing brace). */
+  declarationStart?: number;
+  declarationEnd?: number;
+  /** Java offsets: the name, and the block (statement, method, ...) a local or parameter is in scope in. */
+  javaStart: number;
+  scopeStart: number;
+  scopeEnd: number;
+};
+
+/** A simple name used as a variable in page code (not after `.`, not a call). */
+type ScriptletReference = { name: string; javaStart: number; jspStart: number; jspEnd: number };
+
+export type ScriptletSymbols = {
+  translated: TranslatedJava;
+  symbols: ScriptletSymbol[];
+  references: ScriptletReference[];
+  /** Simple names used as types (declarations, `new`, casts, type arguments, ...), qualified names left out. */
+  typeReferences: ScriptletReference[];
+  /** Classes and type parameters declared in page code. */
+  declaredTypes: Set<string>;
+};
+
+/** Nodes whose first identifier names a type. */
+const TYPE_NAME_NODES = new Set(['unannClassType', 'classType', 'classOrInterfaceTypeToInstantiate']);
+
+/** Nodes that end the scope of the locals declared directly inside them. */
+const LOCAL_SCOPES = new Set(['block', 'basicForStatement', 'enhancedForStatement', 'switchBlock', 'resourceSpecification']);
+
+function isToken(element: CstNode | IToken): element is IToken {
+  return (element as IToken).image !== undefined;
+}
+
+function children(node: CstNode): (CstNode | IToken)[] {
+  return Object.values(node.children)
+    .flat()
+    .sort((a, b) => (isToken(a) ? a.startOffset : a.location.startOffset) - (isToken(b) ? b.startOffset : b.location.startOffset));
+}
+
+function firstChild(node: CstNode, name: string): CstNode | undefined {
+  return (node.children[name] as CstNode[] | undefined)?.[0];
+}
+
+function declaratorIdentifiers(node: CstNode): IToken[] {
+  const out: IToken[] = [];
+  const visit = (n: CstNode) => {
+    if (n.name === 'variableDeclaratorId') {
+      const id = (n.children.Identifier as IToken[] | undefined)?.[0];
+      if (id) out.push(id);
+      return;
+    }
+    // Initializers may contain lambdas and anonymous classes with their own declarations.
+    if (n.name === 'variableInitializer') return;
+    for (const c of children(n)) if (!isToken(c)) visit(c);
+  };
+  visit(node);
+  return out;
+}
+
+/**
+ * Locals, parameters, fields and methods the page's scriptlets and declarations declare, and the
+ * simple names its code uses, from the Jasper-style translation. Undefined when it doesn't parse.
+ */
+export function collectScriptletSymbols(translated: TranslatedJava): ScriptletSymbols | undefined {
+  const source = translated.source;
+  let cst: CstNode;
+  try {
+    cst = parse(source);
+  } catch {
+    return undefined;
+  }
+
+  const toJsp = (javaOffset: number): number | undefined => {
+    const m = translated.mappings.find((x) => javaOffset >= x.javaOffset && javaOffset < x.javaOffset + x.length);
+    return m && m.jspOffset + (javaOffset - m.javaOffset);
+  };
+  const text = (node: CstNode) => source.slice(node.location.startOffset, node.location.endOffset + 1).replace(/\s+/g, ' ');
+
+  const symbols: ScriptletSymbol[] = [];
+  const references: ScriptletReference[] = [];
+  const typeReferences: ScriptletReference[] = [];
+  const declaredTypes = new Set<string>();
+  const add = (id: IToken, symbol: Omit<ScriptletSymbol, 'name' | 'jspStart' | 'jspEnd' | 'javaStart'>) => {
+    const jspStart = toJsp(id.startOffset);
+    if (jspStart !== undefined) {
+      symbols.push({ name: id.image, jspStart, jspEnd: jspStart + id.image.length, javaStart: id.startOffset, ...symbol });
+    }
+  };
+  const whole = { scopeStart: 0, scopeEnd: source.length };
+  const declaration = (node: CstNode) => {
+    const start = toJsp(node.location.startOffset);
+    const end = toJsp(node.location.endOffset);
+    return start !== undefined && end !== undefined ? { declarationStart: start, declarationEnd: end + 1 } : {};
+  };
+
+  const visit = (node: CstNode, ancestors: CstNode[]) => {
+    const classDepth = ancestors.filter((a) => a.name === 'classBody').length;
+    const scope = (names: Set<string> | string) => {
+      const owner = [...ancestors].reverse().find((a) => (typeof names === 'string' ? a.name === names : names.has(a.name)));
+      return owner ? { scopeStart: owner.location.startOffset, scopeEnd: owner.location.endOffset + 1 } : whole;
+    };
+
+    if (TYPE_NAME_NODES.has(node.name)) {
+      const id = (node.children.Identifier as IToken[] | undefined)?.[0];
+      const jspStart = id && toJsp(id.startOffset);
+      // A lower-case first identifier is a package of a qualified name.
+      if (id && jspStart !== undefined && /^[A-Z]/.test(id.image)) {
+        typeReferences.push({ name: id.image, javaStart: id.startOffset, jspStart, jspEnd: jspStart + id.image.length });
+      }
+    }
+
+    switch (node.name) {
+      case 'typeIdentifier': {
+        const id = (node.children.Identifier as IToken[] | undefined)?.[0];
+        if (id && toJsp(id.startOffset) !== undefined) declaredTypes.add(id.image);
+        break;
+      }
+      case 'fieldDeclaration':
+        if (classDepth === 1) {
+          const type = text(firstChild(node, 'unannType')!);
+          for (const id of declaratorIdentifiers(node)) add(id, { kind: 'field', type, ...whole, ...declaration(node) });
+        }
+        break;
+      case 'methodDeclaration': {
+        const header = firstChild(node, 'methodHeader')!;
+        const declarator = firstChild(header, 'methodDeclarator')!;
+        const id = (declarator.children.Identifier as IToken[])[0]!;
+        const params = firstChild(declarator, 'formalParameterList');
+        if (classDepth === 1) {
+          add(id, {
+            kind: 'method',
+            type: text(firstChild(header, 'result')!),
+            parameters: `(${params ? text(params) : ''})`,
+            ...whole,
+            ...declaration(node),
+          });
+        }
+        const body = { scopeStart: node.location.startOffset, scopeEnd: node.location.endOffset + 1 };
+        for (const p of (params?.children.formalParameter as CstNode[] | undefined) ?? []) {
+          const regular = firstChild(p, 'variableParaRegularParameter') ?? firstChild(p, 'variableArityParameter')!;
+          const typeNode = firstChild(regular, 'unannType');
+          for (const pid of declaratorIdentifiers(regular)) {
+            add(pid, { kind: 'parameter', type: typeNode ? text(typeNode) : '', ...body });
+          }
+          const arity = (regular.children.Identifier as IToken[] | undefined)?.[0];
+          if (arity) add(arity, { kind: 'parameter', type: `${typeNode ? text(typeNode) : ''}...`, ...body });
+        }
+        break;
+      }
+      case 'localVariableDeclaration': {
+        const type = text(firstChild(node, 'localVariableType')!);
+        for (const id of declaratorIdentifiers(node)) add(id, { kind: 'local', type, ...scope(LOCAL_SCOPES) });
+        break;
+      }
+      case 'catchFormalParameter': {
+        const type = text(firstChild(node, 'catchType')!);
+        for (const id of declaratorIdentifiers(node)) add(id, { kind: 'local', type, ...scope('catchClause') });
+        break;
+      }
+      case 'fqnOrRefTypePartFirst':
+        if (ancestors.some((a) => a.name === 'primaryPrefix')) {
+          const common = firstChild(node, 'fqnOrRefTypePartCommon');
+          const id = (common?.children.Identifier as IToken[] | undefined)?.[0];
+          const jspStart = id && toJsp(id.startOffset);
+          if (id && jspStart !== undefined && !/^\s*\(/.test(source.slice(id.endOffset + 1))) {
+            references.push({ name: id.image, javaStart: id.startOffset, jspStart, jspEnd: jspStart + id.image.length });
+          }
+        }
+        break;
+    }
+
+    for (const c of children(node)) {
+      if (!isToken(c)) visit(c, [...ancestors, node]);
+    }
+  };
+  visit(cst, []);
+
+  return { translated, symbols, references, typeReferences, declaredTypes };
+}
+
+/**
+ * Symbols for the page. When the page doesn't parse and `cursorOffset` is in a scriptlet, the code
+ * there from the last statement boundary before the cursor (then the whole scriptlet) is blanked
+ * and the page parsed again, so completion still works while a statement is being typed.
+ */
+export function analyzeScriptletSymbols(args: {
+  jspText: string;
+  javaRegions: readonly JavaRegion[];
+  pageImports: readonly string[];
+  cursorOffset?: number;
+}): ScriptletSymbols | undefined {
+  const { jspText, javaRegions, pageImports, cursorOffset } = args;
+  const analyze = (text: string) => collectScriptletSymbols(translateJspToJava({ jspText: text, javaRegions, pageImports }));
+
+  const full = analyze(jspText);
+  const region =
+    cursorOffset === undefined
+      ? undefined
+      : javaRegions.find((r) => cursorOffset >= r.jspContentStartOffset && cursorOffset <= r.jspContentEndOffset);
+  if (full || !region || cursorOffset === undefined) {
+    return full;
+  }
+
+  const blank = (from: number, to: number) => {
+    const filler = region.kind === 'scriptlet-expression' && from === region.jspContentStartOffset ? '0' : '';
+    return jspText.slice(0, from) + filler.padEnd(to - from, ' ') + jspText.slice(to);
+  };
+  const before = jspText.slice(region.jspContentStartOffset, cursorOffset);
+  const boundary = Math.max(before.lastIndexOf(';'), before.lastIndexOf('{'), before.lastIndexOf('}'));
+  const attempts = [
+    boundary === -1 ? undefined : region.jspContentStartOffset + boundary + 1,
+    region.jspContentStartOffset,
+  ];
+  for (const from of attempts) {
+    const patched = from === undefined ? undefined : analyze(blank(from, region.jspContentEndOffset));
+    if (patched) {
+      return patched;
+    }
+  }
+  return undefined;
+}
+
+/** Symbols in scope at a JSP offset in page code: locals declared before it, and all fields and methods. */
+export function visibleScriptletSymbols(analysis: ScriptletSymbols, jspOffset: number): ScriptletSymbol[] {
+  const javaOffset = mapJspOffsetToJava(analysis.translated, jspOffset);
+  if (javaOffset === undefined) {
+    return [];
+  }
+  return analysis.symbols.filter(
+    (s) =>
+      s.kind === 'field' ||
+      s.kind === 'method' ||
+      (s.javaStart + s.name.length <= javaOffset && javaOffset >= s.scopeStart && javaOffset < s.scopeEnd),
+  );
+}
+
+function resolveName(analysis: ScriptletSymbols, name: string, jspOffset: number, call: boolean): ScriptletSymbol | undefined {
+  const visible = visibleScriptletSymbols(analysis, jspOffset).filter((s) => s.name === name);
+  if (call) {
+    return visible.find((s) => s.kind === 'method');
+  }
+  // Innermost (latest declared) local first, then fields.
+  return (
+    visible.filter((s) => s.kind === 'local' || s.kind === 'parameter').sort((a, b) => b.javaStart - a.javaStart)[0] ??
+    visible.find((s) => s.kind === 'field')
+  );
+}
+
+/** Declared type of a local, parameter or field visible at the offset (for member completion on it). */
+export function scriptletVariableType(analysis: ScriptletSymbols, name: string, jspOffset: number): string | undefined {
+  return resolveName(analysis, name, jspOffset, false)?.type;
+}
+
+function symbolSignature(s: ScriptletSymbol): string {
+  return s.kind === 'method' ? `${s.type} ${s.name}${s.parameters}` : `${s.type} ${s.name}`;
+}
+
+const SYMBOL_LABELS: Record<ScriptletSymbol['kind'], string> = {
+  local: 'Local variable',
+  parameter: 'Parameter',
+  field: 'Field (`<%! %>` declaration)',
+  method: 'Method (`<%! %>` declaration)',
+};
+
+export function getScriptletSymbolCompletions(analysis: ScriptletSymbols, jspOffset: number): CompletionItem[] {
+  const seen = new Set<string>();
+  const items: CompletionItem[] = [];
+  // Latest declarations first, so shadowing locals win.
+  for (const s of [...visibleScriptletSymbols(analysis, jspOffset)].sort((a, b) => b.javaStart - a.javaStart)) {
+    if (seen.has(`${s.kind === 'method'}:${s.name}`)) {
+      continue;
+    }
+    seen.add(`${s.kind === 'method'}:${s.name}`);
+    const item: CompletionItem = {
+      label: s.name,
+      kind:
+        s.kind === 'method' ? CompletionItemKind.Method : s.kind === 'field' ? CompletionItemKind.Field : CompletionItemKind.Variable,
+      detail: symbolSignature(s),
+    };
+    if (s.kind === 'method') {
+      item.insertText = s.parameters === '()' ? `${s.name}()` : `${s.name}($0)`;
+      item.insertTextFormat = InsertTextFormat.Snippet;
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/** The page symbol a simple name at the offset refers to (or declares). */
+export function findScriptletSymbolAt(
+  analysis: ScriptletSymbols,
+  jspText: string,
+  jspOffset: number,
+): { symbol: ScriptletSymbol; start: number; end: number } | undefined {
+  let start = jspOffset;
+  let end = jspOffset;
+  while (start > 0 && /[\w$]/.test(jspText[start - 1]!)) start--;
+  while (end < jspText.length && /[\w$]/.test(jspText[end]!)) end++;
+  const name = jspText.slice(start, end);
+  if (!/^[A-Za-z_$]/.test(name) || /\.\s*$/.test(jspText.slice(Math.max(0, start - 20), start))) {
+    return undefined;
+  }
+
+  const declared = analysis.symbols.find((s) => s.jspStart === start);
+  if (declared) {
+    return { symbol: declared, start, end };
+  }
+  const symbol = resolveName(analysis, name, start, /^\s*\(/.test(jspText.slice(end)));
+  return symbol && { symbol, start, end };
+}
+
+export function getScriptletSymbolHover(doc: TextDocument, analysis: ScriptletSymbols, jspOffset: number): Hover | null {
+  const hit = findScriptletSymbolAt(analysis, doc.getText(), jspOffset);
+  if (!hit) {
+    return null;
+  }
+  const line = doc.positionAt(hit.symbol.jspStart).line + 1;
+  return {
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: ['```java', symbolSignature(hit.symbol), '```', '', `${SYMBOL_LABELS[hit.symbol.kind]}, declared on line ${line}.`].join('\n'),
+    },
+    range: { start: doc.positionAt(hit.start), end: doc.positionAt(hit.end) },
+  };
+}
+
+export function findScriptletSymbolDefinition(doc: TextDocument, analysis: ScriptletSymbols, jspOffset: number): Location | null {
+  const hit = findScriptletSymbolAt(analysis, doc.getText(), jspOffset);
+  return hit
+    ? { uri: doc.uri, range: { start: doc.positionAt(hit.symbol.jspStart), end: doc.positionAt(hit.symbol.jspEnd) } }
+    : null;
+}
+
+/** Names used before the local of that name is declared later in a block that contains the use. */
+export function findUsesBeforeDeclaration(
+  analysis: ScriptletSymbols,
+): { reference: ScriptletReference; declaration: ScriptletSymbol }[] {
+  const out: { reference: ScriptletReference; declaration: ScriptletSymbol }[] = [];
+  for (const r of analysis.references) {
+    if (JSP_IMPLICIT_OBJECTS.some((o) => o.name === r.name) || resolveName(analysis, r.name, r.jspStart, false)) {
+      continue;
+    }
+    const declaration = analysis.symbols.find(
+      (s) => s.kind === 'local' && s.name === r.name && s.javaStart > r.javaStart && r.javaStart >= s.scopeStart && r.javaStart < s.scopeEnd,
+    );
+    if (declaration) {
+      out.push({ reference: r, declaration });
+    }
+  }
+  return out;
+}
+
+/**
+ * Simple type names page code uses that it doesn't declare: names in type positions, and capitalized
+ * names used as the start of an expression (`Math.max(...)`, `Foo.class`) that aren't variables.
+ */
+export function findTypeNameUses(analysis: ScriptletSymbols): ScriptletReference[] {
+  const qualifiers = analysis.references.filter(
+    (r) =>
+      /^[A-Z]/.test(r.name) &&
+      !JSP_IMPLICIT_OBJECTS.some((o) => o.name === r.name) &&
+      !analysis.symbols.some((s) => s.name === r.name && s.kind !== 'method'),
+  );
+  return [...analysis.typeReferences, ...qualifiers]
+    .filter((r) => !analysis.declaredTypes.has(r.name))
+    .sort((a, b) => a.jspStart - b.jspStart);
+}
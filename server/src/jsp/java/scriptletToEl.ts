@@ -0,0 +1,386 @@
+import { type CodeAction, CodeActionKind, type TextEdit } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import { jstlTaglibPrefix } from '../taglibs/jstl';
+import { sharesPageImports } from './pageImports';
+import type { ServletApiFlavor } from './servletApiModel';
+import type { ScriptletSymbols } from './scriptletSymbols';
+
+type Token = { kind: 'string' | 'number' | 'word' | 'op'; text: string };
+
+/** How implicit objects are reached from EL (`request.getContextPath()` -> `pageContext.request.contextPath`). */
+const IMPLICIT_OBJECT_EL: Record<string, string> = {
+  request: 'pageContext.request',
+  response: 'pageContext.response',
+  session: 'pageContext.session',
+  application: 'pageContext.servletContext',
+  config: 'pageContext.servletConfig',
+  pageContext: 'pageContext',
+  exception: 'pageContext.exception',
+};
+
+/** `<object>.getAttribute("x")` -> `<scope>.x`. */
+const ATTRIBUTE_SCOPES: Record<string, string> = {
+  pageContext: 'pageScope',
+  request: 'requestScope',
+  session: 'sessionScope',
+  application: 'applicationScope',
+};
+
+/** Names that never refer to a scoped attribute. */
+const NOT_EL_NAMES = new Set(['out', 'page', 'this', 'super', 'new', 'class', 'instanceof']);
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '%', '?', ':', '(', ')', '.', ','];
+
+function tokenize(code: string): Token[] | undefined {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    const m =
+      /^"(?:[^"\\\n]|\\["\\])*"/.exec(rest) ?? /^\d+(?:\.\d+)?(?![\w.])/.exec(rest) ?? /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (m) {
+      tokens.push({ kind: m[0].startsWith('"') ? 'string' : /^\d/.test(m[0]) ? 'number' : 'word', text: m[0] });
+      i += m[0].length;
+      continue;
+    }
+    const op = OPERATORS.find((o) => rest.startsWith(o));
+    if (!op) {
+      // Casts, arrays, char literals, other escapes, comments, ...
+      return undefined;
+    }
+    tokens.push({ kind: 'op', text: op });
+    i += op.length;
+  }
+  return tokens;
+}
+
+/** EL string literal for a Java one: single-quoted, as it goes into double-quoted attributes. */
+function elString(javaLiteral: string): string {
+  const value = javaLiteral.slice(1, -1).replace(/\\(["\\])/g, '$1');
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+function isNumber(el: string): boolean {
+  return /^-?\d+(?:\.\d+)?$/.test(el);
+}
+
+/** `'x'` -> `.x`, or `['x-y']` when the name isn't an identifier. */
+function elProperty(javaLiteral: string): string {
+  const value = javaLiteral.slice(1, -1);
+  return /^[A-Za-z_$][\w$]*$/.test(value) ? `.${value}` : `[${elString(javaLiteral)}]`;
+}
+
+/**
+ * Recursive-descent translation of the Java expressions EL can express: literals, operators,
+ * `get`/`is` getter chains, `equals`, `isEmpty`, implicit objects, `request.getParameter(...)`
+ * and `<scope object>.getAttribute(...)`. Anything else fails the whole translation.
+ */
+class ElTranslator {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly isJavaVariable: (name: string) => boolean,
+  ) {}
+
+  translate(): string | undefined {
+    const el = this.ternary();
+    return el !== undefined && this.pos === this.tokens.length ? el : undefined;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek()?.kind !== 'string' && this.peek()?.text === text) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private ternary(): string | undefined {
+    const cond = this.binary(0);
+    if (cond === undefined || !this.accept('?')) {
+      return cond;
+    }
+    const a = this.ternary();
+    if (a === undefined || !this.accept(':')) {
+      return undefined;
+    }
+    const b = this.ternary();
+    return b === undefined ? undefined : `${cond} ? ${a} : ${b}`;
+  }
+
+  private static readonly LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '>', '<=', '>='], ['+', '-'], ['*', '/', '%']];
+
+  private binary(level: number): string | undefined {
+    if (level === ElTranslator.LEVELS.length) {
+      return this.unary();
+    }
+    let left = this.binary(level + 1);
+    for (;;) {
+      const op = ElTranslator.LEVELS[level]!.find((o) => this.peek()?.kind === 'op' && this.peek()?.text === o);
+      if (left === undefined || !op) {
+        return left;
+      }
+      this.pos++;
+      const right = this.binary(level + 1);
+      if (right === undefined) {
+        return undefined;
+      }
+      // Java `+` concatenates strings and `==` compares references, where EL adds numbers and compares
+      // values; `/` truncates integers in Java and divides as doubles in EL. Only null checks and number
+      // literals (decimal ones for `/`) mean the same in both.
+      const numbers = isNumber(left) && isNumber(right);
+      if (
+        (op === '+' && !numbers) ||
+        ((op === '==' || op === '!=') && left !== 'null' && right !== 'null' && !numbers) ||
+        (op === '/' && !(numbers && /\./.test(left + right)))
+      ) {
+        return undefined;
+      }
+      left = `${left} ${op} ${right}`;
+    }
+  }
+
+  private unary(): string | undefined {
+    const op = this.accept('!') ? '!' : this.accept('-') ? '-' : undefined;
+    if (!op) {
+      return this.primary();
+    }
+    const operand = this.unary();
+    // `equals` and `isEmpty` calls become `a == b` and `empty a`, which `!` must not split.
+    if (operand === undefined) {
+      return undefined;
+    }
+    return / /.test(operand) && !operand.startsWith('(') ? `${op}(${operand})` : `${op}${operand}`;
+  }
+
+  private primary(): string | undefined {
+    const t = this.peek();
+    if (!t) {
+      return undefined;
+    }
+    if (t.kind === 'string' || t.kind === 'number') {
+      this.pos++;
+      return this.postfix(t.kind === 'string' ? elString(t.text) : t.text, t.kind === 'string');
+    }
+    if (this.accept('(')) {
+      const inner = this.ternary();
+      return inner !== undefined && this.accept(')') ? this.postfix(`(${inner})`, false) : undefined;
+    }
+    if (t.kind !== 'word') {
+      return undefined;
+    }
+    this.pos++;
+    if (t.text === 'true' || t.text === 'false' || t.text === 'null') {
+      return t.text;
+    }
+
+    // request.getParameter("x") / session.getAttribute("x") / ...
+    const call = this.peek()?.text === '.' ? this.peek(1)?.text : undefined;
+    const arg = this.peek(3);
+    if (
+      call &&
+      this.peek(2)?.text === '(' &&
+      arg?.kind === 'string' &&
+      this.peek(4)?.text === ')' &&
+      ((t.text === 'request' && call === 'getParameter') || (call === 'getAttribute' && ATTRIBUTE_SCOPES[t.text]))
+    ) {
+      this.pos += 5;
+      return this.postfix(`${call === 'getParameter' ? 'param' : ATTRIBUTE_SCOPES[t.text]}${elProperty(arg.text)}`, false);
+    }
+
+    if (IMPLICIT_OBJECT_EL[t.text]) {
+      return this.postfix(IMPLICIT_OBJECT_EL[t.text]!, false);
+    }
+    // Page variables aren't visible to EL; other names are taken to be scoped attributes (such as
+    // `<jsp:useBean>` ids). Capitalized names are classes.
+    if (this.isJavaVariable(t.text) || NOT_EL_NAMES.has(t.text) || /^[A-Z]/.test(t.text)) {
+      return undefined;
+    }
+    return this.postfix(t.text, false);
+  }
+
+  /** Getter chains and `equals`/`isEmpty` calls on a value. */
+  private postfix(base: string, isStringLiteral: boolean): string | undefined {
+    let el = base;
+    while (this.peek()?.text === '.' && this.peek(1)?.kind === 'word' && this.peek(2)?.text === '(') {
+      const name = this.peek(1)!.text;
+      this.pos += 3;
+      if (this.accept(')')) {
+        const getter = /^(?:get|is)([A-Z]\w*)$/.exec(name);
+        if (name === 'isEmpty') {
+          el = `empty ${el}`;
+          // `empty` binds tighter than any operator, but nothing can follow it in a chain.
+          return this.peek()?.text === '.' ? undefined : el;
+        }
+        if (!getter || isStringLiteral) {
+          return undefined;
+        }
+        // JavaBeans decapitalization: `getName` -> `name`, but `getURL` -> `URL`.
+        const property = /^[A-Z]{2}/.test(getter[1]!) ? getter[1]! : getter[1]![0]!.toLowerCase() + getter[1]!.slice(1);
+        el = `${el}.${property}`;
+        continue;
+      }
+      if (name === 'equals') {
+        const other = this.ternary();
+        return other !== undefined && this.accept(')') ? `${el} == ${other}` : undefined;
+      }
+      return undefined;
+    }
+    // Field access, method references, ...
+    return this.peek()?.text === '.' ? undefined : el;
+  }
+}
+
+/** The EL (without `${}`) for a Java expression, or undefined when it can't be expressed in EL. */
+export function javaExpressionToEl(code: string, isJavaVariable: (name: string) => boolean = () => false): string | undefined {
+  const tokens = tokenize(code);
+  return tokens?.length ? new ElTranslator(tokens, isJavaVariable).translate() : undefined;
+}
+
+/** `<%@ page isELIgnored="true" %>`: `${...}` is written out as text. */
+function isElIgnored(jspText: string, javaRegions: readonly JavaRegion[]): boolean {
+  return javaRegions.some(
+    (r) =>
+      (r.kind === 'directive' || r.kind === 'directive-page-import') &&
+      /^\s*page\b[\s\S]*\bisELIgnored\s*=\s*(["'])\s*true\s*\1/i.test(
+        jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset),
+      ),
+  );
+}
+
+/** Braces of statement code, with string/char literals and comments left out. */
+function braceDelta(code: string): { opened: number; closed: number; minDepth: number } {
+  let depth = 0;
+  let minDepth = 0;
+  let opened = 0;
+  let closed = 0;
+  const stripped = code.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g, ' ');
+  for (const ch of stripped) {
+    if (ch === '{') {
+      depth++;
+      opened++;
+    } else if (ch === '}') {
+      depth--;
+      closed++;
+      minDepth = Math.min(minDepth, depth);
+    }
+  }
+  return { opened, closed, minDepth };
+}
+
+type SimpleIf = { open: JavaRegion; close: JavaRegion; condition: string };
+
+/**
+ * `<% if (cond) { %> ... <% } %>` where the scriptlets in between are balanced and the block has no
+ * `else`: the `if` scriptlet and the `}` scriptlet that closes it.
+ */
+function findSimpleIf(jspText: string, javaRegions: readonly JavaRegion[], index: number): SimpleIf | undefined {
+  const open = javaRegions[index]!;
+  const code = jspText.slice(open.jspContentStartOffset, open.jspContentEndOffset);
+  const m = /^\s*if\s*\(([\s\S]*)\)\s*\{\s*$/.exec(code);
+  if (open.kind !== 'scriptlet-statement' || !m) {
+    return undefined;
+  }
+
+  let depth = 0;
+  for (const r of javaRegions.slice(index + 1)) {
+    if (r.kind !== 'scriptlet-statement') {
+      continue;
+    }
+    const inner = jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset);
+    if (depth === 0 && /^\s*\}\s*$/.test(inner)) {
+      return { open, close: r, condition: m[1]! };
+    }
+    const delta = braceDelta(inner);
+    if (depth + delta.minDepth < 0) {
+      // `} else {` and the like.
+      return undefined;
+    }
+    depth += delta.opened - delta.closed;
+  }
+  return undefined;
+}
+
+/**
+ * Refactorings of the scriptlet at a range into EL/JSTL: `<%= expr %>` to `${...}` and a simple
+ * `<% if (cond) { %>...<% } %>` to `<c:if test="${...}">`, adding the JSTL core taglib directive
+ * when needed. Page variables (`analysis`) can't be seen from EL, so code using them isn't converted;
+ * without an analysis only implicit objects and literals are. Nothing is offered on fragments and
+ * pages with static includes, whose variables are declared in other files, nor where EL is ignored.
+ */
+export function getScriptletToElCodeActions(args: {
+  doc: TextDocument;
+  javaRegions: readonly JavaRegion[];
+  startOffset: number;
+  endOffset: number;
+  analysis: ScriptletSymbols | undefined;
+  flavor: ServletApiFlavor;
+}): CodeAction[] {
+  const { doc, javaRegions, startOffset, endOffset, analysis } = args;
+  const text = doc.getText();
+  if (sharesPageImports(doc.uri, text, javaRegions) || isElIgnored(text, javaRegions)) {
+    return [];
+  }
+  const isJavaVariable = (name: string) =>
+    !analysis || analysis.symbols.some((s) => s.name === name && s.kind !== 'method');
+  const range = (start: number, end: number) => ({ start: doc.positionAt(start), end: doc.positionAt(end) });
+  const actions: CodeAction[] = [];
+
+  const intersects = (r: JavaRegion) => r.jspStartOffset <= endOffset && r.jspEndOffset >= startOffset;
+
+  javaRegions.forEach((region, index) => {
+    if (region.kind === 'scriptlet-expression') {
+      const el = intersects(region)
+        ? javaExpressionToEl(text.slice(region.jspContentStartOffset, region.jspContentEndOffset), isJavaVariable)
+        : undefined;
+      if (el !== undefined) {
+        actions.push({
+          title: `Convert to EL: \${${el}}`,
+          kind: CodeActionKind.RefactorRewrite,
+          edit: { changes: { [doc.uri]: [{ range: range(region.jspStartOffset, region.jspEndOffset), newText: `\${${el}}` }] } },
+        });
+      }
+      return;
+    }
+
+    // Offered on either scriptlet of the block.
+    const simpleIf = findSimpleIf(text, javaRegions, index);
+    if (!simpleIf || (!intersects(simpleIf.open) && !intersects(simpleIf.close))) {
+      return;
+    }
+    const test = javaExpressionToEl(simpleIf.condition, isJavaVariable);
+    const taglib =
+      test !== undefined && !test.includes('"') ? jstlTaglibPrefix(doc, javaRegions, 'core', args.flavor) : undefined;
+    if (test === undefined || !taglib) {
+      return;
+    }
+    const edits: TextEdit[] = [
+      {
+        range: range(simpleIf.open.jspStartOffset, simpleIf.open.jspEndOffset),
+        newText: `<${taglib.prefix}:if test="\${${test}}">`,
+      },
+      { range: range(simpleIf.close.jspStartOffset, simpleIf.close.jspEndOffset), newText: `</${taglib.prefix}:if>` },
+    ];
+    if (taglib.edit) {
+      edits.unshift(taglib.edit);
+    }
+    actions.push({
+      title: `Convert to <${taglib.prefix}:if test="\${${test}}">`,
+      kind: CodeActionKind.RefactorRewrite,
+      edit: { changes: { [doc.uri]: edits } },
+    });
+  });
+  return actions;
+}
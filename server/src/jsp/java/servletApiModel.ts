@@ -0,0 +1,455 @@
+/**
+ * A bundled, offline model of the Servlet/JSP API types reachable from the JSP implicit objects.
+ *
+ * Covers the commonly used members only (no deprecated ones). Types are keyed by qualified name;
+ * names starting with `servlet.` are relative to the API flavor (`javax.servlet...` or
+ * `jakarta.servlet...`), the `java.*` ones are the same for both.
+ */
+
+export type ServletApiFlavor = 'javax' | 'jakarta';
+
+export type ApiParameter = {
+  type: string;
+  name: string;
+};
+
+export type ApiMethod = {
+  kind: 'method';
+  name: string;
+  returnType: string;
+  parameters: ApiParameter[];
+  isStatic: boolean;
+  doc: string;
+};
+
+export type ApiField = {
+  kind: 'field';
+  name: string;
+  type: string;
+  isStatic: boolean;
+  doc: string;
+};
+
+export type ApiMember = ApiMethod | ApiField;
+
+export type ApiType = {
+  /** Flavor-relative qualified name, e.g. `servlet.http.HttpSession`. */
+  name: string;
+  simpleName: string;
+  supertypes: string[];
+  doc: string;
+  members: ApiMember[];
+};
+
+type TypeSpec = {
+  name: string;
+  supertypes?: string[];
+  doc: string;
+  /** `[static] ReturnType name(ParamType param, ...) | doc` or `[static] Type NAME | doc`. */
+  members: string[];
+};
+
+const TYPE_SPECS: TypeSpec[] = [
+  {
+    name: 'java.lang.Object',
+    supertypes: [],
+    doc: 'The root of the Java class hierarchy.',
+    members: [
+      'boolean equals(Object obj) | Indicates whether some other object is "equal to" this one.',
+      'int hashCode() | Returns a hash code value for the object.',
+      'String toString() | Returns a string representation of the object.',
+      'Class<?> getClass() | Returns the runtime class of this object.',
+    ],
+  },
+  {
+    name: 'java.lang.String',
+    doc: 'An immutable sequence of characters.',
+    members: [
+      'int length() | Returns the length of this string.',
+      'boolean isEmpty() | Returns true if, and only if, `length()` is 0.',
+      'char charAt(int index) | Returns the char value at the specified index.',
+      'String substring(int beginIndex) | Returns the substring starting at `beginIndex`.',
+      'String substring(int beginIndex, int endIndex) | Returns the substring from `beginIndex` (inclusive) to `endIndex` (exclusive).',
+      'int indexOf(String str) | Returns the index of the first occurrence of `str`, or -1.',
+      'int lastIndexOf(String str) | Returns the index of the last occurrence of `str`, or -1.',
+      'boolean contains(CharSequence s) | Returns true if this string contains `s`.',
+      'boolean startsWith(String prefix) | Tests if this string starts with the specified prefix.',
+      'boolean endsWith(String suffix) | Tests if this string ends with the specified suffix.',
+      'boolean equalsIgnoreCase(String anotherString) | Compares this string to another, ignoring case.',
+      'String trim() | Returns this string with leading and trailing whitespace removed.',
+      'String toLowerCase() | Converts all characters to lower case using the default locale.',
+      'String toUpperCase() | Converts all characters to upper case using the default locale.',
+      'String replace(CharSequence target, CharSequence replacement) | Replaces each occurrence of `target` with `replacement`.',
+      'String[] split(String regex) | Splits this string around matches of the given regular expression.',
+      'boolean matches(String regex) | Tells whether this string matches the given regular expression.',
+      'String concat(String str) | Concatenates the specified string to the end of this string.',
+      'static String format(String format, Object... args) | Returns a formatted string using the specified format string and arguments.',
+      'static String valueOf(Object obj) | Returns the string representation of the argument (`"null"` for null).',
+    ],
+  },
+  {
+    name: 'java.lang.Throwable',
+    doc: 'The superclass of all errors and exceptions.',
+    members: [
+      'String getMessage() | Returns the detail message string of this throwable.',
+      'String getLocalizedMessage() | Returns a localized description of this throwable.',
+      'Throwable getCause() | Returns the cause of this throwable, or null if the cause is nonexistent or unknown.',
+      'void printStackTrace() | Prints this throwable and its backtrace to the standard error stream.',
+      'void printStackTrace(PrintWriter s) | Prints this throwable and its backtrace to the specified print writer.',
+      'StackTraceElement[] getStackTrace() | Returns the stack trace information.',
+    ],
+  },
+  {
+    name: 'java.io.Writer',
+    doc: 'Abstract class for writing to character streams.',
+    members: [
+      'void write(String str) | Writes a string.',
+      'void write(int c) | Writes a single character.',
+      'void write(char[] cbuf) | Writes an array of characters.',
+      'Writer append(CharSequence csq) | Appends the specified character sequence to this writer.',
+      'void flush() | Flushes the stream.',
+      'void close() | Closes the stream, flushing it first.',
+    ],
+  },
+  {
+    name: 'servlet.ServletRequest',
+    doc: 'Provides client request information to a servlet.',
+    members: [
+      'Object getAttribute(String name) | Returns the value of the named attribute, or null if no attribute of the given name exists.',
+      'Enumeration<String> getAttributeNames() | Returns the names of the attributes available to this request.',
+      'void setAttribute(String name, Object o) | Stores an attribute in this request.',
+      'void removeAttribute(String name) | Removes an attribute from this request.',
+      'String getParameter(String name) | Returns the value of a request parameter, or null if the parameter does not exist.',
+      'String[] getParameterValues(String name) | Returns all values of the given request parameter, or null if it does not exist.',
+      'Enumeration<String> getParameterNames() | Returns the names of the parameters contained in this request.',
+      'Map<String, String[]> getParameterMap() | Returns an immutable map of the parameters of this request.',
+      'String getCharacterEncoding() | Returns the name of the character encoding used in the body of this request.',
+      'void setCharacterEncoding(String env) | Overrides the name of the character encoding used in the body of this request.',
+      'int getContentLength() | Returns the length of the request body in bytes, or -1 if the length is not known.',
+      'String getContentType() | Returns the MIME type of the body of the request, or null if the type is not known.',
+      'ServletInputStream getInputStream() | Retrieves the body of the request as binary data.',
+      'BufferedReader getReader() | Retrieves the body of the request as character data.',
+      'String getProtocol() | Returns the name and version of the protocol the request uses, e.g. `HTTP/1.1`.',
+      'String getScheme() | Returns the name of the scheme used to make this request, e.g. `http` or `https`.',
+      'String getServerName() | Returns the host name of the server to which the request was sent.',
+      'int getServerPort() | Returns the port number to which the request was sent.',
+      'String getRemoteAddr() | Returns the IP address of the client or last proxy that sent the request.',
+      'String getRemoteHost() | Returns the fully qualified name of the client or the last proxy that sent the request.',
+      'Locale getLocale() | Returns the preferred locale of the client, based on the Accept-Language header.',
+      'boolean isSecure() | Returns whether this request was made using a secure channel, such as HTTPS.',
+      'RequestDispatcher getRequestDispatcher(String path) | Returns a RequestDispatcher for the resource at the given path.',
+      'ServletContext getServletContext() | Gets the servlet context to which this request was last dispatched.',
+      'DispatcherType getDispatcherType() | Gets the dispatcher type of this request (REQUEST, FORWARD, INCLUDE, ...).',
+    ],
+  },
+  {
+    name: 'servlet.http.HttpServletRequest',
+    supertypes: ['servlet.ServletRequest'],
+    doc: 'Extends ServletRequest to provide request information for HTTP servlets.',
+    members: [
+      'String getMethod() | Returns the name of the HTTP method with which this request was made, e.g. GET or POST.',
+      'String getHeader(String name) | Returns the value of the specified request header, or null.',
+      'Enumeration<String> getHeaders(String name) | Returns all the values of the specified request header.',
+      'Enumeration<String> getHeaderNames() | Returns all the header names this request contains.',
+      'int getIntHeader(String name) | Returns the value of the specified request header as an int, or -1.',
+      'long getDateHeader(String name) | Returns the value of the specified request header as a date (milliseconds since the epoch), or -1.',
+      'Cookie[] getCookies() | Returns the cookies the client sent with this request, or null if none were sent.',
+      'String getContextPath() | Returns the portion of the request URI that indicates the context of the request.',
+      'String getServletPath() | Returns the part of this request\'s URL that calls the servlet.',
+      'String getPathInfo() | Returns any extra path information after the servlet path, or null.',
+      'String getQueryString() | Returns the query string contained in the request URL after the path, or null.',
+      'String getRequestURI() | Returns the part of this request\'s URL from the protocol name up to the query string.',
+      'StringBuffer getRequestURL() | Reconstructs the URL the client used to make the request (without the query string).',
+      'HttpSession getSession() | Returns the current session, creating one if the request does not have a session.',
+      'HttpSession getSession(boolean create) | Returns the current session, or (if there is none) a new one when `create` is true, else null.',
+      'String changeSessionId() | Changes the session id of the current session and returns the new id.',
+      'String getRequestedSessionId() | Returns the session ID specified by the client.',
+      'boolean isRequestedSessionIdValid() | Checks whether the requested session ID is still valid.',
+      'String getAuthType() | Returns the name of the authentication scheme used to protect the servlet, or null.',
+      'String getRemoteUser() | Returns the login of the user making this request, or null if the user has not been authenticated.',
+      'boolean isUserInRole(String role) | Returns whether the authenticated user is included in the specified logical role.',
+      'Principal getUserPrincipal() | Returns the Principal of the authenticated user, or null.',
+      'void login(String username, String password) | Validates the provided username and password in the container login mechanism.',
+      'void logout() | Establishes null as the value returned for getUserPrincipal, getRemoteUser and getAuthType.',
+    ],
+  },
+  {
+    name: 'servlet.ServletResponse',
+    doc: 'Assists a servlet in sending a response to the client.',
+    members: [
+      'String getCharacterEncoding() | Returns the name of the character encoding used for the body of this response.',
+      'void setCharacterEncoding(String charset) | Sets the character encoding of the response being sent to the client.',
+      'String getContentType() | Returns the content type used for the MIME body sent in this response.',
+      'void setContentType(String type) | Sets the content type of the response being sent to the client.',
+      'void setContentLength(int len) | Sets the length of the content body in the response.',
+      'ServletOutputStream getOutputStream() | Returns a stream for writing binary data in the response (not usable from a JSP that already wrote output).',
+      'PrintWriter getWriter() | Returns a PrintWriter that can send character text to the client.',
+      'void setBufferSize(int size) | Sets the preferred buffer size for the body of the response.',
+      'int getBufferSize() | Returns the actual buffer size used for the response.',
+      'void flushBuffer() | Forces any content in the buffer to be written to the client.',
+      'void resetBuffer() | Clears the content of the underlying buffer without clearing headers or status code.',
+      'boolean isCommitted() | Returns whether the response has been committed.',
+      'void reset() | Clears any data in the buffer as well as the status code and headers.',
+      'void setLocale(Locale loc) | Sets the locale of the response.',
+      'Locale getLocale() | Returns the locale specified for this response.',
+    ],
+  },
+  {
+    name: 'servlet.http.HttpServletResponse',
+    supertypes: ['servlet.ServletResponse'],
+    doc: 'Extends ServletResponse to provide HTTP-specific functionality in sending a response.',
+    members: [
+      'void addCookie(Cookie cookie) | Adds the specified cookie to the response.',
+      'boolean containsHeader(String name) | Returns whether the named response header has already been set.',
+      'String encodeURL(String url) | Encodes the specified URL by including the session ID, if necessary.',
+      'String encodeRedirectURL(String url) | Encodes the specified URL for use in `sendRedirect`.',
+      'void sendError(int sc) | Sends an error response to the client using the specified status code and clears the buffer.',
+      'void sendError(int sc, String msg) | Sends an error response to the client using the specified status code and message.',
+      'void sendRedirect(String location) | Sends a temporary redirect response to the client using the specified location.',
+      'void setHeader(String name, String value) | Sets a response header with the given name and value.',
+      'void addHeader(String name, String value) | Adds a response header with the given name and value.',
+      'void setIntHeader(String name, int value) | Sets a response header with the given name and integer value.',
+      'void setDateHeader(String name, long date) | Sets a response header with the given name and date value.',
+      'void setStatus(int sc) | Sets the status code for this response.',
+      'int getStatus() | Gets the current status code of this response.',
+      'String getHeader(String name) | Gets the value of the response header with the given name.',
+      'static int SC_OK | Status code (200): the request succeeded normally.',
+      'static int SC_NO_CONTENT | Status code (204): the request succeeded but there was no new information to return.',
+      'static int SC_MOVED_PERMANENTLY | Status code (301): the resource has permanently moved.',
+      'static int SC_FOUND | Status code (302): the resource resides temporarily under a different URI.',
+      'static int SC_NOT_MODIFIED | Status code (304): a conditional GET found the resource unmodified.',
+      'static int SC_BAD_REQUEST | Status code (400): the request sent by the client was syntactically incorrect.',
+      'static int SC_UNAUTHORIZED | Status code (401): the request requires HTTP authentication.',
+      'static int SC_FORBIDDEN | Status code (403): the server understood the request but refused to fulfill it.',
+      'static int SC_NOT_FOUND | Status code (404): the requested resource is not available.',
+      'static int SC_INTERNAL_SERVER_ERROR | Status code (500): an error inside the server prevented it from fulfilling the request.',
+    ],
+  },
+  {
+    name: 'servlet.http.HttpSession',
+    doc: 'Identifies a user across more than one page request and stores information about that user.',
+    members: [
+      'Object getAttribute(String name) | Returns the object bound with the specified name in this session, or null.',
+      'Enumeration<String> getAttributeNames() | Returns the names of all the objects bound to this session.',
+      'void setAttribute(String name, Object value) | Binds an object to this session, using the name specified.',
+      'void removeAttribute(String name) | Removes the object bound with the specified name from this session.',
+      'String getId() | Returns the unique identifier assigned to this session.',
+      'long getCreationTime() | Returns the time when this session was created (milliseconds since the epoch).',
+      'long getLastAccessedTime() | Returns the last time the client sent a request associated with this session.',
+      'int getMaxInactiveInterval() | Returns the maximum time interval, in seconds, the session is kept open between client accesses.',
+      'void setMaxInactiveInterval(int interval) | Specifies the time, in seconds, between client requests before the session is invalidated.',
+      'void invalidate() | Invalidates this session then unbinds any objects bound to it.',
+      'boolean isNew() | Returns true if the client does not yet know about the session.',
+      'ServletContext getServletContext() | Returns the ServletContext to which this session belongs.',
+    ],
+  },
+  {
+    name: 'servlet.ServletContext',
+    doc: 'Defines methods a servlet uses to communicate with its servlet container (one per web application).',
+    members: [
+      'Object getAttribute(String name) | Returns the servlet container attribute with the given name, or null.',
+      'Enumeration<String> getAttributeNames() | Returns the names of the attributes available within this context.',
+      'void setAttribute(String name, Object object) | Binds an object to a given attribute name in this context.',
+      'void removeAttribute(String name) | Removes the attribute with the given name from this context.',
+      'String getInitParameter(String name) | Returns the value of the named context-wide initialization parameter, or null.',
+      'Enumeration<String> getInitParameterNames() | Returns the names of the context\'s initialization parameters.',
+      'String getContextPath() | Returns the context path of the web application.',
+      'String getRealPath(String path) | Returns the real filesystem path for the given virtual path, or null.',
+      'String getMimeType(String file) | Returns the MIME type of the specified file, or null.',
+      'URL getResource(String path) | Returns a URL to the resource mapped to the given path.',
+      'InputStream getResourceAsStream(String path) | Returns the resource located at the given path as an InputStream.',
+      'Set<String> getResourcePaths(String path) | Returns a directory-like listing of the resource paths under the given path.',
+      'RequestDispatcher getRequestDispatcher(String path) | Returns a RequestDispatcher for the resource located at the given path.',
+      'RequestDispatcher getNamedDispatcher(String name) | Returns a RequestDispatcher for the named servlet.',
+      'String getServerInfo() | Returns the name and version of the servlet container.',
+      'String getServletContextName() | Returns the display name of this web application.',
+      'int getMajorVersion() | Returns the major version of the Servlet API this container supports.',
+      'int getMinorVersion() | Returns the minor version of the Servlet API this container supports.',
+      'void log(String msg) | Writes the specified message to a servlet log file.',
+      'void log(String message, Throwable throwable) | Writes a message and a stack trace for the given Throwable to the servlet log file.',
+    ],
+  },
+  {
+    name: 'servlet.ServletConfig',
+    doc: 'A servlet configuration object used by a servlet container to pass information to a servlet during initialization.',
+    members: [
+      'String getServletName() | Returns the name of this servlet instance.',
+      'ServletContext getServletContext() | Returns a reference to the ServletContext.',
+      'String getInitParameter(String name) | Returns the value of the named initialization parameter, or null.',
+      'Enumeration<String> getInitParameterNames() | Returns the names of the servlet\'s initialization parameters.',
+    ],
+  },
+  {
+    name: 'servlet.RequestDispatcher',
+    doc: 'Receives requests from the client and sends them to any resource (servlet, JSP or HTML file) on the server.',
+    members: [
+      'void forward(ServletRequest request, ServletResponse response) | Forwards a request to another resource on the server.',
+      'void include(ServletRequest request, ServletResponse response) | Includes the content of a resource in the response.',
+    ],
+  },
+  {
+    name: 'servlet.http.Cookie',
+    doc: 'A small amount of information sent by a servlet to a Web browser and later sent back to the server.',
+    members: [
+      'String getName() | Returns the name of the cookie.',
+      'String getValue() | Gets the current value of this cookie.',
+      'void setValue(String newValue) | Assigns a new value to this cookie.',
+      'int getMaxAge() | Gets the maximum age of the cookie, in seconds (-1 means until browser shutdown).',
+      'void setMaxAge(int expiry) | Sets the maximum age of the cookie in seconds.',
+      'String getPath() | Returns the path on the server to which the browser returns this cookie.',
+      'void setPath(String uri) | Specifies a path for the cookie to which the client should return the cookie.',
+      'String getDomain() | Gets the domain name of this cookie.',
+      'void setDomain(String domain) | Specifies the domain within which this cookie should be presented.',
+      'boolean getSecure() | Returns whether the browser sends this cookie only over a secure protocol.',
+      'void setSecure(boolean flag) | Indicates whether the cookie should only be sent using a secure protocol.',
+      'boolean isHttpOnly() | Checks whether this cookie has been marked as HttpOnly.',
+      'void setHttpOnly(boolean httpOnly) | Marks or unmarks this cookie as HttpOnly.',
+    ],
+  },
+  {
+    name: 'servlet.jsp.JspContext',
+    doc: 'The base class for PageContext; abstracts the information that is not specific to servlets.',
+    members: [
+      'Object getAttribute(String name) | Returns the object associated with the name in the page scope, or null.',
+      'Object getAttribute(String name, int scope) | Returns the object associated with the name in the specified scope, or null.',
+      'void setAttribute(String name, Object value) | Registers the name and value specified with page scope semantics.',
+      'void setAttribute(String name, Object value, int scope) | Registers the name and value specified with appropriate scope semantics.',
+      'void removeAttribute(String name) | Removes the object reference associated with the given name from all scopes.',
+      'void removeAttribute(String name, int scope) | Removes the object reference associated with the specified name in the given scope.',
+      'Object findAttribute(String name) | Searches for the named attribute in page, request, session (if valid) and application scope(s) in order.',
+      'int getAttributesScope(String name) | Gets the scope where a given attribute is defined, or 0.',
+      'Enumeration<String> getAttributeNamesInScope(int scope) | Enumerates all the attributes in a given scope.',
+      'JspWriter getOut() | The current value of the out object (a JspWriter).',
+    ],
+  },
+  {
+    name: 'servlet.jsp.PageContext',
+    supertypes: ['servlet.jsp.JspContext'],
+    doc: 'Provides access to all the namespaces associated with a JSP page and to several page attributes.',
+    members: [
+      'Object getPage() | The current value of the page object (in a Servlet environment, this is the servlet instance).',
+      'ServletRequest getRequest() | The current value of the request object.',
+      'ServletResponse getResponse() | The current value of the response object.',
+      'HttpSession getSession() | The current value of the session object, or null if the page does not participate in a session.',
+      'ServletContext getServletContext() | The ServletContext instance.',
+      'ServletConfig getServletConfig() | The ServletConfig instance.',
+      'Exception getException() | The current value of the exception object (an Exception).',
+      'void forward(String relativeUrlPath) | Redirects, or "forwards", the current request and response to another active component.',
+      'void include(String relativeUrlPath) | Processes the specified resource as part of the current request and response.',
+      'void include(String relativeUrlPath, boolean flush) | Like `include(String)`, optionally flushing the current JspWriter first.',
+      'void handlePageException(Throwable t) | Processes an unhandled page-level exception by forwarding to the error page, if any.',
+      'static int PAGE_SCOPE | Page scope: (default) the reference is available in this PageContext until it returns.',
+      'static int REQUEST_SCOPE | Request scope: the reference is available from the ServletRequest associated with the servlet.',
+      'static int SESSION_SCOPE | Session scope (only valid if this page participates in a session).',
+      'static int APPLICATION_SCOPE | Application scope: named reference remains available in the ServletContext until it is reclaimed.',
+    ],
+  },
+  {
+    name: 'servlet.jsp.JspWriter',
+    supertypes: ['java.io.Writer'],
+    doc: 'Emulates some of the functionality found in BufferedWriter and PrintWriter; the type of the JSP `out` object.',
+    members: [
+      'void print(String s) | Prints a string.',
+      'void print(Object obj) | Prints an object (via `String.valueOf`).',
+      'void print(int i) | Prints an integer.',
+      'void print(long l) | Prints a long integer.',
+      'void print(double d) | Prints a double-precision floating-point number.',
+      'void print(boolean b) | Prints a boolean value.',
+      'void print(char c) | Prints a character.',
+      'void println() | Terminates the current line by writing the line separator string.',
+      'void println(String x) | Prints a string and then terminates the line.',
+      'void println(Object x) | Prints an object and then terminates the line.',
+      'void println(int x) | Prints an integer and then terminates the line.',
+      'void println(long x) | Prints a long integer and then terminates the line.',
+      'void println(double x) | Prints a double-precision floating-point number and then terminates the line.',
+      'void println(boolean x) | Prints a boolean value and then terminates the line.',
+      'void println(char x) | Prints a character and then terminates the line.',
+      'void newLine() | Writes a line separator.',
+      'void clear() | Clears the contents of the buffer (throws if the buffer has already been flushed).',
+      'void clearBuffer() | Clears the current contents of the buffer without throwing if it has been flushed.',
+      'int getBufferSize() | Returns the size of the buffer in bytes, or 0 if unbuffered.',
+      'int getRemaining() | Returns the number of unused bytes in the buffer.',
+      'boolean isAutoFlush() | Returns whether the JspWriter is autoFlushing.',
+    ],
+  },
+];
+
+function parseParameters(text: string): ApiParameter[] {
+  if (!text.trim()) {
+    return [];
+  }
+  return text.split(/,(?![^<]*>)/).map((p) => {
+    const trimmed = p.trim();
+    const space = trimmed.lastIndexOf(' ');
+    return { type: trimmed.slice(0, space), name: trimmed.slice(space + 1) };
+  });
+}
+
+function parseMember(spec: string): ApiMember {
+  const bar = spec.indexOf(' | ');
+  const signature = spec.slice(0, bar).trim();
+  const doc = spec.slice(bar + 3).trim();
+
+  const m = /^(static\s+)?(.+?)\s+([A-Za-z_$][\w$]*)(?:\((.*)\))?$/.exec(signature);
+  if (!m) {
+    throw new Error(`Invalid API member spec: ${spec}`);
+  }
+  const isStatic = !!m[1];
+  if (m[4] === undefined) {
+    return { kind: 'field', name: m[3]!, type: m[2]!, isStatic, doc };
+  }
+  return { kind: 'method', name: m[3]!, returnType: m[2]!, parameters: parseParameters(m[4]), isStatic, doc };
+}
+
+const TYPES = new Map<string, ApiType>(
+  TYPE_SPECS.map((spec) => [
+    spec.name,
+    {
+      name: spec.name,
+      simpleName: spec.name.slice(spec.name.lastIndexOf('.') + 1),
+      supertypes: spec.supertypes ?? ['java.lang.Object'],
+      doc: spec.doc,
+      members: spec.members.map(parseMember),
+    },
+  ]),
+);
+
+const TYPES_BY_SIMPLE_NAME = new Map([...TYPES.values()].map((t) => [t.simpleName, t]));
+
+/** Looks a type up by (flavor-relative) qualified or simple name; generics and arrays don't resolve. */
+export function getApiType(name: string): ApiType | undefined {
+  return TYPES.get(name) ?? TYPES_BY_SIMPLE_NAME.get(name);
+}
+
+/** Members of a type and its supertypes; a subtype's members come first. */
+export function getApiMembers(type: ApiType): ApiMember[] {
+  const out: ApiMember[] = [];
+  const seen = new Set<string>();
+  const visit = (t: ApiType): void => {
+    if (seen.has(t.name)) {
+      return;
+    }
+    seen.add(t.name);
+    out.push(...t.members);
+    for (const s of t.supertypes) {
+      const st = TYPES.get(s);
+      if (st) visit(st);
+    }
+  };
+  visit(type);
+  return out;
+}
+
+/** Fully qualified name of a model type for a flavor (`servlet.http.HttpSession` -> `jakarta.servlet.http.HttpSession`). */
+export function qualifiedApiTypeName(type: ApiType, flavor: ServletApiFlavor): string {
+  return type.name.startsWith('servlet.') ? `${flavor}.${type.name}` : type.name;
+}
+
+export function formatApiMember(member: ApiMember): string {
+  const mods = member.isStatic ? 'static ' : '';
+  if (member.kind === 'field') {
+    return `${mods}${member.type} ${member.name}`;
+  }
+  const params = member.parameters.map((p) => `${p.type} ${p.name}`).join(', ');
+  return `${mods}${member.returnType} ${member.name}(${params})`;
+}
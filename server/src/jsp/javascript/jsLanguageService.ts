@@ -0,0 +1,245 @@
+import * as ts from 'typescript';
+import {
+  type CompletionItem,
+  CompletionItemKind,
+  type CompletionList,
+  type Diagnostic,
+  DiagnosticSeverity,
+  type Hover,
+  MarkupKind,
+  type Position,
+  type Range,
+  type SignatureHelp,
+  type SignatureInformation,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+export type JsLanguageService = {
+  doComplete(jsDocument: TextDocument, position: Position): CompletionList;
+  doHover(jsDocument: TextDocument, position: Position): Hover | null;
+  doSignatureHelp(jsDocument: TextDocument, position: Position): SignatureHelp | null;
+  doValidation(jsDocument: TextDocument): Diagnostic[];
+};
+
+/** Virtual file name for the embedded script currently being analyzed. */
+const CURRENT_FILE = 'jsp-embedded.js';
+
+/** Scripts whose syntax diagnostics are kept, least recently validated dropped first. */
+const MAX_VALIDATED_SCRIPTS = 500;
+
+const compilerOptions: ts.CompilerOptions = {
+  allowJs: true,
+  checkJs: false,
+  allowNonTsExtensions: true,
+  noEmit: true,
+  // The default lib for ES2020 (`lib.es2020.full.d.ts`) includes the DOM typings.
+  target: ts.ScriptTarget.ES2020,
+};
+
+function toCompletionItemKind(kind: string): CompletionItemKind {
+  switch (kind) {
+    case ts.ScriptElementKind.primitiveType:
+    case ts.ScriptElementKind.keyword:
+      return CompletionItemKind.Keyword;
+    case ts.ScriptElementKind.constElement:
+    case ts.ScriptElementKind.letElement:
+    case ts.ScriptElementKind.variableElement:
+    case ts.ScriptElementKind.localVariableElement:
+    case ts.ScriptElementKind.alias:
+    case ts.ScriptElementKind.parameterElement:
+      return CompletionItemKind.Variable;
+    case ts.ScriptElementKind.memberVariableElement:
+    case ts.ScriptElementKind.memberGetAccessorElement:
+    case ts.ScriptElementKind.memberSetAccessorElement:
+      return CompletionItemKind.Field;
+    case ts.ScriptElementKind.functionElement:
+    case ts.ScriptElementKind.localFunctionElement:
+      return CompletionItemKind.Function;
+    case ts.ScriptElementKind.memberFunctionElement:
+    case ts.ScriptElementKind.constructSignatureElement:
+    case ts.ScriptElementKind.callSignatureElement:
+    case ts.ScriptElementKind.indexSignatureElement:
+      return CompletionItemKind.Method;
+    case ts.ScriptElementKind.enumElement:
+      return CompletionItemKind.Enum;
+    case ts.ScriptElementKind.moduleElement:
+    case ts.ScriptElementKind.externalModuleName:
+      return CompletionItemKind.Module;
+    case ts.ScriptElementKind.classElement:
+    case ts.ScriptElementKind.typeElement:
+      return CompletionItemKind.Class;
+    case ts.ScriptElementKind.interfaceElement:
+      return CompletionItemKind.Interface;
+    case ts.ScriptElementKind.warning:
+    case ts.ScriptElementKind.scriptElement:
+      return CompletionItemKind.File;
+    case ts.ScriptElementKind.directory:
+      return CompletionItemKind.Folder;
+    case ts.ScriptElementKind.string:
+      return CompletionItemKind.Constant;
+    default:
+      return CompletionItemKind.Property;
+  }
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return !!ch && /[\w$]/.test(ch);
+}
+
+function getWordRange(jsDocument: TextDocument, offset: number): Range {
+  const text = jsDocument.getText();
+  let start = offset;
+  while (start > 0 && isIdentifierChar(text[start - 1])) {
+    start--;
+  }
+  return { start: jsDocument.positionAt(start), end: jsDocument.positionAt(offset) };
+}
+
+function spanToRange(jsDocument: TextDocument, span: ts.TextSpan): Range {
+  return {
+    start: jsDocument.positionAt(span.start),
+    end: jsDocument.positionAt(span.start + span.length),
+  };
+}
+
+/**
+ * Creates a TypeScript-backed language service for embedded JavaScript.
+ *
+ * Like the HTML language server's JavaScript mode, the service analyzes one document at a time:
+ * every call swaps the document into a single virtual file. Default lib files are read from the
+ * `typescript` package and cached for the lifetime of the service. Syntax diagnostics are cached by
+ * script text, so scripts a page edit didn't touch aren't parsed again.
+ */
+export function getJavaScriptLanguageService(): JsLanguageService {
+  let currentText = '';
+  let currentVersion = 0;
+  const libSnapshots = new Map<string, ts.IScriptSnapshot | undefined>();
+  const syntaxDiagnostics = new Map<string, ts.DiagnosticWithLocation[]>();
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [CURRENT_FILE],
+    getScriptKind: () => ts.ScriptKind.JS,
+    getScriptVersion: (fileName) => (fileName === CURRENT_FILE ? String(currentVersion) : '1'),
+    getScriptSnapshot: (fileName) => {
+      if (fileName === CURRENT_FILE) {
+        return ts.ScriptSnapshot.fromString(currentText);
+      }
+      if (!libSnapshots.has(fileName)) {
+        const content = ts.sys.readFile(fileName);
+        libSnapshots.set(fileName, content == null ? undefined : ts.ScriptSnapshot.fromString(content));
+      }
+      return libSnapshots.get(fileName);
+    },
+    getCurrentDirectory: () => '',
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (fileName) => fileName === CURRENT_FILE || ts.sys.fileExists(fileName),
+    readFile: (fileName) => (fileName === CURRENT_FILE ? currentText : ts.sys.readFile(fileName)),
+  };
+
+  let service: ts.LanguageService | undefined;
+
+  function useDocument(jsDocument: TextDocument): ts.LanguageService {
+    const text = jsDocument.getText();
+    if (text !== currentText) {
+      currentText = text;
+      currentVersion++;
+    }
+    service ??= ts.createLanguageService(host);
+    return service;
+  }
+
+  return {
+    doComplete(jsDocument, position) {
+      const ls = useDocument(jsDocument);
+      const offset = jsDocument.offsetAt(position);
+      const completions = ls.getCompletionsAtPosition(CURRENT_FILE, offset, {
+        includeCompletionsWithInsertText: true,
+      });
+      if (!completions) {
+        return { isIncomplete: false, items: [] };
+      }
+
+      const wordRange = getWordRange(jsDocument, offset);
+      const items: CompletionItem[] = completions.entries.map((entry) => ({
+        label: entry.name,
+        kind: toCompletionItemKind(entry.kind),
+        sortText: entry.sortText,
+        textEdit: {
+          range: entry.replacementSpan ? spanToRange(jsDocument, entry.replacementSpan) : wordRange,
+          newText: entry.insertText ?? entry.name,
+        },
+      }));
+
+      return { isIncomplete: false, items };
+    },
+
+    doHover(jsDocument, position) {
+      const ls = useDocument(jsDocument);
+      const info = ls.getQuickInfoAtPosition(CURRENT_FILE, jsDocument.offsetAt(position));
+      if (!info) {
+        return null;
+      }
+
+      const signature = ts.displayPartsToString(info.displayParts);
+      const documentation = ts.displayPartsToString(info.documentation);
+      const value = ['```js', signature, '```', documentation ? `\n${documentation}` : ''].join('\n').trimEnd();
+
+      return {
+        contents: { kind: MarkupKind.Markdown, value },
+        range: spanToRange(jsDocument, info.textSpan),
+      };
+    },
+
+    doSignatureHelp(jsDocument, position) {
+      const ls = useDocument(jsDocument);
+      const help = ls.getSignatureHelpItems(CURRENT_FILE, jsDocument.offsetAt(position), undefined);
+      if (!help) {
+        return null;
+      }
+
+      const signatures: SignatureInformation[] = help.items.map((item) => {
+        const separator = ts.displayPartsToString(item.separatorDisplayParts);
+        const parameters = item.parameters.map((p) => ({
+          label: ts.displayPartsToString(p.displayParts),
+          documentation: ts.displayPartsToString(p.documentation) || undefined,
+        }));
+        const label = [
+          ts.displayPartsToString(item.prefixDisplayParts),
+          parameters.map((p) => p.label).join(separator),
+          ts.displayPartsToString(item.suffixDisplayParts),
+        ].join('');
+
+        return {
+          label,
+          documentation: ts.displayPartsToString(item.documentation) || undefined,
+          parameters,
+        };
+      });
+
+      return {
+        signatures,
+        activeSignature: help.selectedItemIndex,
+        activeParameter: help.argumentIndex,
+      };
+    },
+
+    doValidation(jsDocument) {
+      const text = jsDocument.getText();
+      // Syntax only: without type information about the server-side page, semantic
+      // diagnostics would mostly be noise.
+      const diagnostics = syntaxDiagnostics.get(text) ?? useDocument(jsDocument).getSyntacticDiagnostics(CURRENT_FILE);
+      syntaxDiagnostics.delete(text);
+      syntaxDiagnostics.set(text, diagnostics);
+      if (syntaxDiagnostics.size > MAX_VALIDATED_SCRIPTS) {
+        syntaxDiagnostics.delete(syntaxDiagnostics.keys().next().value!);
+      }
+      return diagnostics.map((d) => ({
+        message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+        severity: DiagnosticSeverity.Error,
+        range: spanToRange(jsDocument, { start: d.start ?? 0, length: d.length ?? 0 }),
+        source: 'jsp-lang(js)',
+      }));
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export type JspImplicitObject = {
+  name: string;
+  detail: string;
+  /** Type in the bundled Servlet/JSP API model (see `java/servletApiModel.ts`). */
+  type: string;
+};
+
+/** Implicit objects available inside `<% ... %>` and `<%= ... %>` (not in `<%! ... %>` declarations). */
+export const JSP_IMPLICIT_OBJECTS: JspImplicitObject[] = [
+  { name: 'request', detail: 'JSP implicit object (HttpServletRequest)', type: 'servlet.http.HttpServletRequest' },
+  { name: 'response', detail: 'JSP implicit object (HttpServletResponse)', type: 'servlet.http.HttpServletResponse' },
+  { name: 'session', detail: 'JSP implicit object (HttpSession)', type: 'servlet.http.HttpSession' },
+  { name: 'pageContext', detail: 'JSP implicit object (PageContext)', type: 'servlet.jsp.PageContext' },
+  { name: 'application', detail: 'JSP implicit object (ServletContext)', type: 'servlet.ServletContext' },
+  { name: 'out', detail: 'JSP implicit object (JspWriter)', type: 'servlet.jsp.JspWriter' },
+  { name: 'config', detail: 'JSP implicit object (ServletConfig)', type: 'servlet.ServletConfig' },
+  { name: 'page', detail: 'JSP implicit object (Object)', type: 'java.lang.Object' },
+  { name: 'exception', detail: 'JSP implicit object (Throwable; error pages only)', type: 'java.lang.Throwable' },
+];
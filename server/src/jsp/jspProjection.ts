@@ -0,0 +1,201 @@
+import { elRegionFromSpan, type ElRegion } from './elSupport';
+import { collectPageImports, javaRegionFromSpan, type JavaRegion } from './extractJavaRegions';
+import { findNextJspSpan, scanJspSpans, type JspSpan } from './jspSpans';
+import { projectJspText } from './maskToHtml';
+
+/**
+ * Everything derived from the JSP constructs of a document: the same-length HTML projection and
+ * the Java / EL region lists. Built once with `createJspProjection`, then kept current with
+ * `updateJspProjection` as edits arrive.
+ */
+export type JspProjection = {
+  jspText: string;
+  projectedText: string;
+  spans: JspSpan[];
+  javaRegions: JavaRegion[];
+  pageImports: string[];
+  elRegions: ElRegion[];
+};
+
+/** A text replacement in offsets of the text it applies to. */
+export type JspTextEdit = {
+  startOffset: number;
+  endOffset: number;
+  text: string;
+};
+
+/** Tokens are at most 4 characters long (`<%--`, `--%>`), so this much context is rescanned. */
+const TOKEN_CONTEXT = 4;
+
+function deriveRegions(jspText: string, spans: readonly JspSpan[]): Pick<JspProjection, 'javaRegions' | 'elRegions'> {
+  const javaRegions: JavaRegion[] = [];
+  const elRegions: ElRegion[] = [];
+  for (const span of spans) {
+    if (span.kind === 'code') {
+      javaRegions.push(javaRegionFromSpan(jspText, span));
+    } else if (span.kind === 'el') {
+      elRegions.push(elRegionFromSpan(span));
+    }
+  }
+  return { javaRegions, elRegions };
+}
+
+export function createJspProjection(jspText: string): JspProjection {
+  const spans = scanJspSpans(jspText);
+  const { javaRegions, elRegions } = deriveRegions(jspText, spans);
+  return {
+    jspText,
+    projectedText: projectJspText(jspText, spans),
+    spans,
+    javaRegions,
+    pageImports: collectPageImports(javaRegions),
+    elRegions,
+  };
+}
+
+/** Index of the first item starting at or after `offset`, in a list sorted by start. */
+function firstAtOrAfter<T>(items: readonly T[], offset: number, startOf: (item: T) => number): number {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (startOf(items[mid]!) < offset) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function firstSpanAtOrAfter(spans: readonly JspSpan[], offset: number): number {
+  return firstAtOrAfter(spans, offset, (span) => span.start);
+}
+
+/**
+ * Regions before `from`, then `window`, then the regions from `resyncOld` on shifted by `delta`.
+ * Also returns the old regions that `window` replaces.
+ */
+function spliceRegions<T extends { jspStartOffset: number }>(
+  regions: readonly T[],
+  from: number,
+  window: readonly T[],
+  resyncOld: number,
+  shift: (region: T) => T,
+): { regions: T[]; replaced: T[] } {
+  const startOf = (region: T) => region.jspStartOffset;
+  const headEnd = firstAtOrAfter(regions, from, startOf);
+  const tailStart = resyncOld === -1 ? regions.length : firstAtOrAfter(regions, resyncOld, startOf);
+  return {
+    regions: [...regions.slice(0, headEnd), ...window, ...regions.slice(tailStart).map(shift)],
+    replaced: regions.slice(headEnd, tailStart),
+  };
+}
+
+/** The span strictly containing `offset` (`start < offset < endExclusive`), if any. */
+function spanContaining(spans: readonly JspSpan[], offset: number): JspSpan | undefined {
+  const idx = firstSpanAtOrAfter(spans, offset) - 1;
+  const span = spans[idx];
+  return span && span.endExclusive > offset ? span : undefined;
+}
+
+function shiftSpan(span: JspSpan, delta: number): JspSpan {
+  return { ...span, start: span.start + delta, endExclusive: span.endExclusive + delta };
+}
+
+function shiftJavaRegion(region: JavaRegion, delta: number): JavaRegion {
+  return {
+    ...region,
+    jspStartOffset: region.jspStartOffset + delta,
+    jspEndOffset: region.jspEndOffset + delta,
+    jspContentStartOffset: region.jspContentStartOffset + delta,
+    jspContentEndOffset: region.jspContentEndOffset + delta,
+  };
+}
+
+function shiftElRegion(region: ElRegion, delta: number): ElRegion {
+  return {
+    jspStartOffset: region.jspStartOffset + delta,
+    jspEndOffset: region.jspEndOffset + delta,
+    jspContentStartOffset: region.jspContentStartOffset + delta,
+    jspContentEndOffset: region.jspContentEndOffset + delta,
+  };
+}
+
+/**
+ * Applies one edit, rescanning only the constructs around it.
+ *
+ * Scanning restarts at a point before the edit that is outside every construct (and before any
+ * construct whose end depends on later text), and stops as soon as it reaches a point after the
+ * edit that is outside constructs in both the old and the new text. From there on the text is
+ * unchanged, so the old spans (and regions, and projection) are reused, shifted by the length
+ * difference.
+ */
+export function updateJspProjection(projection: JspProjection, edit: JspTextEdit): JspProjection {
+  const old = projection;
+  const { startOffset, endOffset, text } = edit;
+  const jspText = old.jspText.slice(0, startOffset) + text + old.jspText.slice(endOffset);
+  const delta = text.length - (endOffset - startOffset);
+  const newEnd = startOffset + text.length;
+
+  // 1) Restart point.
+  let from = Math.max(0, startOffset - TOKEN_CONTEXT);
+  const containing = spanContaining(old.spans, from);
+  if (containing) {
+    from = containing.start;
+  }
+  for (const span of old.spans) {
+    if (span.start >= from) break;
+    if (!span.closed) {
+      from = span.start;
+      break;
+    }
+  }
+  const keep = firstSpanAtOrAfter(old.spans, from);
+
+  // 2) Rescan until old and new agree again.
+  const rescanned: JspSpan[] = [];
+  let pos = from;
+  let resyncOld = -1;
+  while (true) {
+    const next = findNextJspSpan(jspText, pos);
+    const limit = next ? next.start : jspText.length;
+
+    // The resync point must be past the edit by one character (EL escapes look one back).
+    let p = Math.max(pos, newEnd + 1);
+    for (let inside = spanContaining(old.spans, p - delta); inside; inside = spanContaining(old.spans, p - delta)) {
+      p = inside.endExclusive + delta;
+    }
+    if (p <= limit && p - delta <= old.jspText.length) {
+      resyncOld = p - delta;
+      break;
+    }
+    if (!next) {
+      break;
+    }
+    rescanned.push(next);
+    pos = Math.max(next.start + 2, next.endExclusive);
+  }
+
+  const resyncNew = resyncOld === -1 ? jspText.length : resyncOld + delta;
+  const tail = resyncOld === -1 ? [] : old.spans.slice(firstSpanAtOrAfter(old.spans, resyncOld));
+
+  const spans = [...old.spans.slice(0, keep), ...rescanned, ...tail.map((s) => shiftSpan(s, delta))];
+
+  const projectedText =
+    old.projectedText.slice(0, from) +
+    projectJspText(jspText, rescanned, from, resyncNew) +
+    (resyncOld === -1 ? '' : old.projectedText.slice(resyncOld));
+
+  // Regions: reuse the ones before `from` and after the resync point.
+  const window = deriveRegions(jspText, rescanned);
+  const java = spliceRegions(old.javaRegions, from, window.javaRegions, resyncOld, (r) => shiftJavaRegion(r, delta));
+  const el = spliceRegions(old.elRegions, from, window.elRegions, resyncOld, (r) => shiftElRegion(r, delta));
+  const importsChanged = [...java.replaced, ...window.javaRegions].some((r) => r.imports?.length);
+
+  return {
+    jspText,
+    projectedText,
+    spans,
+    javaRegions: java.regions,
+    pageImports: importsChanged ? collectPageImports(java.regions) : old.pageImports,
+    elRegions: el.regions,
+  };
+}
@@ -0,0 +1,104 @@
+export type JspSpanKind =
+  /** `<%-- ... --%>` */
+  | 'comment'
+  /** `<% %>`, `<%= %>`, `<%! %>`, `<%@ %>` */
+  | 'code'
+  /** `${...}` / `#{...}` */
+  | 'el';
+
+/** A JSP construct in the source (delimiters included). Everything between spans is template text. */
+export type JspSpan = {
+  kind: JspSpanKind;
+  start: number;
+  endExclusive: number;
+  /**
+   * False when the construct has no proper end (runs to the end of the document, or an EL
+   * expression that only ends via the first-`}` fallback). Its extent then depends on all of
+   * the text after it.
+   */
+  closed: boolean;
+};
+
+/**
+ * End of the EL expression starting at `start`. String literals (`'}'`, `"}"`, with backslash
+ * escapes) and nested braces (EL 3 map/set literals) don't end the expression. If it never
+ * closes properly, falls back to the first `}`, then to the end.
+ */
+function findElExpressionEnd(source: string, start: number): { endExclusive: number; closed: boolean } {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = start + 2; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      if (depth === 0) {
+        return { endExclusive: i + 1, closed: true };
+      }
+      depth--;
+    }
+  }
+
+  const brace = source.indexOf('}', start + 2);
+  return { endExclusive: brace === -1 ? source.length : brace + 1, closed: false };
+}
+
+/**
+ * The next JSP construct starting at or after `fromIndex`, which must be outside any construct.
+ *
+ * Mirrors how the JSP compiler reads template text: `<%` starts a scripting element or comment
+ * that runs to the first `%>` / `--%>` (no nesting), and an unescaped `${` / `#{` starts an EL
+ * expression (`\${` is literal text). Inside a construct nothing else is recognized, so EL in
+ * scriptlets and comments is not EL.
+ */
+export function findNextJspSpan(source: string, fromIndex: number): JspSpan | undefined {
+  const re = /<%|[$#]\{/g;
+  re.lastIndex = fromIndex;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source))) {
+    const start = m.index;
+
+    if (m[0] === '<%') {
+      const isComment = source.startsWith('<%--', start);
+      const terminator = isComment ? '--%>' : '%>';
+      const end = source.indexOf(terminator, start + (isComment ? 4 : 2));
+      return {
+        kind: isComment ? 'comment' : 'code',
+        start,
+        endExclusive: end === -1 ? source.length : end + terminator.length,
+        closed: end !== -1,
+      };
+    }
+
+    if (source[start - 1] === '\\') {
+      continue;
+    }
+    return { kind: 'el', start, ...findElExpressionEnd(source, start) };
+  }
+  return undefined;
+}
+
+/** All JSP constructs of a document, in order. */
+export function scanJspSpans(source: string): JspSpan[] {
+  const spans: JspSpan[] = [];
+  let i = 0;
+  while (true) {
+    const span = findNextJspSpan(source, i);
+    if (!span) {
+      break;
+    }
+    spans.push(span);
+    i = Math.max(span.start + 2, span.endExclusive);
+  }
+  return spans;
+}
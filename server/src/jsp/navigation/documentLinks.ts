@@ -0,0 +1,137 @@
+import { JSTL_CORE_URIS } from '../taglibs/jstl';
+import { parseTaglibDirectives } from '../taglibs/parseTaglibDirectives';
+import { findTagEnd, findTagPairs } from '../taglibs/startTagContext';
+
+export type DocumentLinkCandidateKind =
+  /** `<%@ include file>`, `<jsp:include page>`, `<jsp:forward page>`, `<c:import url>` */
+  | 'include'
+  /** `<%@ taglib uri>` */
+  | 'taglib-uri'
+  /** Static `href` / `src` attributes. */
+  | 'resource';
+
+export type DocumentLinkCandidate = {
+  kind: DocumentLinkCandidateKind;
+  value: string;
+  startOffset: number;
+  endOffset: number;
+};
+
+/** Values built from EL or scriptlets can't be resolved statically. */
+function isDynamicValue(value: string): boolean {
+  return value.includes('${') || value.includes('#{') || value.includes('<%');
+}
+
+function attrValueRe(names: string): RegExp {
+  return new RegExp(`(?:^|\\s)(${names})\\s*=\\s*("([^"]*)"|'([^']*)')`, 'gi');
+}
+
+/** Candidate for the (quoted) value of an attribute match produced by `attrValueRe`. */
+function candidateFromMatch(
+  kind: DocumentLinkCandidateKind,
+  m: RegExpExecArray,
+  baseOffset: number,
+  jspText: string,
+): DocumentLinkCandidate | undefined {
+  const quoted = m[2]!;
+  const valueStart = baseOffset + m.index + m[0].length - quoted.length + 1;
+  const valueEnd = valueStart + quoted.length - 2;
+
+  // Read the value from the JSP text: the projection masks EL/scriptlets to spaces.
+  const raw = jspText.slice(valueStart, valueEnd);
+  const value = raw.trim();
+  if (!value || isDynamicValue(raw)) {
+    return undefined;
+  }
+
+  const startOffset = valueStart + raw.indexOf(value);
+  return { kind, value, startOffset, endOffset: startOffset + value.length };
+}
+
+function collectDirectiveCandidates(jspText: string): DocumentLinkCandidate[] {
+  const out: DocumentLinkCandidate[] = [];
+
+  const includeRe = /<%@\s*include\b([\s\S]*?)%>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = includeRe.exec(jspText))) {
+    const bodyStart = m.index + m[0].indexOf(m[1]!);
+    const fm = attrValueRe('file').exec(m[1]!);
+    const c = fm && candidateFromMatch('include', fm, bodyStart, jspText);
+    if (c) {
+      out.push(c);
+    }
+  }
+
+  for (const d of parseTaglibDirectives(jspText)) {
+    const body = jspText.slice(d.startOffset, d.endOffset);
+    const um = attrValueRe('uri').exec(body);
+    const c = um && candidateFromMatch('taglib-uri', um, d.startOffset, jspText);
+    if (c) {
+      out.push(c);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Collects link candidates for a JSP document (values only; resolution happens in the server):
+ * - `<%@ include file="..." %>`, `<jsp:include page>`, `<jsp:forward page>`, `<c:import url>`
+ * - `<%@ taglib uri="..." %>`
+ * - static `href` / `src` attributes on any tag
+ *
+ * Tags are found on the projected HTML, so markup inside scriptlets, JSP comments and `<script>`
+ * bodies is ignored. Values containing EL or scriptlets are skipped.
+ */
+export function findDocumentLinkCandidates(jspText: string, projectedText: string): DocumentLinkCandidate[] {
+  const out = collectDirectiveCandidates(jspText);
+
+  const corePrefixes = new Set(
+    parseTaglibDirectives(jspText)
+      .filter((d) => JSTL_CORE_URIS.has(d.uri))
+      .map((d) => d.prefix),
+  );
+
+  for (const pair of findTagPairs(projectedText)) {
+    const name = pair.name;
+    const colon = name.indexOf(':');
+    const prefix = colon === -1 ? '' : name.slice(0, colon);
+    const localName = colon === -1 ? name : name.slice(colon + 1);
+
+    let includeAttr: string | undefined;
+    if (prefix === 'jsp' && (localName === 'include' || localName === 'forward')) {
+      includeAttr = 'page';
+    } else if (corePrefixes.has(prefix) && localName === 'import') {
+      includeAttr = 'url';
+    }
+
+    const attrStart = pair.open.endOffset;
+    const attrText = projectedText.slice(attrStart, findTagEnd(projectedText, attrStart));
+
+    const re = attrValueRe(includeAttr ? `${includeAttr}|href|src` : 'href|src');
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(attrText))) {
+      const kind = includeAttr && m[1]!.toLowerCase() === includeAttr ? 'include' : 'resource';
+      const c = candidateFromMatch(kind, m, attrStart, jspText);
+      if (c) {
+        out.push(c);
+      }
+    }
+  }
+
+  return out.sort((a, b) => a.startOffset - b.startOffset);
+}
+
+/** `http(s)://` URLs are linked as-is. */
+export function isWebUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/** Strips `?query` and `#fragment` from a resource path; returns undefined for other schemes (`mailto:`, `data:`, ...). */
+export function toLocalResourcePath(value: string): string | undefined {
+  if (/^[A-Za-z][A-Za-z0-9+.-]*:/.test(value) || value.startsWith('#')) {
+    return undefined;
+  }
+  const path = value.replace(/[?#].*$/, '');
+  return path || undefined;
+}
@@ -0,0 +1,191 @@
+import { type DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { HTMLDocument, Node as HtmlNode } from 'vscode-html-languageservice';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import type { ScriptletSymbols } from '../java/scriptletSymbols';
+
+/** A symbol before nesting: children are assigned by range containment. */
+type FlatSymbol = {
+  name: string;
+  detail?: string;
+  kind: SymbolKind;
+  start: number;
+  end: number;
+  selectionStart: number;
+  selectionEnd: number;
+};
+
+/** Elements that structure a page; any element with an `id` is listed too. */
+const LANDMARK_TAGS = new Set(['form', 'table', 'header', 'nav', 'main', 'aside', 'footer', 'section', 'article', 'iframe']);
+
+/** Attributes that best identify a custom tag, in order of preference. */
+const TAG_DETAIL_ATTRIBUTES = ['test', 'items', 'var', 'value', 'page', 'url', 'name', 'property', 'id'];
+
+const MAX_NAME_LENGTH = 60;
+
+function truncate(s: string): string {
+  return s.length > MAX_NAME_LENGTH ? `${s.slice(0, MAX_NAME_LENGTH - 1)}…` : s;
+}
+
+function directiveSymbols(text: string): FlatSymbol[] {
+  const symbols: FlatSymbol[] = [];
+  const re = /<%@\s*(page|include|taglib)\b([\s\S]*?)%>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const kind = (m[1] ?? '').toLowerCase();
+    const body = m[2] ?? '';
+    const startOffset = m.index;
+    const endOffset = m.index + m[0].length;
+
+    let name = `@${kind}`;
+    if (kind === 'taglib') {
+      const pm = /\bprefix\s*=\s*(["'])([^"']+)\1/i.exec(body);
+      const um = /\buri\s*=\s*(["'])([^"']+)\1/i.exec(body);
+      const prefix = pm?.[2];
+      const uri = um?.[2];
+      if (prefix && uri) name = `@taglib ${prefix} → ${uri}`;
+      else if (prefix) name = `@taglib ${prefix}`;
+    }
+    if (kind === 'include') {
+      const fm = /\bfile\s*=\s*(["'])([^"']+)\1/i.exec(body);
+      const file = fm?.[2];
+      if (file) name = `@include ${file}`;
+    }
+
+    symbols.push({
+      name,
+      kind: SymbolKind.Namespace,
+      start: startOffset,
+      end: endOffset,
+      selectionStart: startOffset,
+      selectionEnd: endOffset,
+    });
+  }
+  return symbols;
+}
+
+/**
+ * Scriptlets named by their first line; declarations are listed by their fields and methods when the
+ * page's Java parses, and like scriptlets otherwise. Expressions are left out.
+ */
+function javaSymbols(text: string, javaRegions: readonly JavaRegion[], analysis: ScriptletSymbols | undefined): FlatSymbol[] {
+  const symbols: FlatSymbol[] = [];
+  for (const r of javaRegions) {
+    if (r.kind !== 'scriptlet-statement' && (r.kind !== 'scriptlet-declaration' || analysis)) {
+      continue;
+    }
+    const code = text.slice(r.jspContentStartOffset, r.jspContentEndOffset);
+    const firstLine = code.split('\n').find((l) => l.trim())?.trim() ?? '';
+    const sigil = r.kind === 'scriptlet-declaration' ? '<%!' : '<%';
+    symbols.push({
+      name: truncate(`${sigil} ${firstLine}`.trimEnd()),
+      detail: r.kind === 'scriptlet-declaration' ? 'declaration' : 'scriptlet',
+      kind: SymbolKind.Function,
+      start: r.jspStartOffset,
+      end: r.jspEndOffset,
+      selectionStart: r.jspStartOffset,
+      selectionEnd: r.jspStartOffset + sigil.length,
+    });
+  }
+
+  for (const s of analysis?.symbols ?? []) {
+    if (s.kind !== 'field' && s.kind !== 'method') {
+      continue;
+    }
+    symbols.push({
+      name: s.kind === 'method' ? `${s.name}${s.parameters}` : s.name,
+      detail: s.type,
+      kind: s.kind === 'method' ? SymbolKind.Method : SymbolKind.Field,
+      start: s.declarationStart ?? s.jspStart,
+      end: s.declarationEnd ?? s.jspEnd,
+      selectionStart: s.jspStart,
+      selectionEnd: s.jspEnd,
+    });
+  }
+  return symbols;
+}
+
+/** Value of an attribute in a start tag, read from the JSP (the HTML projection blanks EL and scriptlets). */
+function attributeValue(startTag: string, name: string): string | undefined {
+  const m = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(startTag);
+  return m ? (m[1] ?? m[2]) : undefined;
+}
+
+/** Custom (`prefix:name`) tags, landmark elements and elements with an `id`. */
+function markupSymbols(text: string, htmlParsed: HTMLDocument): FlatSymbol[] {
+  const symbols: FlatSymbol[] = [];
+  const visit = (node: HtmlNode) => {
+    const tag = node.tag;
+    if (tag) {
+      const startTag = text.slice(node.start, node.startTagEnd ?? node.end);
+      const id = attributeValue(startTag, 'id');
+      const isCustom = tag.includes(':');
+      const lower = tag.toLowerCase();
+      if (isCustom || LANDMARK_TAGS.has(lower) || id) {
+        let detail: string | undefined;
+        if (isCustom) {
+          const attr = TAG_DETAIL_ATTRIBUTES.find((a) => attributeValue(startTag, a) !== undefined);
+          detail = attr && truncate(`${attr}="${attributeValue(startTag, attr)}"`);
+        } else if (lower === 'form') {
+          detail = attributeValue(startTag, 'action') ?? attributeValue(startTag, 'name');
+        }
+        symbols.push({
+          name: id && !isCustom ? `${tag}#${id}` : tag,
+          detail,
+          kind: isCustom ? SymbolKind.Object : SymbolKind.Field,
+          start: node.start,
+          end: node.end,
+          selectionStart: node.start + 1,
+          selectionEnd: node.start + 1 + tag.length,
+        });
+      }
+    }
+    for (const child of node.children) visit(child);
+  };
+  for (const root of htmlParsed.roots) visit(root);
+  return symbols;
+}
+
+/** Nests symbols by range: each one goes under the innermost symbol containing it. */
+function nestSymbols(doc: TextDocument, flat: FlatSymbol[]): DocumentSymbol[] {
+  const sorted = [...flat].sort((a, b) => a.start - b.start || b.end - a.end);
+  const roots: DocumentSymbol[] = [];
+  const stack: { end: number; symbol: DocumentSymbol }[] = [];
+  for (const s of sorted) {
+    while (stack.length && s.end > stack[stack.length - 1]!.end) {
+      stack.pop();
+    }
+    const symbol: DocumentSymbol = {
+      name: s.name || '?',
+      detail: s.detail,
+      kind: s.kind,
+      range: { start: doc.positionAt(s.start), end: doc.positionAt(s.end) },
+      selectionRange: { start: doc.positionAt(s.selectionStart), end: doc.positionAt(s.selectionEnd) },
+      children: [],
+    };
+    const parent = stack[stack.length - 1];
+    (parent ? parent.symbol.children! : roots).push(symbol);
+    stack.push({ end: s.end, symbol });
+  }
+  return roots;
+}
+
+/**
+ * Outline of a page: directives, scriptlets, `<%! %>` fields and methods, custom tags nested as in
+ * the markup, and landmark HTML elements (forms, tables, sectioning elements, anything with an `id`).
+ */
+export function buildJspDocumentSymbols(args: {
+  doc: TextDocument;
+  javaRegions: readonly JavaRegion[];
+  htmlParsed: HTMLDocument;
+  scriptletSymbols: ScriptletSymbols | undefined;
+}): DocumentSymbol[] {
+  const { doc, javaRegions, htmlParsed, scriptletSymbols } = args;
+  const text = doc.getText();
+  return nestSymbols(doc, [
+    ...directiveSymbols(text),
+    ...javaSymbols(text, javaRegions, scriptletSymbols),
+    ...markupSymbols(text, htmlParsed),
+  ]);
+}
@@ -0,0 +1,95 @@
+import type { LanguageService as CssLanguageService } from 'vscode-css-languageservice';
+import type { LanguageService as HtmlLanguageService } from 'vscode-html-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { ParsedCssRegion } from './css/cssMapping';
+import type { ElRegion } from './elSupport';
+import { extractCssRegionsFromProjectedHtml } from './extractCssRegions';
+import type { JavaRegion } from './extractJavaRegions';
+import { extractJsRegionsFromProjectedHtml, type JsRegion } from './extractJsRegions';
+import { analyzeScriptletSymbols, type ScriptletSymbols } from './java/scriptletSymbols';
+import type { JspProjection } from './jspProjection';
+
+export type ParsedDocumentCache = {
+  version: number;
+  projection: JspProjection;
+  htmlDocument: TextDocument;
+  /** Parsed lazily; the HTML/CSS/JS parses are only paid for when a feature needs them. */
+  readonly htmlParsed: unknown;
+  readonly cssRegions: ParsedCssRegion[];
+  readonly jsRegions: JsRegion[];
+  javaRegions: JavaRegion[];
+  pageImports: string[];
+  elRegions: ElRegion[];
+  /** Declared locals, fields and methods; undefined when the page's Java doesn't parse. */
+  readonly scriptletSymbols: ScriptletSymbols | undefined;
+};
+
+export type ParsedDocumentServices = { html: HtmlLanguageService; css: CssLanguageService };
+
+/**
+ * The latest parsed CSS regions known to each cache: its own once computed, else those of the
+ * version it was created from (versions typed in between rarely parse CSS).
+ */
+const knownCssRegions = new WeakMap<ParsedDocumentCache, ParsedCssRegion[]>();
+
+/**
+ * Parsed views of a page version over its projection, each computed on first use. Given the cache
+ * of an earlier version, stylesheets of CSS regions whose text is unchanged are reused.
+ */
+export function createParsedDocumentCache(
+  jspDocument: TextDocument,
+  projection: JspProjection,
+  services: ParsedDocumentServices,
+  previous?: ParsedDocumentCache,
+): ParsedDocumentCache {
+  // Keep the same URI to simplify mapping; language service only cares about text + positions.
+  const htmlDocument = TextDocument.create(jspDocument.uri, 'html', jspDocument.version, projection.projectedText);
+
+  let htmlParsed: unknown;
+  let cssRegions: ParsedCssRegion[] | undefined;
+  let jsRegions: JsRegion[] | undefined;
+  let scriptletSymbols: { value: ScriptletSymbols | undefined } | undefined;
+
+  const cache: ParsedDocumentCache = {
+    version: jspDocument.version,
+    projection,
+    htmlDocument,
+    get htmlParsed() {
+      return (htmlParsed ??= services.html.parseHTMLDocument(htmlDocument));
+    },
+    get cssRegions() {
+      if (!cssRegions) {
+        const reusable = new Map((knownCssRegions.get(cache) ?? []).map((r) => [r.region.cssDocument.getText(), r.stylesheet]));
+        cssRegions = extractCssRegionsFromProjectedHtml(htmlDocument).map((region) => ({
+          region,
+          stylesheet: reusable.get(region.cssDocument.getText()) ?? services.css.parseStylesheet(region.cssDocument),
+        }));
+        knownCssRegions.set(cache, cssRegions);
+      }
+      return cssRegions;
+    },
+    get jsRegions() {
+      return (jsRegions ??= extractJsRegionsFromProjectedHtml(htmlDocument, projection.jspText));
+    },
+    get scriptletSymbols() {
+      scriptletSymbols ??= {
+        value: analyzeScriptletSymbols({
+          jspText: projection.jspText,
+          javaRegions: projection.javaRegions,
+          pageImports: projection.pageImports,
+        }),
+      };
+      return scriptletSymbols.value;
+    },
+    javaRegions: projection.javaRegions,
+    pageImports: projection.pageImports,
+    elRegions: projection.elRegions,
+  };
+
+  const previousCss = previous && knownCssRegions.get(previous);
+  if (previousCss) {
+    knownCssRegions.set(cache, previousCss);
+  }
+  return cache;
+}
@@ -0,0 +1,302 @@
+import { type Range, type SemanticTokens, SemanticTokensBuilder, type SemanticTokensLegend } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { EL_IMPLICIT_OBJECTS, type ElRegion } from '../elSupport';
+import type { JavaRegion } from '../extractJavaRegions';
+import { JSP_IMPLICIT_OBJECTS } from '../jspImplicitObjects';
+import { parseTaglibDirectives } from '../taglibs/parseTaglibDirectives';
+import { findTagEnd } from '../taglibs/startTagContext';
+import type { TaglibIndex } from '../taglibs/types';
+
+/**
+ * `jspTag` is contributed in package.json (super type `type`) so themes can target taglib tags;
+ * the `unresolved` modifier marks prefixes/tags/attributes that don't resolve through a TLD.
+ */
+export const JSP_SEMANTIC_TOKEN_TYPES = ['namespace', 'jspTag', 'property', 'variable', 'function', 'keyword'] as const;
+export const JSP_SEMANTIC_TOKEN_MODIFIERS = ['declaration', 'readonly', 'defaultLibrary', 'unresolved'] as const;
+
+export type JspSemanticTokenType = (typeof JSP_SEMANTIC_TOKEN_TYPES)[number];
+export type JspSemanticTokenModifier = (typeof JSP_SEMANTIC_TOKEN_MODIFIERS)[number];
+
+export const JSP_SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+  tokenTypes: [...JSP_SEMANTIC_TOKEN_TYPES],
+  tokenModifiers: [...JSP_SEMANTIC_TOKEN_MODIFIERS],
+};
+
+export type JspSemanticToken = {
+  startOffset: number;
+  length: number;
+  type: JspSemanticTokenType;
+  modifiers: JspSemanticTokenModifier[];
+};
+
+/** JSP standard actions (`<jsp:include>`, ...) are always known, even without a TLD. */
+const JSP_STANDARD_ACTIONS = new Set([
+  'attribute', 'body', 'declaration', 'directive.include', 'directive.page', 'directive.tag', 'doBody',
+  'element', 'expression', 'fallback', 'forward', 'getProperty', 'include', 'invoke', 'output', 'param',
+  'params', 'plugin', 'root', 'scriptlet', 'setProperty', 'text', 'useBean',
+]);
+
+const EL_IMPLICIT_NAMES = new Set(['pageContext', ...EL_IMPLICIT_OBJECTS.map((o) => o.name)]);
+const JSP_IMPLICIT_NAMES = new Set(JSP_IMPLICIT_OBJECTS.map((o) => o.name));
+
+type OffsetSpan = { startOffset: number; endOffset: number };
+
+function findJspComments(jspText: string): OffsetSpan[] {
+  const out: OffsetSpan[] = [];
+  const re = /<%--[\s\S]*?(?:--%>|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(jspText))) {
+    if (!m[0].length) {
+      break;
+    }
+    out.push({ startOffset: m.index, endOffset: m.index + m[0].length });
+  }
+  return out;
+}
+
+function token(
+  startOffset: number,
+  length: number,
+  type: JspSemanticTokenType,
+  ...modifiers: JspSemanticTokenModifier[]
+): JspSemanticToken {
+  return { startOffset, length, type, modifiers };
+}
+
+/**
+ * `<prefix:tag>` / `</prefix:tag>` names and their attribute names.
+ * Runs on the projected HTML so tags inside scriptlets, EL and JSP comments are ignored.
+ */
+function collectTaglibTagTokens(
+  projectedText: string,
+  prefixToUri: Map<string, string>,
+  index: TaglibIndex | undefined,
+): JspSemanticToken[] {
+  const out: JspSemanticToken[] = [];
+  const tagRe = /<\/?([A-Za-z_][\w.-]*):([A-Za-z_][\w.-]*)/g;
+  let m: RegExpExecArray | null;
+  while ((m = tagRe.exec(projectedText))) {
+    const prefix = m[1]!;
+    const localName = m[2]!;
+    const isClose = m[0][1] === '/';
+    const prefixStart = m.index + (isClose ? 2 : 1);
+    const nameStart = prefixStart + prefix.length + 1;
+
+    const isStandardAction = prefix === 'jsp' && JSP_STANDARD_ACTIONS.has(localName);
+    const uri = prefixToUri.get(prefix);
+    const tagDef = uri ? index?.byUri.get(uri)?.tags.get(localName) : undefined;
+
+    if (isStandardAction) {
+      out.push(token(prefixStart, prefix.length, 'namespace', 'defaultLibrary'));
+      out.push(token(nameStart, localName.length, 'jspTag', 'defaultLibrary'));
+    } else {
+      out.push(token(prefixStart, prefix.length, 'namespace', ...(uri ? [] : ['unresolved' as const])));
+      out.push(token(nameStart, localName.length, 'jspTag', ...(tagDef ? [] : ['unresolved' as const])));
+    }
+
+    if (isClose) {
+      continue;
+    }
+
+    // Attribute names up to the end of the start tag.
+    const attrStart = nameStart + localName.length;
+    const attrText = projectedText.slice(attrStart, findTagEnd(projectedText, attrStart));
+    const attrRe = /(^|\s)([A-Za-z_][\w:.-]*)(?=\s*=)/g;
+    let a: RegExpExecArray | null;
+    while ((a = attrRe.exec(attrText))) {
+      const name = a[2]!;
+      const start = attrStart + a.index + a[1]!.length;
+      const known = isStandardAction || !!tagDef?.attributes.has(name);
+      out.push(token(start, name.length, 'property', ...(known ? [] : ['unresolved' as const])));
+    }
+  }
+  return out;
+}
+
+/** Directive names (`<%@ page`, `<%@ taglib`, ...) and the prefix declared by taglib directives. */
+function collectDirectiveTokens(jspText: string, javaRegions: JavaRegion[]): JspSemanticToken[] {
+  const out: JspSemanticToken[] = [];
+  for (const r of javaRegions) {
+    if (r.kind !== 'directive' && r.kind !== 'directive-page-import') {
+      continue;
+    }
+    const body = jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset);
+    const m = /^(\s*)([A-Za-z][\w.]*)/.exec(body);
+    if (m) {
+      out.push(token(r.jspContentStartOffset + m[1]!.length, m[2]!.length, 'keyword'));
+    }
+  }
+
+  for (const d of parseTaglibDirectives(jspText)) {
+    const m = /(\bprefix\s*=\s*["']\s*)([^"'\s]+)/i.exec(jspText.slice(d.startOffset, d.endOffset));
+    if (m) {
+      out.push(token(d.startOffset + m.index + m[1]!.length, m[2]!.length, 'namespace', 'declaration'));
+    }
+  }
+  return out;
+}
+
+/** Identifiers in `text` outside string/char literals and comments (Java and EL share this shape). */
+function scanIdentifiers(
+  text: string,
+  opts: { javaComments: boolean },
+): Array<{ name: string; index: number; afterDot: boolean; next: string }> {
+  const out: Array<{ name: string; index: number; afterDot: boolean; next: string }> = [];
+  let lastSignificant = '';
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch === '"' || ch === '\'') {
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      lastSignificant = ch;
+      continue;
+    }
+    if (opts.javaComments && ch === '/' && text[i + 1] === '/') {
+      const nl = text.indexOf('\n', i);
+      i = nl === -1 ? text.length : nl;
+      continue;
+    }
+    if (opts.javaComments && ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      const start = i;
+      while (i < text.length && /[\w$]/.test(text[i]!)) i++;
+      let j = i;
+      while (j < text.length && /\s/.test(text[j]!)) j++;
+      out.push({ name: text.slice(start, i), index: start, afterDot: lastSignificant === '.', next: text[j] ?? '' });
+      lastSignificant = 'a';
+      continue;
+    }
+    if (!/\s/.test(ch)) {
+      lastSignificant = ch;
+    }
+    i++;
+  }
+  return out;
+}
+
+/** JSP implicit objects (`request`, `session`, ...) inside scriptlets and expressions. */
+function collectScriptletTokens(jspText: string, javaRegions: JavaRegion[]): JspSemanticToken[] {
+  const out: JspSemanticToken[] = [];
+  for (const r of javaRegions) {
+    // Declarations (`<%! %>`) live at class level, where implicit objects are not in scope.
+    if (r.kind !== 'scriptlet-statement' && r.kind !== 'scriptlet-expression') {
+      continue;
+    }
+    const code = jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset);
+    for (const id of scanIdentifiers(code, { javaComments: true })) {
+      if (!id.afterDot && id.next !== '(' && JSP_IMPLICIT_NAMES.has(id.name)) {
+        out.push(token(r.jspContentStartOffset + id.index, id.name.length, 'variable', 'readonly', 'defaultLibrary'));
+      }
+    }
+  }
+  return out;
+}
+
+/** EL implicit objects and `prefix:function(...)` calls. */
+function collectElTokens(elRegions: ElRegion[], jspText: string, prefixToUri: Map<string, string>): JspSemanticToken[] {
+  const out: JspSemanticToken[] = [];
+  for (const r of elRegions) {
+    const content = jspText.slice(r.jspContentStartOffset, r.jspContentEndOffset);
+    const ids = scanIdentifiers(content, { javaComments: false });
+
+    for (let k = 0; k < ids.length; k++) {
+      const id = ids[k]!;
+      const start = r.jspContentStartOffset + id.index;
+
+      // `fn:length(...)`: the prefix is directly followed by `:` and the function name.
+      const fn = ids[k + 1];
+      if (!id.afterDot && fn && content[id.index + id.name.length] === ':' && fn.index === id.index + id.name.length + 1 && fn.next === '(') {
+        const unresolved = prefixToUri.has(id.name) ? [] : ['unresolved' as const];
+        out.push(token(start, id.name.length, 'namespace', ...unresolved));
+        out.push(token(r.jspContentStartOffset + fn.index, fn.name.length, 'function', ...unresolved));
+        k++;
+        continue;
+      }
+
+      if (!id.afterDot && EL_IMPLICIT_NAMES.has(id.name)) {
+        out.push(token(start, id.name.length, 'variable', 'readonly', 'defaultLibrary'));
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Semantic tokens for JSP constructs the TextMate grammar can't classify:
+ * - taglib prefixes, tag names and attribute names (`unresolved` when not backed by a TLD)
+ * - directive names and taglib directive prefixes
+ * - EL implicit objects and EL function calls
+ * - JSP implicit objects in scriptlets and expressions
+ *
+ * Returned tokens are sorted and never overlap.
+ */
+export function collectJspSemanticTokens(args: {
+  jspText: string;
+  projectedText: string;
+  javaRegions: JavaRegion[];
+  elRegions: ElRegion[];
+  index: TaglibIndex | undefined;
+}): JspSemanticToken[] {
+  const { jspText, projectedText, index } = args;
+  const prefixToUri = new Map<string, string>();
+  for (const d of parseTaglibDirectives(jspText)) {
+    prefixToUri.set(d.prefix, d.uri);
+  }
+
+  // Neither `<% %>` nor EL inside JSP comments is live code; EL inside scriptlets isn't EL either.
+  const comments = findJspComments(jspText);
+  const inside = (spans: OffsetSpan[], offset: number) => spans.some((s) => offset >= s.startOffset && offset < s.endOffset);
+  const javaRegions = args.javaRegions.filter((r) => !inside(comments, r.jspStartOffset));
+  const excluded: OffsetSpan[] = [
+    ...comments,
+    ...javaRegions.map((r) => ({ startOffset: r.jspStartOffset, endOffset: r.jspEndOffset })),
+  ];
+  const elRegions = args.elRegions.filter((r) => !inside(excluded, r.jspStartOffset));
+
+  const tokens = [
+    ...collectTaglibTagTokens(projectedText, prefixToUri, index),
+    ...collectDirectiveTokens(jspText, javaRegions),
+    ...collectScriptletTokens(jspText, javaRegions),
+    ...collectElTokens(elRegions, jspText, prefixToUri),
+  ].sort((a, b) => a.startOffset - b.startOffset);
+
+  const out: JspSemanticToken[] = [];
+  let lastEnd = 0;
+  for (const t of tokens) {
+    if (t.startOffset >= lastEnd && t.length > 0) {
+      out.push(t);
+      lastEnd = t.startOffset + t.length;
+    }
+  }
+  return out;
+}
+
+/** Encodes tokens for the LSP response, optionally limited to `range`. */
+export function encodeJspSemanticTokens(doc: TextDocument, tokens: JspSemanticToken[], range?: Range): SemanticTokens {
+  const rangeStart = range ? doc.offsetAt(range.start) : 0;
+  const rangeEnd = range ? doc.offsetAt(range.end) : Number.MAX_SAFE_INTEGER;
+
+  const builder = new SemanticTokensBuilder();
+  for (const t of tokens) {
+    if (t.startOffset + t.length <= rangeStart || t.startOffset >= rangeEnd) {
+      continue;
+    }
+    const pos = doc.positionAt(t.startOffset);
+    let modifierBits = 0;
+    for (const m of t.modifiers) {
+      modifierBits |= 1 << JSP_SEMANTIC_TOKEN_MODIFIERS.indexOf(m);
+    }
+    builder.push(pos.line, pos.character, t.length, JSP_SEMANTIC_TOKEN_TYPES.indexOf(t.type), modifierBits);
+  }
+  return builder.build();
+}
@@ -0,0 +1,111 @@
+import type { TaglibTag } from './types';
+import { findTagPairs, getStartTagContext, isVoidElement, type TagPair } from './startTagContext';
+
+export type AutoCloseTagResult = {
+  /** Snippet text (`$0` marks the final cursor position). */
+  snippet: string;
+  /** Text replaced by the snippet; `startOffset === endOffset` for a plain insertion. */
+  startOffset: number;
+  endOffset: number;
+};
+
+/**
+ * Auto-close support, modelled on the HTML extension's `html/tag` request.
+ *
+ * `offset` is the position right after a character the user just typed:
+ * - `>` finishing a start tag inserts the matching end tag (`$0</c:if>`); for taglib tags whose
+ *   TLD declares `body-content` `empty` the `>` is turned into `/>` instead
+ * - `</` is completed with the name of the innermost unclosed element
+ *
+ * `projectedText` is the masked HTML (see `maskJspToHtml`), so `>` inside scriptlets, EL and JSP
+ * comments never triggers anything.
+ */
+export function getAutoCloseTag(args: {
+  projectedText: string;
+  offset: number;
+  resolveTag?: (prefix: string, localName: string) => TaglibTag | undefined;
+}): AutoCloseTagResult | undefined {
+  const { projectedText, offset, resolveTag } = args;
+  const typed = projectedText[offset - 1];
+
+  if (typed === '>') {
+    return closeStartTag(projectedText, offset, resolveTag);
+  }
+  if (typed === '/' && projectedText[offset - 2] === '<') {
+    return completeEndTag(projectedText, offset);
+  }
+  return undefined;
+}
+
+function isInsideQuotes(text: string, from: number, to: number): boolean {
+  let q: string | undefined;
+  for (let i = from; i < to; i++) {
+    const ch = text[i];
+    if (q) {
+      if (ch === q) q = undefined;
+    } else if (ch === '"' || ch === '\'') {
+      q = ch;
+    }
+  }
+  return !!q;
+}
+
+function closeStartTag(
+  text: string,
+  offset: number,
+  resolveTag: ((prefix: string, localName: string) => TaglibTag | undefined) | undefined,
+): AutoCloseTagResult | undefined {
+  if (text[offset - 2] === '/') {
+    return undefined;
+  }
+
+  const ctx = getStartTagContext(text, offset - 1);
+  if (!ctx || !text.startsWith(ctx.tagName, ctx.ltOffset + 1)) {
+    return undefined;
+  }
+
+  // The `>` must be the one ending this tag (not one inside a quoted attribute value).
+  const nameStart = ctx.ltOffset + 1;
+  if (isInsideQuotes(text, nameStart, offset - 1) || isVoidElement(ctx.tagName)) {
+    return undefined;
+  }
+
+  if (ctx.prefix && ctx.localName && resolveTag?.(ctx.prefix, ctx.localName)?.bodyContent?.toLowerCase() === 'empty') {
+    const before = text[offset - 2] ?? '';
+    return { snippet: /\s/.test(before) ? '/>' : ' />', startOffset: offset - 1, endOffset: offset };
+  }
+
+  // Nothing to do when the element is already closed, or when it isn't a tag at all
+  // (e.g. `<b>` typed inside a `<script>` body).
+  const pair = findTagPairs(text).find((p) => p.open.startOffset === nameStart);
+  if (!pair || pair.close) {
+    return undefined;
+  }
+
+  return { snippet: `$0</${ctx.tagName}>`, startOffset: offset, endOffset: offset };
+}
+
+function completeEndTag(text: string, offset: number): AutoCloseTagResult | undefined {
+  if (/[A-Za-z]/.test(text[offset] ?? '')) {
+    return undefined;
+  }
+
+  // Innermost element that is still open at `offset`.
+  let innermost: TagPair | undefined;
+  for (const p of findTagPairs(text)) {
+    if (p.open.startOffset >= offset - 2) {
+      break;
+    }
+    if (p.selfClosed || (p.close && p.close.startOffset < offset)) {
+      continue;
+    }
+    innermost = p;
+  }
+
+  if (!innermost || innermost.close) {
+    return undefined;
+  }
+
+  const snippet = text[offset] === '>' ? innermost.name : `${innermost.name}>`;
+  return { snippet, startOffset: offset, endOffset: offset };
+}
@@ -0,0 +1,68 @@
+import type { TextEdit } from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { JavaRegion } from '../extractJavaRegions';
+import type { ServletApiFlavor } from '../java/servletApiModel';
+import { parseTaglibDirectives } from './parseTaglibDirectives';
+
+/** URIs the JSTL core taglib is published under (JSTL 1.0, 1.1/1.2, Jakarta Tags 3.0). */
+export const JSTL_CORE_URIS: ReadonlySet<string> = new Set([
+  'http://java.sun.com/jsp/jstl/core',
+  'http://java.sun.com/jstl/core',
+  'jakarta.tags.core',
+]);
+
+/** URIs of the JSTL functions taglib (`fn:escapeXml`, ...), JSTL 1.1/1.2 and Jakarta Tags 3.0. */
+export const JSTL_FUNCTIONS_URIS: ReadonlySet<string> = new Set([
+  'http://java.sun.com/jsp/jstl/functions',
+  'jakarta.tags.functions',
+]);
+
+const JSTL_LIBRARIES = {
+  core: { uris: JSTL_CORE_URIS, prefix: 'c', javax: 'http://java.sun.com/jsp/jstl/core', jakarta: 'jakarta.tags.core' },
+  functions: {
+    uris: JSTL_FUNCTIONS_URIS,
+    prefix: 'fn',
+    javax: 'http://java.sun.com/jsp/jstl/functions',
+    jakarta: 'jakarta.tags.functions',
+  },
+};
+
+/**
+ * Prefix of the page's JSTL core or functions taglib, and the edit declaring it (as `c` / `fn`)
+ * when the page has none. Undefined when the conventional prefix is taken by another taglib.
+ */
+export function jstlTaglibPrefix(
+  doc: TextDocument,
+  javaRegions: readonly JavaRegion[],
+  library: keyof typeof JSTL_LIBRARIES,
+  flavor: ServletApiFlavor,
+): { prefix: string; edit?: TextEdit } | undefined {
+  const text = doc.getText();
+  const lib = JSTL_LIBRARIES[library];
+  const directives = parseTaglibDirectives(text);
+  const existing = directives.find((d) => lib.uris.has(d.uri));
+  if (existing) {
+    return { prefix: existing.prefix };
+  }
+  if (directives.some((d) => d.prefix === lib.prefix)) {
+    return undefined;
+  }
+
+  // After the other taglib directives, else after the page directives.
+  const directive = `<%@ taglib prefix="${lib.prefix}" uri="${lib[flavor]}" %>`;
+  const anchor =
+    directives.at(-1)?.endOffset ??
+    javaRegions
+      .filter(
+        (r) =>
+          r.kind === 'directive-page-import' ||
+          (r.kind === 'directive' && /^\s*page\b/i.test(text.slice(r.jspContentStartOffset, r.jspContentEndOffset))),
+      )
+      .at(-1)?.jspEndOffset;
+  const at = doc.positionAt(anchor ?? 0);
+  return {
+    prefix: lib.prefix,
+    edit: { range: { start: at, end: at }, newText: anchor === undefined ? `${directive}\n` : `\n${directive}` },
+  };
+}
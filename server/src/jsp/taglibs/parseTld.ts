@@ -79,6 +79,8 @@ export function parseTldXml(xml: string, source: string): Taglib {
     const tag: TaglibTag = {
       name,
       description: textValue(t?.description),
+      // JSP 1.1 TLDs spell it `bodycontent`.
+      bodyContent: textValue(t?.['body-content'] ?? t?.bodycontent),
       attributes,
     };
     tags.set(name, tag);
@@ -150,3 +150,165 @@ export function getStartTagContext(jspText: string, cursorOffset: number): Start
     attributeNamePrefix,
   };
 }
+
+export type TagNameSpan = {
+  /** Start offset of the tag name (after `<` or `</`). */
+  startOffset: number;
+  /** End offset (exclusive) of the tag name. */
+  endOffset: number;
+};
+
+export type TagPair = {
+  name: string;
+  open: TagNameSpan;
+  /** Missing when the element is self-closing, void, or never closed. */
+  close?: TagNameSpan;
+  /** True for void elements and `<tag ... />`. */
+  selfClosed?: boolean;
+};
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
+  'param', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+function normalizeTagName(name: string): string {
+  // HTML names are case-insensitive; `prefix:tag` names are matched exactly.
+  return name.includes(':') ? name : name.toLowerCase();
+}
+
+export function isVoidElement(name: string): boolean {
+  return VOID_ELEMENTS.has(normalizeTagName(name));
+}
+
+/** Returns the offset just after the `>` closing a tag, honoring quoted attribute values. */
+export function findTagEnd(text: string, from: number): number {
+  let q: string | undefined;
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i]!;
+    if (q) {
+      if (ch === q) q = undefined;
+      continue;
+    }
+    if (isQuote(ch)) {
+      q = ch;
+    } else if (ch === '>') {
+      return i + 1;
+    } else if (ch === '<') {
+      // Unterminated tag; let the next tag start here.
+      return i;
+    }
+  }
+  return text.length;
+}
+
+export type TagToken = {
+  name: string;
+  isClose: boolean;
+  /** `<tag ... />` */
+  selfClosing: boolean;
+  /** Offset of `<`. */
+  startOffset: number;
+  /** Offset just after the closing `>`. */
+  endOffset: number;
+  nameSpan: TagNameSpan;
+};
+
+/**
+ * Start and end tags in document order. HTML comments and the raw text of `<script>` /
+ * `<style>` elements are skipped. Intended to run on the *projected HTML*.
+ */
+export function scanTagTokens(text: string): TagToken[] {
+  const tokens: TagToken[] = [];
+
+  let i = 0;
+  while (i < text.length) {
+    const lt = text.indexOf('<', i);
+    if (lt === -1) {
+      break;
+    }
+
+    if (text.startsWith('<!--', lt)) {
+      const end = text.indexOf('-->', lt + 4);
+      i = end === -1 ? text.length : end + 3;
+      continue;
+    }
+
+    const isClose = text[lt + 1] === '/';
+    const nameStart = lt + (isClose ? 2 : 1);
+    let nameEnd = nameStart;
+    while (nameEnd < text.length && isLikelyTagNameChar(text[nameEnd]!)) nameEnd++;
+    const name = text.slice(nameStart, nameEnd);
+    if (!name || !/^[A-Za-z]/.test(name)) {
+      i = lt + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(text, nameEnd);
+    const selfClosing = !isClose && text[tagEnd - 2] === '/' && text[tagEnd - 1] === '>';
+    tokens.push({
+      name,
+      isClose,
+      selfClosing,
+      startOffset: lt,
+      endOffset: tagEnd,
+      nameSpan: { startOffset: nameStart, endOffset: nameEnd },
+    });
+
+    i = tagEnd;
+    const key = normalizeTagName(name);
+    if (!isClose && RAW_TEXT_ELEMENTS.has(key) && !selfClosing) {
+      // Skip raw text so `<` in scripts/styles isn't taken for a tag.
+      const closeIdx = text.toLowerCase().indexOf(`</${key}`, tagEnd);
+      i = closeIdx === -1 ? text.length : closeIdx;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Pairs start and end tags (HTML and `prefix:tag`) in a document.
+ *
+ * Intended to run on the *projected HTML* (see `maskJspToHtml`) so `<`/`>` inside scriptlets
+ * and EL can't confuse the scan. Unmatched end tags are ignored; an end tag that matches an
+ * element further up the stack implicitly closes everything above it.
+ */
+export function findTagPairs(text: string): TagPair[] {
+  const pairs: TagPair[] = [];
+  const stack: TagPair[] = [];
+
+  for (const token of scanTagTokens(text)) {
+    const key = normalizeTagName(token.name);
+
+    if (token.isClose) {
+      const idx = stack.map((p) => normalizeTagName(p.name)).lastIndexOf(key);
+      if (idx !== -1) {
+        stack[idx]!.close = token.nameSpan;
+        stack.length = idx;
+      }
+      continue;
+    }
+
+    const pair: TagPair = { name: token.name, open: token.nameSpan };
+    pairs.push(pair);
+
+    if (!token.selfClosing && !VOID_ELEMENTS.has(key)) {
+      stack.push(pair);
+    } else {
+      pair.selfClosed = true;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * If `offset` is on (or right after) the name of a start or end tag, returns that element.
+ */
+export function findTagPairAtOffset(text: string, offset: number): TagPair | undefined {
+  const within = (s: TagNameSpan | undefined) => !!s && offset >= s.startOffset && offset <= s.endOffset;
+  return findTagPairs(text).find((p) => within(p.open) || within(p.close));
+}
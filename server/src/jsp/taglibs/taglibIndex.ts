@@ -27,9 +27,9 @@ const DEFAULT_IGNORE_GLOBS = [
 ];
 
 const DEFAULT_TLD_GLOBS = ['**/*.tld'];
-const DEFAULT_JAR_GLOBS = ['**/WEB-INF/lib/**/*.jar'];
+export const DEFAULT_JAR_GLOBS = ['**/WEB-INF/lib/**/*.jar'];
 
-async function findFilesByGlob(roots: string[], patterns: string[]): Promise<string[]> {
+export async function findFilesByGlob(roots: string[], patterns: string[]): Promise<string[]> {
   const out = new Set<string>();
   for (const r of roots) {
     const hits = await fg(patterns, {
@@ -49,7 +49,7 @@ async function findFilesByGlob(roots: string[], patterns: string[]): Promise<str
   return [...out];
 }
 
-function isJarPath(p: string): boolean {
+export function isJarPath(p: string): boolean {
   const lower = p.toLowerCase();
   return lower.endsWith('.jar') || lower.endsWith('.zip');
 }
@@ -70,7 +70,14 @@ function readZipEntryToString(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promi
   });
 }
 
-async function scanJarForTlds(jarPath: string, onTldXml: (xml: string, source: string) => void): Promise<void> {
+/**
+ * Visits the file entries of a jar/zip in order, with `/`-separated names. The next entry is read once
+ * the promise returned by `onEntry` (if any) settles; `readText` reads the current entry's content.
+ */
+export async function scanJarEntries(
+  jarPath: string,
+  onEntry: (name: string, readText: () => Promise<string>) => void | Promise<void>,
+): Promise<void> {
   await new Promise<void>((resolve, reject) => {
     yauzl.open(jarPath, { lazyEntries: true }, (err, zipfile) => {
       if (err || !zipfile) {
@@ -89,19 +96,8 @@ async function scanJarForTlds(jarPath: string, onTldXml: (xml: string, source: s
           return;
         }
 
-        // We only care about META-INF/*.tld
-        // (Most taglibs are located directly under META-INF, but allow nested paths too.)
-        const normalized = name.replace(/\\/g, '/');
-        const isTld = /^(?:META-INF\/).+\.tld$/i.test(normalized);
-        if (!isTld) {
-          zipfile.readEntry();
-          return;
-        }
-
-        void readZipEntryToString(zipfile, entry)
-          .then((xml) => {
-            onTldXml(xml, `jar:${jarPath}!/${normalized}`);
-          })
+        void Promise.resolve()
+          .then(() => onEntry(name.replace(/\\/g, '/'), () => readZipEntryToString(zipfile, entry)))
           .catch(() => {
             // Swallow per-entry errors; jar scanning is best-effort.
           })
@@ -122,6 +118,16 @@ async function scanJarForTlds(jarPath: string, onTldXml: (xml: string, source: s
   });
 }
 
+async function scanJarForTlds(jarPath: string, onTldXml: (xml: string, source: string) => void): Promise<void> {
+  await scanJarEntries(jarPath, async (name, readText) => {
+    // We only care about META-INF/*.tld
+    // (Most taglibs are located directly under META-INF, but allow nested paths too.)
+    if (/^(?:META-INF\/).+\.tld$/i.test(name)) {
+      onTldXml(await readText(), `jar:${jarPath}!/${name}`);
+    }
+  });
+}
+
 export async function buildTaglibIndex(options: TaglibIndexOptions): Promise<TaglibIndex> {
   const roots = options.roots ?? [];
   const tldGlobs = options.tldGlobs?.length ? options.tldGlobs : DEFAULT_TLD_GLOBS;
@@ -9,6 +9,8 @@ export type TaglibAttribute = {
 export type TaglibTag = {
   name: string;
   description?: string;
+  /** `body-content` from the TLD (`empty`, `JSP`, `scriptless`, `tagdependent`). */
+  bodyContent?: string;
   attributes: Map<string, TaglibAttribute>;
 };
 
@@ -6,28 +6,54 @@ import {
   type CodeAction,
   CodeActionKind,
   type CodeActionParams,
+  type ColorInformation,
+  type ColorPresentation,
+  type ColorPresentationParams,
   DidChangeWatchedFilesNotification,
+  type DocumentFormattingParams,
+  type Disposable,
+  type DocumentColorParams,
+  type DocumentHighlight,
+  type DocumentLink,
+  type DocumentLinkParams,
+  DocumentHighlightKind,
+  type DocumentHighlightParams,
+  type DocumentRangeFormattingParams,
   type Diagnostic,
   DiagnosticSeverity,
   type DocumentSymbol,
+  type FoldingRange,
+  type FoldingRangeParams,
   type Hover,
   type HoverParams,
   type InitializeParams,
+  type InlayHint,
+  type InlayHintParams,
   type InitializeResult,
   InsertTextFormat,
   type Location,
   MarkupKind,
+  type Position,
   type InsertReplaceEdit,
+  type LinkedEditingRangeParams,
+  type LinkedEditingRanges,
   type Range,
   type ReferenceParams,
   type RenameParams,
+  type SignatureHelp,
+  type SemanticTokens,
+  type SemanticTokensParams,
+  type SemanticTokensRangeParams,
+  type SignatureHelpParams,
   type SymbolInformation,
-  SymbolKind,
   type TextDocumentChangeEvent,
+  TextDocumentContentChangeEvent,
+  type TextDocumentPositionParams,
   TextDocumentSyncKind,
   type TextEdit,
   type WorkspaceEdit,
 } from 'vscode-languageserver';
+import * as path from 'node:path';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 import {
   createConnection,
@@ -38,28 +64,113 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import {
   getLanguageService as getHtmlLanguageService,
   type DocumentContext,
+  type HTMLDocument,
   TokenType,
 } from 'vscode-html-languageservice';
-import { getCSSLanguageService, type Stylesheet } from 'vscode-css-languageservice';
+import { getCSSLanguageService } from 'vscode-css-languageservice';
 
-import { maskJspToHtml } from './jsp/maskToHtml';
-import { extractCssRegionsFromProjectedHtml, type CssRegion } from './jsp/extractCssRegions';
-import { extractJavaRegionsFromJsp, type JavaRegion } from './jsp/extractJavaRegions';
+import { createJspProjection, updateJspProjection } from './jsp/jspProjection';
+import type { CssRegion } from './jsp/extractCssRegions';
+import {
+  findJspDocumentColors,
+  getJspColorPresentations,
+  mapRangeFromCssToJsp,
+  mapRangeFromJspToCss,
+  mapTextEditFromCssToJsp,
+  type ParsedCssRegion,
+} from './jsp/css/cssMapping';
+import type { JsRegion } from './jsp/extractJsRegions';
+import {
+  createParsedDocumentCache,
+  type ParsedDocumentCache,
+  type ParsedDocumentServices,
+} from './jsp/parsedDocumentCache';
+import { getJavaScriptLanguageService } from './jsp/javascript/jsLanguageService';
+import type { JavaRegion } from './jsp/extractJavaRegions';
+import { JSP_IMPLICIT_OBJECTS } from './jsp/jspImplicitObjects';
+import {
+  DEFAULT_JAVA_CONFIG,
+  detectServletApiFlavor,
+  getScriptletHover,
+  getScriptletMemberCompletions,
+  getScriptletSignatureHelp,
+  normalizeJavaConfig,
+  type VariableTypeLookup,
+} from './jsp/java/scriptletAssist';
+import {
+  analyzeScriptletSymbols,
+  findScriptletSymbolDefinition,
+  getScriptletSymbolCompletions,
+  getScriptletSymbolHover,
+  scriptletVariableType,
+  type ScriptletSymbols,
+} from './jsp/java/scriptletSymbols';
+import { jasperClassName, type TranslatedJava, translateJspToJava } from './jsp/java/jspTranslation';
+import { addPageImportEdit, findPageImports, removePageImportEdit } from './jsp/java/pageImports';
+import { getScriptletToElCodeActions } from './jsp/java/scriptletToEl';
+import {
+  buildJavaTypeIndex,
+  findPageImportEntry,
+  getPageImportCompletions,
+  type JavaTypeIndex,
+} from './jsp/java/javaTypeIndex';
+import {
+  createJavaLanguageServerBridge,
+  type JavaLanguageServerBridge,
+} from './jsp/java/javaLanguageServerBridge';
 import {
   EL_IMPLICIT_OBJECTS,
-  extractElRegionsFromJsp,
   findElIdentifierAtOffset,
   isElIdentifierContext,
-  type ElRegion,
 } from './jsp/elSupport';
 import { buildTaglibIndex } from './jsp/taglibs/taglibIndex';
 import { parseTaglibDirectives } from './jsp/taglibs/parseTaglibDirectives';
-import { getStartTagContext } from './jsp/taglibs/startTagContext';
+import { findTagPairAtOffset, getStartTagContext, type TagNameSpan } from './jsp/taglibs/startTagContext';
+import { getAutoCloseTag } from './jsp/taglibs/autoCloseTag';
+import { findDocumentLinkCandidates, isWebUrl, toLocalResourcePath } from './jsp/navigation/documentLinks';
+import { buildJspDocumentSymbols } from './jsp/navigation/documentSymbols';
+import {
+  buildSelectorIndex,
+  findSelectorAttributeContext,
+  findSelectorDefinitions,
+  getSelectorDefinitionsFromCssRegions,
+  isSelectorSourcePath,
+  listSelectorNames,
+  type SelectorDefinition,
+  type SelectorIndex,
+  updateSelectorIndexFile,
+} from './jsp/css/selectorIndex';
+import {
+  collectJspSemanticTokens,
+  encodeJspSemanticTokens,
+  JSP_SEMANTIC_TOKENS_LEGEND,
+} from './jsp/semanticTokens/jspSemanticTokens';
 import type { TaglibIndex } from './jsp/taglibs/types';
 import { validateTaglibUsageInJspWithConfig } from './jsp/taglibs/validateTaglibUsage';
 import { validateJspLinting } from './jsp/diagnostics/jspLint';
+import { validateTagStructure } from './jsp/diagnostics/tagStructure';
+import { getXssQuickFixes, validateXssOutput } from './jsp/diagnostics/xssLint';
 import { DEFAULT_LINT_CONFIG, normalizeLintConfig, severityFromRuleLevel } from './jsp/diagnostics/lintConfig';
-import { validateJavaScriptletSyntax } from './jsp/diagnostics/javaScriptletDiagnostics';
+import {
+  validateJavaScriptletSyntax,
+  validateJavaUseBeforeDeclaration,
+  validatePageImports,
+} from './jsp/diagnostics/javaScriptletDiagnostics';
+import { getJspFoldingRanges } from './jsp/folding/jspFoldingRanges';
+import { formatJsp } from './jsp/formatting/formatJsp';
+import { DEFAULT_FORMAT_CONFIG, normalizeFormatConfig } from './jsp/formatting/formatConfig';
+import { DEFAULT_EMMET_CONFIG, getJspEmmetCompletions, normalizeEmmetConfig } from './jsp/emmet/jspEmmet';
+import {
+  collectJspInlayHints,
+  DEFAULT_INLAY_HINTS_CONFIG,
+  normalizeInlayHintsConfig,
+} from './jsp/inlayHints/jspInlayHints';
+import {
+  DEFAULT_HTML_CONFIG,
+  loadHtmlCustomData,
+  normalizeHtmlConfig,
+  resolveHtmlCustomDataPaths,
+} from './jsp/html/htmlCustomData';
 import {
   resolveIncludeTargetToFsPath,
   type IncludeResolveStrategy,
@@ -74,12 +185,17 @@ import {
 } from './jsp/navigation/taglibNavigation';
 
 const connection = createConnection(ProposedFeatures.all);
-const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+const documents: TextDocuments<TextDocument> = new TextDocuments({
+  create: TextDocument.create,
+  update: (document, changes, version) => updateDocument(document, changes, version),
+});
 
 documents.listen(connection);
 
 const htmlLanguageService = getHtmlLanguageService();
 const cssLanguageService = getCSSLanguageService();
+const jsLanguageService = getJavaScriptLanguageService();
+const parsedDocumentServices: ParsedDocumentServices = { html: htmlLanguageService, css: cssLanguageService };
 const documentContext: DocumentContext = {
   resolveReference: (ref: string, _base: string) => ref,
 };
@@ -97,6 +213,14 @@ let workspaceRoots: string[] = [];
 let taglibIndex: TaglibIndex | undefined;
 let taglibIndexBuild: Promise<void> | undefined;
 
+let javaTypeIndex: JavaTypeIndex | undefined;
+let javaTypeIndexBuild: Promise<void> | undefined;
+/** Set by .java/.jar watcher events and jar setting changes; the current index is served until rebuilt. */
+let javaTypeIndexStale = false;
+
+let selectorIndex: SelectorIndex | undefined;
+let selectorIndexBuild: Promise<void> | undefined;
+
 type TaglibsConfig = {
   tldGlobs?: string[];
   enableJarScanning?: boolean;
@@ -107,6 +231,20 @@ let taglibsConfig: TaglibsConfig = {};
 
 let lintConfig = DEFAULT_LINT_CONFIG;
 
+let formatConfig = DEFAULT_FORMAT_CONFIG;
+let emmetConfig = DEFAULT_EMMET_CONFIG;
+let inlayHintsConfig = DEFAULT_INLAY_HINTS_CONFIG;
+let javaConfig = DEFAULT_JAVA_CONFIG;
+/** Bridge to the external Java language server of `jsp.java.languageServer.command`, when set. */
+let javaBridge: JavaLanguageServerBridge | undefined;
+let inlayHintRefreshSupport = false;
+let htmlConfig = DEFAULT_HTML_CONFIG;
+
+/** Resolved `jsp.html.customData` files, and the watcher registered for them. */
+let htmlCustomDataPaths: string[] = [];
+let htmlCustomDataWatcher: Disposable | undefined;
+let htmlCustomDataLoadSeq = 0;
+
 type IncludeConfig = {
   webRoots: string[];
   resolveStrategy: IncludeResolveStrategy;
@@ -163,22 +301,130 @@ async function ensureTaglibIndex(): Promise<TaglibIndex | undefined> {
   return taglibIndex;
 }
 
-type ParsedDocumentCache = {
-  version: number;
-  htmlDocument: TextDocument;
-  htmlParsed: unknown;
-  cssRegions: Array<{ region: CssRegion; stylesheet: Stylesheet }>;
-  javaRegions: JavaRegion[];
-  pageImports: string[];
-  elRegions: ElRegion[];
-};
+/**
+ * The Java type index as it is now, (re)building it in the background when missing or stale. Open
+ * documents are validated again once a build finishes, so diagnostics never wait for the scan.
+ */
+function peekJavaTypeIndex(): JavaTypeIndex | undefined {
+  if (workspaceRoots.length && (!javaTypeIndex || javaTypeIndexStale) && !javaTypeIndexBuild) {
+    javaTypeIndexStale = false;
+    javaTypeIndexBuild = buildJavaTypeIndex({
+      roots: workspaceRoots,
+      enableJarScanning: taglibsConfig.enableJarScanning,
+      jarGlobs: taglibsConfig.jarGlobs,
+    })
+      .then((idx) => {
+        javaTypeIndex = idx;
+        connection.console.log(
+          `Java type index built: ${idx.packages.size} packages (${idx.sourceFileCount} source files, ${idx.jarFileCount} jars)`,
+        );
+        for (const d of documents.all()) {
+          scheduleValidation(d);
+        }
+      })
+      .catch((err) => {
+        connection.console.error(`Java type index build failed: ${String(err)}`);
+      })
+      .finally(() => {
+        javaTypeIndexBuild = undefined;
+      });
+  }
+  return javaTypeIndex;
+}
+
+/** The Java type index, waiting for the first build (a stale index is returned while it is rebuilt). */
+async function ensureJavaTypeIndex(): Promise<JavaTypeIndex | undefined> {
+  peekJavaTypeIndex();
+  if (!javaTypeIndex && javaTypeIndexBuild) {
+    await javaTypeIndexBuild;
+  }
+  return javaTypeIndex;
+}
+
+/** (Re)loads `jsp.html.customData` files into the HTML language service (completion + hover). */
+async function reloadHtmlCustomData(): Promise<void> {
+  const seq = ++htmlCustomDataLoadSeq;
+  htmlCustomDataPaths = resolveHtmlCustomDataPaths(htmlConfig.customData, workspaceRoots);
+
+  const { providers, errors } = await loadHtmlCustomData(htmlCustomDataPaths);
+  if (seq !== htmlCustomDataLoadSeq) {
+    // A newer reload (config or file change) superseded this one.
+    return;
+  }
+
+  for (const e of errors) {
+    connection.console.warn(`Ignoring HTML custom data ${e.fsPath}: ${e.message}`);
+  }
+  htmlLanguageService.setDataProviders(true, providers);
+  if (providers.length) {
+    connection.console.log(`Loaded ${providers.length} HTML custom data file(s)`);
+  }
+}
+
+/** Watches the configured custom data files (they may live outside the `.tld`/`.css` watchers). */
+async function registerHtmlCustomDataWatcher(): Promise<void> {
+  htmlCustomDataWatcher?.dispose();
+  htmlCustomDataWatcher = undefined;
+  if (!htmlCustomDataPaths.length) {
+    return;
+  }
+
+  try {
+    htmlCustomDataWatcher = await connection.client.register(DidChangeWatchedFilesNotification.type, {
+      watchers: htmlCustomDataPaths.map((p) => ({ globPattern: p.split(path.sep).join('/') })),
+    });
+  } catch (err) {
+    connection.console.warn(`Failed to register HTML custom data watcher: ${String(err)}`);
+  }
+}
+
+/**
+ * The selector index is built once and then kept current through file watcher events
+ * (see `onDidChangeWatchedFiles`).
+ */
+async function ensureSelectorIndex(): Promise<SelectorIndex | undefined> {
+  if (!workspaceRoots.length) {
+    return undefined;
+  }
+
+  if (!selectorIndex && !selectorIndexBuild) {
+    selectorIndexBuild = buildSelectorIndex({ roots: workspaceRoots })
+      .then((idx) => {
+        selectorIndex = idx;
+        connection.console.log(`Selector index built: ${idx.byFile.size} files with class/id selectors`);
+      })
+      .catch((err) => {
+        connection.console.error(`Selector index build failed: ${String(err)}`);
+      })
+      .finally(() => {
+        selectorIndexBuild = undefined;
+      });
+  }
+
+  if (selectorIndexBuild) {
+    await selectorIndexBuild;
+  }
+
+  return selectorIndex;
+}
 
 const parsedCache = new Map<string, ParsedDocumentCache>();
 
-function getProjectedHtmlDocument(jspDocument: TextDocument): TextDocument {
-  const htmlText = maskJspToHtml(jspDocument.getText());
-  // Keep the same URI to simplify mapping; language service only cares about text + positions.
-  return TextDocument.create(jspDocument.uri, 'html', jspDocument.version, htmlText);
+/** Page symbols for a request at `offset`, tolerating the statement being typed there. */
+function getScriptletSymbolsAt(cached: ParsedDocumentCache, offset: number): ScriptletSymbols | undefined {
+  return (
+    cached.scriptletSymbols ??
+    analyzeScriptletSymbols({
+      jspText: cached.projection.jspText,
+      javaRegions: cached.javaRegions,
+      pageImports: cached.pageImports,
+      cursorOffset: offset,
+    })
+  );
+}
+
+function variableTypeLookup(symbols: ScriptletSymbols | undefined, offset: number): VariableTypeLookup | undefined {
+  return symbols && ((name) => scriptletVariableType(symbols, name, offset));
 }
 
 function getOrCreateParsedCache(jspDocument: TextDocument): ParsedDocumentCache {
@@ -187,31 +433,42 @@ function getOrCreateParsedCache(jspDocument: TextDocument): ParsedDocumentCache
     return existing;
   }
 
-  const jspText = jspDocument.getText();
-  const { regions: javaRegions, pageImports } = extractJavaRegionsFromJsp(jspText);
-  const elRegions = extractElRegionsFromJsp(jspText);
-
-  const htmlDocument = getProjectedHtmlDocument(jspDocument);
-  const htmlParsed = htmlLanguageService.parseHTMLDocument(htmlDocument);
-
-  const cssRegions = extractCssRegionsFromProjectedHtml(htmlDocument).map((region) => {
-    const stylesheet = cssLanguageService.parseStylesheet(region.cssDocument);
-    return { region, stylesheet };
-  });
-
-  const next: ParsedDocumentCache = {
-    version: jspDocument.version,
-    htmlDocument,
-    htmlParsed,
-    cssRegions,
-    javaRegions,
-    pageImports,
-    elRegions,
-  };
+  const next = createParsedDocumentCache(jspDocument, createJspProjection(jspDocument.getText()), parsedDocumentServices);
   parsedCache.set(jspDocument.uri, next);
   return next;
 }
 
+/**
+ * Applies content changes to an open document. When the cache is current, the projection and
+ * region lists are updated from each change instead of being rebuilt from the whole text, and
+ * unchanged stylesheets are carried over.
+ */
+function updateDocument(
+  document: TextDocument,
+  changes: TextDocumentContentChangeEvent[],
+  version: number,
+): TextDocument {
+  const cached = parsedCache.get(document.uri);
+  if (!cached || cached.version !== document.version) {
+    parsedCache.delete(document.uri);
+    return TextDocument.update(document, changes, version);
+  }
+
+  let projection = cached.projection;
+  for (const change of changes) {
+    projection = TextDocumentContentChangeEvent.isIncremental(change)
+      ? updateJspProjection(projection, {
+          startOffset: document.offsetAt(change.range.start),
+          endOffset: document.offsetAt(change.range.end),
+          text: change.text,
+        })
+      : createJspProjection(change.text);
+    document = TextDocument.update(document, [change], version);
+  }
+  parsedCache.set(document.uri, createParsedDocumentCache(document, projection, parsedDocumentServices, cached));
+  return document;
+}
+
 function findJavaRegionAtOffset(cached: ParsedDocumentCache, jspOffset: number): JavaRegion | undefined {
   return cached.javaRegions.find((r) => jspOffset >= r.jspContentStartOffset && jspOffset < r.jspContentEndOffset);
 }
@@ -224,27 +481,15 @@ function isJavaScriptletRegion(region: JavaRegion): boolean {
   );
 }
 
-function getJavaImplicitObjectCompletions(): CompletionList {
-  // MVP (Feature 2 Phase 0): offer JSP implicit object identifiers only.
-  const implicitObjects: Array<{ name: string; detail: string }> = [
-    { name: 'request', detail: 'JSP implicit object (HttpServletRequest)' },
-    { name: 'response', detail: 'JSP implicit object (HttpServletResponse)' },
-    { name: 'session', detail: 'JSP implicit object (HttpSession)' },
-    { name: 'pageContext', detail: 'JSP implicit object (PageContext)' },
-    { name: 'application', detail: 'JSP implicit object (ServletContext)' },
-    { name: 'out', detail: 'JSP implicit object (JspWriter)' },
-    { name: 'config', detail: 'JSP implicit object (ServletConfig)' },
-    { name: 'page', detail: 'JSP implicit object (Object)' },
-    { name: 'exception', detail: 'JSP implicit object (Throwable; error pages only)' },
-  ];
-
-  const items: CompletionItem[] = implicitObjects.map(({ name, detail }) => ({
+function getJavaIdentifierCompletions(symbols: ScriptletSymbols | undefined, offset: number): CompletionList {
+  // The page's own locals, fields and methods, then the JSP implicit objects.
+  const items: CompletionItem[] = JSP_IMPLICIT_OBJECTS.map(({ name, detail }) => ({
     label: name,
     kind: CompletionItemKind.Variable,
     detail,
   }));
 
-  return { isIncomplete: false, items };
+  return { isIncomplete: false, items: [...(symbols ? getScriptletSymbolCompletions(symbols, offset) : []), ...items] };
 }
 
 function getElImplicitObjectCompletions(): CompletionList {
@@ -344,43 +589,10 @@ function getJspSnippetCompletions(doc: TextDocument, position: { line: number; c
   ];
 }
 
-function findCssRegionAtOffset(
-  cached: ParsedDocumentCache,
-  jspOffset: number,
-): { region: CssRegion; stylesheet: Stylesheet } | undefined {
+function findCssRegionAtOffset(cached: ParsedDocumentCache, jspOffset: number): ParsedCssRegion | undefined {
   return cached.cssRegions.find(({ region }) => jspOffset >= region.jspStartOffset && jspOffset < region.jspEndOffset);
 }
 
-function mapRangeFromCssToJsp(
-  jspDocument: TextDocument,
-  region: CssRegion,
-  cssDocument: TextDocument,
-  range: Range,
-): Range {
-  const startCssOffset = cssDocument.offsetAt(range.start);
-  const endCssOffset = cssDocument.offsetAt(range.end);
-
-  const startJspOffset = region.jspStartOffset + Math.max(0, startCssOffset - region.cssContentStartOffset);
-  const endJspOffset = region.jspStartOffset + Math.max(0, endCssOffset - region.cssContentStartOffset);
-
-  return {
-    start: jspDocument.positionAt(startJspOffset),
-    end: jspDocument.positionAt(endJspOffset),
-  };
-}
-
-function mapTextEditFromCssToJsp(
-  jspDocument: TextDocument,
-  region: CssRegion,
-  cssDocument: TextDocument,
-  edit: TextEdit,
-): TextEdit {
-  return {
-    newText: edit.newText,
-    range: mapRangeFromCssToJsp(jspDocument, region, cssDocument, edit.range),
-  };
-}
-
 function isInsertReplaceEdit(value: unknown): value is InsertReplaceEdit {
   return !!value && typeof value === 'object' && 'insert' in (value as any) && 'replace' in (value as any);
 }
@@ -416,6 +628,61 @@ function mapCompletionListFromCssToJsp(
   return { ...list, items };
 }
 
+function findJsRegionAtOffset(cached: ParsedDocumentCache, jspOffset: number): JsRegion | undefined {
+  // Inclusive end: the cursor right before `</script>` or a closing attribute quote is still "in" the script.
+  return cached.jsRegions.find((region) => jspOffset >= region.jspStartOffset && jspOffset <= region.jspEndOffset);
+}
+
+function mapOffsetFromJspToJs(region: JsRegion, jspOffset: number): number {
+  return region.jsContentStartOffset + Math.max(0, jspOffset - region.jspStartOffset);
+}
+
+function mapRangeFromJsToJsp(jspDocument: TextDocument, region: JsRegion, range: Range): Range {
+  const jsDoc = region.jsDocument;
+  const startJsOffset = jsDoc.offsetAt(range.start);
+  const endJsOffset = jsDoc.offsetAt(range.end);
+
+  const startJspOffset = region.jspStartOffset + Math.max(0, startJsOffset - region.jsContentStartOffset);
+  const endJspOffset = region.jspStartOffset + Math.max(0, endJsOffset - region.jsContentStartOffset);
+
+  return {
+    start: jspDocument.positionAt(startJspOffset),
+    end: jspDocument.positionAt(endJspOffset),
+  };
+}
+
+function mapCompletionListFromJsToJsp(jspDocument: TextDocument, region: JsRegion, list: CompletionList): CompletionList {
+  const items: CompletionItem[] = list.items.map((item) => {
+    const next: CompletionItem = { ...item };
+
+    if (next.textEdit) {
+      if (isInsertReplaceEdit(next.textEdit)) {
+        next.textEdit = {
+          newText: next.textEdit.newText,
+          insert: mapRangeFromJsToJsp(jspDocument, region, next.textEdit.insert),
+          replace: mapRangeFromJsToJsp(jspDocument, region, next.textEdit.replace),
+        };
+      } else {
+        next.textEdit = {
+          newText: next.textEdit.newText,
+          range: mapRangeFromJsToJsp(jspDocument, region, next.textEdit.range),
+        };
+      }
+    }
+
+    if (next.additionalTextEdits?.length) {
+      next.additionalTextEdits = next.additionalTextEdits.map((e) => ({
+        newText: e.newText,
+        range: mapRangeFromJsToJsp(jspDocument, region, e.range),
+      }));
+    }
+
+    return next;
+  });
+
+  return { ...list, items };
+}
+
 function getTaglibCompletionItems(
   jspDocument: TextDocument,
   position: { line: number; character: number },
@@ -688,7 +955,23 @@ async function validateJspDocument(jspDocument: TextDocument): Promise<void> {
   const cached = getOrCreateParsedCache(jspDocument);
 
   const htmlDiagnostics = validateProjectedHtml(cached.htmlDocument, cached.htmlParsed);
+  const structureDiagnostics = validateTagStructure({
+    doc: jspDocument,
+    projectedText: cached.htmlDocument.getText(),
+    javaRegions: cached.javaRegions,
+    lintConfig,
+  });
+  const xssDiagnostics = validateXssOutput({
+    doc: jspDocument,
+    projectedText: cached.htmlDocument.getText(),
+    htmlParsed: cached.htmlParsed as HTMLDocument,
+    javaRegions: cached.javaRegions,
+    elRegions: cached.elRegions,
+    scriptletSymbols: cached.scriptletSymbols,
+    lintConfig,
+  });
   const cssDiagnostics = validateCssRegions(jspDocument, cached);
+  const jsDiagnostics = validateJsRegions(jspDocument, cached);
 
   const tldIndex = await ensureTaglibIndex();
   const taglibDiagnostics = validateTaglibUsageInJspWithConfig(jspDocument, tldIndex, lintConfig);
@@ -702,20 +985,57 @@ async function validateJspDocument(jspDocument: TextDocument): Promise<void> {
     lintConfig,
   });
 
+  // Once the external Java language server has the page, its diagnostics replace the built-in syntax
+  // check; it publishes them asynchronously (and the page is validated again).
+  const bridgedDiagnostics = javaBridge?.getDiagnostics(jspDocument.uri);
+  void javaBridge?.syncDocument(jspDocument);
   const javaSyntaxSeverity = severityFromRuleLevel(lintConfig, 'jsp.java.syntax', 'error');
   const javaDiagnostics =
-    lintConfig.java.enableSyntaxDiagnostics && javaSyntaxSeverity !== null
+    bridgedDiagnostics ??
+    (lintConfig.java.enableSyntaxDiagnostics && javaSyntaxSeverity !== null
       ? validateJavaScriptletSyntax({
           doc: jspDocument,
           javaRegions: cached.javaRegions,
           pageImports: cached.pageImports,
           severity: javaSyntaxSeverity,
         })
+      : []);
+  // Imports are checked by the external Java language server when there is one.
+  const pageImportDiagnostics = bridgedDiagnostics
+    ? []
+    : validatePageImports({
+        doc: jspDocument,
+        javaRegions: cached.javaRegions,
+        elRegions: cached.elRegions,
+        symbols: cached.scriptletSymbols,
+        typeIndex: peekJavaTypeIndex(),
+        unusedSeverity: severityFromRuleLevel(lintConfig, 'jsp.java.unused-import', 'warning'),
+        missingSeverity: severityFromRuleLevel(lintConfig, 'jsp.java.missing-import', 'warning'),
+      });
+  const useBeforeDeclarationSeverity = severityFromRuleLevel(lintConfig, 'jsp.java.use-before-declaration', 'warning');
+  const useBeforeDeclarationDiagnostics =
+    !bridgedDiagnostics && useBeforeDeclarationSeverity !== null && cached.scriptletSymbols
+      ? validateJavaUseBeforeDeclaration({
+          doc: jspDocument,
+          symbols: cached.scriptletSymbols,
+          severity: useBeforeDeclarationSeverity,
+        })
       : [];
 
   connection.sendDiagnostics({
     uri: jspDocument.uri,
-    diagnostics: [...htmlDiagnostics, ...cssDiagnostics, ...taglibDiagnostics, ...lintDiagnostics, ...javaDiagnostics],
+    diagnostics: [
+      ...htmlDiagnostics,
+      ...structureDiagnostics,
+      ...xssDiagnostics,
+      ...cssDiagnostics,
+      ...jsDiagnostics,
+      ...taglibDiagnostics,
+      ...lintDiagnostics,
+      ...javaDiagnostics,
+      ...useBeforeDeclarationDiagnostics,
+      ...pageImportDiagnostics,
+    ],
   });
 }
 
@@ -751,11 +1071,42 @@ function validateCssRegions(jspDocument: TextDocument, cached: ParsedDocumentCac
   return out;
 }
 
+function validateJsRegions(jspDocument: TextDocument, cached: ParsedDocumentCache): Diagnostic[] {
+  const out: Diagnostic[] = [];
+
+  for (const region of cached.jsRegions) {
+    const jsDoc = region.jsDocument;
+    const jsContentStart = region.jsContentStartOffset;
+    const jsContentEnd = jsContentStart + (region.jspEndOffset - region.jspStartOffset);
+
+    for (const d of jsLanguageService.doValidation(jsDoc)) {
+      // Event handler attributes are wrapped in a function.
+      // Errors past the content (e.g. a missing `}` reported at EOF) are clamped to its end.
+      const startOff = jsDoc.offsetAt(d.range.start);
+      if (startOff < jsContentStart || startOff > jsContentEnd) {
+        continue;
+      }
+      const endOff = Math.min(jsDoc.offsetAt(d.range.end), jsContentEnd);
+
+      out.push({
+        ...d,
+        range: mapRangeFromJsToJsp(jspDocument, region, {
+          start: d.range.start,
+          end: jsDoc.positionAt(Math.max(startOff, endOff)),
+        }),
+      });
+    }
+  }
+
+  return out;
+}
+
 /**
  * Minimal, conservative HTML diagnostics.
  *
  * The upstream `vscode-html-languageservice` does not currently ship a full HTML validator.
- * For Feature 01 MVP we provide token-level errors + clearly-wrong closing tags.
+ * For Feature 01 MVP we provide token-level errors here; clearly-wrong closing tags are
+ * reported by the (scriptlet/taglib-aware) structure validator.
  *
  * Important: the HTML doc is a same-length projection of the JSP source, so ranges map 1:1.
  */
@@ -763,14 +1114,6 @@ function validateProjectedHtml(htmlDocument: TextDocument, _parsed: unknown): Di
   const text = htmlDocument.getText();
   const scanner = htmlLanguageService.createScanner(text, 0);
 
-  const voidTags = new Set([
-    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
-    'param', 'source', 'track', 'wbr',
-  ]);
-
-  const openStack: string[] = [];
-  let lastStartTag: string | undefined;
-
   const diagnostics: Diagnostic[] = [];
 
   while (scanner.scan() !== TokenType.EOS) {
@@ -785,66 +1128,6 @@ function validateProjectedHtml(htmlDocument: TextDocument, _parsed: unknown): Di
         },
         source: 'jsp-lang(html)',
       });
-      continue;
-    }
-
-    switch (scanner.getTokenType()) {
-      case TokenType.StartTag: {
-        const raw = scanner.getTokenText();
-        const tag = raw.toLowerCase();
-        lastStartTag = tag;
-        if (!voidTags.has(tag)) {
-          openStack.push(tag);
-        }
-        break;
-      }
-
-      case TokenType.StartTagSelfClose: {
-        if (lastStartTag && openStack.length > 0 && openStack[openStack.length - 1] === lastStartTag) {
-          openStack.pop();
-        }
-        lastStartTag = undefined;
-        break;
-      }
-
-      case TokenType.EndTag: {
-        const raw = scanner.getTokenText();
-        const tag = raw.toLowerCase();
-        lastStartTag = undefined;
-
-        // Be conservative: only flag clearly-unmatched end tags.
-        const top = openStack[openStack.length - 1];
-        if (top === tag) {
-          openStack.pop();
-          break;
-        }
-
-        // If it's somewhere in the stack, treat it as recovery (don’t produce a diagnostic).
-        if (openStack.includes(tag)) {
-          while (openStack.length > 0 && openStack[openStack.length - 1] !== tag) {
-            openStack.pop();
-          }
-          if (openStack.length > 0) {
-            openStack.pop();
-          }
-          break;
-        }
-
-        diagnostics.push({
-          message: `Unexpected closing tag </${tag}>.`,
-          severity: DiagnosticSeverity.Error,
-          range: {
-            start: htmlDocument.positionAt(scanner.getTokenOffset()),
-            end: htmlDocument.positionAt(scanner.getTokenEnd()),
-          },
-          source: 'jsp-lang(html)',
-        });
-        break;
-      }
-
-      default:
-        lastStartTag = undefined;
-        break;
     }
   }
 
@@ -917,14 +1200,24 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
 
   lintConfig = normalizeLintConfig(init?.lint);
   includeConfig = normalizeIncludeConfig(init?.includes);
+  formatConfig = normalizeFormatConfig(init?.format);
+  emmetConfig = normalizeEmmetConfig(init?.emmet);
+  inlayHintsConfig = normalizeInlayHintsConfig(init?.inlayHints);
+  javaConfig = normalizeJavaConfig(init?.java);
+  inlayHintRefreshSupport = !!params.capabilities.workspace?.inlayHint?.refreshSupport;
+  htmlConfig = normalizeHtmlConfig(init?.html);
 
   const result: InitializeResult = {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
       completionProvider: {
-        triggerCharacters: ['<', ' ', ':', '/', '"', "'", '='],
+        triggerCharacters: ['<', ' ', ':', '/', '"', "'", '=', '.'],
       },
       hoverProvider: true,
+      // Feature 01: JavaScript in <script> blocks and on* handler attributes.
+      signatureHelpProvider: {
+        triggerCharacters: ['(', ','],
+      },
       // Feature 05 (Milestone 1–2, taglib/navigation MVP)
       definitionProvider: true,
       referencesProvider: true,
@@ -933,6 +1226,20 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
 
       // Feature 06: quick fixes for some diagnostics.
       codeActionProvider: true,
+
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      foldingRangeProvider: true,
+      linkedEditingRangeProvider: true,
+      documentHighlightProvider: true,
+      documentLinkProvider: { resolveProvider: false },
+      colorProvider: true,
+      semanticTokensProvider: {
+        legend: JSP_SEMANTIC_TOKENS_LEGEND,
+        full: true,
+        range: true,
+      },
+      inlayHintProvider: true,
     },
   };
 
@@ -949,6 +1256,7 @@ connection.onNotification('jsp/taglibsConfig', (cfg: any) => {
   };
 
   taglibIndex = undefined;
+  javaTypeIndexStale = true;
   // Revalidate open docs so completions/diagnostics update quickly.
   for (const d of documents.all()) {
     scheduleValidation(d);
@@ -963,6 +1271,39 @@ connection.onNotification('jsp/lintConfig', (cfg: any) => {
   }
 });
 
+// Custom notification from the VS Code extension when jsp.format.* settings change.
+connection.onNotification('jsp/formatConfig', (cfg: any) => {
+  formatConfig = normalizeFormatConfig(cfg);
+});
+
+// Custom notification from the VS Code extension when jsp.emmet.* settings change.
+connection.onNotification('jsp/emmetConfig', (cfg: any) => {
+  emmetConfig = normalizeEmmetConfig(cfg);
+});
+
+// Custom notification from the VS Code extension when jsp.java.* settings change.
+connection.onNotification('jsp/javaConfig', (cfg: any) => {
+  const previousCommand = javaConfig.languageServerCommand;
+  javaConfig = normalizeJavaConfig(cfg);
+  if (javaConfig.languageServerCommand.join('\0') !== previousCommand.join('\0')) {
+    void restartJavaBridge();
+  }
+});
+
+// Custom notification from the VS Code extension when jsp.inlayHints.* settings change.
+connection.onNotification('jsp/inlayHintsConfig', (cfg: any) => {
+  inlayHintsConfig = normalizeInlayHintsConfig(cfg);
+  if (inlayHintRefreshSupport) {
+    void connection.languages.inlayHint.refresh();
+  }
+});
+
+// Custom notification from the VS Code extension when jsp.html.* settings change.
+connection.onNotification('jsp/htmlConfig', (cfg: any) => {
+  htmlConfig = normalizeHtmlConfig(cfg);
+  void reloadHtmlCustomData().then(registerHtmlCustomDataWatcher);
+});
+
 // Custom notification from the VS Code extension when jsp.webRoots or jsp.includes.* change.
 connection.onNotification('jsp/includeConfig', (cfg: any) => {
   includeConfig = normalizeIncludeConfig(cfg);
@@ -1082,44 +1423,7 @@ function resolveIncludeTargetToFileUri(doc: TextDocument, includePath: string):
   return resolved ? pathToFileURL(resolved).toString() : undefined;
 }
 
-function buildDirectiveSymbols(doc: TextDocument): DocumentSymbol[] {
-  const text = doc.getText();
-  const symbols: DocumentSymbol[] = [];
-  const re = /<%@\s*(page|include|taglib)\b([\s\S]*?)%>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(text))) {
-    const kind = (m[1] ?? '').toLowerCase();
-    const body = m[2] ?? '';
-    const startOffset = m.index;
-    const endOffset = m.index + m[0].length;
-
-    let name = `@${kind}`;
-    if (kind === 'taglib') {
-      const pm = /\bprefix\s*=\s*(["'])([^"']+)\1/i.exec(body);
-      const um = /\buri\s*=\s*(["'])([^"']+)\1/i.exec(body);
-      const prefix = pm?.[2];
-      const uri = um?.[2];
-      if (prefix && uri) name = `@taglib ${prefix} → ${uri}`;
-      else if (prefix) name = `@taglib ${prefix}`;
-    }
-    if (kind === 'include') {
-      const fm = /\bfile\s*=\s*(["'])([^"']+)\1/i.exec(body);
-      const file = fm?.[2];
-      if (file) name = `@include ${file}`;
-    }
-
-    symbols.push({
-      name,
-      kind: SymbolKind.Namespace,
-      range: { start: doc.positionAt(startOffset), end: doc.positionAt(endOffset) },
-      selectionRange: { start: doc.positionAt(startOffset), end: doc.positionAt(endOffset) },
-      children: [],
-    });
-  }
-  return symbols;
-}
-
-connection.onDefinition(async (params): Promise<Location | Location[] | null> => {
+connection.onDefinition(async (params, token): Promise<Location | Location[] | null> => {
   const doc = documents.get(params.textDocument.uri);
   if (!doc) {
     return null;
@@ -1128,6 +1432,18 @@ connection.onDefinition(async (params): Promise<Location | Location[] | null> =>
   const jspText = doc.getText();
   const offset = doc.offsetAt(params.position);
 
+  // 0) Scriptlet code: the external Java language server when configured, else the page's own declarations.
+  const cached = getOrCreateParsedCache(doc);
+  const javaHit = findJavaRegionAtOffset(cached, offset);
+  if (javaHit && isJavaScriptletRegion(javaHit)) {
+    const bridged = await javaBridge?.findDefinition(doc, offset, token);
+    if (bridged) {
+      return bridged;
+    }
+    const symbols = getScriptletSymbolsAt(cached, offset);
+    return symbols ? findScriptletSymbolDefinition(doc, symbols, offset) : null;
+  }
+
   // 1) Taglib navigation: <prefix:tag> and known attributes.
   const hit = getTaglibNameAndAttrAtOffset(jspText, offset);
   if (hit) {
@@ -1168,6 +1484,18 @@ connection.onDefinition(async (params): Promise<Location | Location[] | null> =>
     }
   }
 
+  // 3) Selector navigation: class="..." / id="..." values to their CSS rules.
+  const selectorCtx = findSelectorAttributeContext(getOrCreateParsedCache(doc).htmlDocument.getText(), offset);
+  if (selectorCtx?.word) {
+    const defs = findSelectorDefinitions(
+      await ensureSelectorIndex(),
+      selectorCtx.kind,
+      selectorCtx.word,
+      getCurrentSelectorDefinitions(doc),
+    );
+    return defs.map((d) => ({ uri: d.uri, range: d.range }));
+  }
+
   return null;
 });
 
@@ -1269,7 +1597,14 @@ connection.onDocumentSymbol((params): Array<DocumentSymbol> | Array<SymbolInform
   if (!doc) {
     return [];
   }
-  return buildDirectiveSymbols(doc);
+
+  const cached = getOrCreateParsedCache(doc);
+  return buildJspDocumentSymbols({
+    doc,
+    javaRegions: cached.javaRegions,
+    htmlParsed: cached.htmlParsed as HTMLDocument,
+    scriptletSymbols: cached.scriptletSymbols,
+  });
 });
 
 connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
@@ -1336,24 +1671,395 @@ connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
         },
       });
     }
+
+    // Quick fix: remove an unused page import.
+    if (code === 'jsp.java.unused-import') {
+      const cached = getOrCreateParsedCache(doc);
+      const entry = findPageImports(text, cached.javaRegions).find((i) => i.jspStart === doc.offsetAt(d.range.start));
+      if (!entry) {
+        continue;
+      }
+
+      actions.push({
+        title: `Remove unused import '${entry.name}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [d],
+        isPreferred: true,
+        edit: { changes: { [doc.uri]: [removePageImportEdit(doc, entry)] } },
+      });
+    }
+
+    // Quick fix: import a type from the workspace type index.
+    if (code === 'jsp.java.missing-import') {
+      const candidates: unknown = (d as any).data?.candidates;
+      if (!Array.isArray(candidates)) {
+        continue;
+      }
+
+      const cached = getOrCreateParsedCache(doc);
+      for (const qualifiedName of candidates.filter((c): c is string => typeof c === 'string')) {
+        actions.push({
+          title: `Import '${qualifiedName}'`,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [d],
+          isPreferred: candidates.length === 1,
+          edit: { changes: { [doc.uri]: [addPageImportEdit(doc, cached.javaRegions, qualifiedName)] } },
+        });
+      }
+    }
+
+    // Quick fixes: escape output flagged by the XSS rules.
+    if (code.startsWith('jsp.xss.')) {
+      actions.push(
+        ...getXssQuickFixes({
+          doc,
+          javaRegions: getOrCreateParsedCache(doc).javaRegions,
+          diagnostic: d,
+          flavor: detectServletApiFlavor(text, javaConfig.servletApi),
+        }),
+      );
+    }
   }
 
+  // Refactorings: scriptlets at the cursor to EL/JSTL.
+  const cached = getOrCreateParsedCache(doc);
+  actions.push(
+    ...getScriptletToElCodeActions({
+      doc,
+      javaRegions: cached.javaRegions,
+      startOffset: doc.offsetAt(params.range.start),
+      endOffset: doc.offsetAt(params.range.end),
+      analysis: cached.scriptletSymbols,
+      flavor: detectServletApiFlavor(text, javaConfig.servletApi),
+    }),
+  );
+
   return actions;
 });
 
+connection.onDocumentFormatting((params: DocumentFormattingParams): TextEdit[] => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+  return formatJsp({ doc, options: params.options, config: formatConfig });
+});
+
+connection.onDocumentRangeFormatting((params: DocumentRangeFormattingParams): TextEdit[] => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+  return formatJsp({ doc, range: params.range, options: params.options, config: formatConfig });
+});
+
+connection.onFoldingRanges((params: FoldingRangeParams): FoldingRange[] => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+
+  const cached = getOrCreateParsedCache(doc);
+  return getJspFoldingRanges({
+    doc,
+    htmlDocument: cached.htmlDocument,
+    javaRegions: cached.javaRegions,
+    cssRegions: cached.cssRegions.map(({ region }) => region),
+  });
+});
+
+/** Word pattern for linked editing so `prefix:tag` names are edited as a whole. */
+const TAG_NAME_WORD_PATTERN = '[A-Za-z][A-Za-z0-9_.:-]*';
+
+function rangeFromSpan(doc: TextDocument, span: TagNameSpan): Range {
+  return { start: doc.positionAt(span.startOffset), end: doc.positionAt(span.endOffset) };
+}
+
+connection.languages.onLinkedEditingRange((params: LinkedEditingRangeParams): LinkedEditingRanges | null => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return null;
+  }
+
+  // Scan the projected HTML so tags inside scriptlets/EL are never paired.
+  const cached = getOrCreateParsedCache(doc);
+  const pair = findTagPairAtOffset(cached.htmlDocument.getText(), doc.offsetAt(params.position));
+  if (!pair?.close) {
+    return null;
+  }
+
+  return {
+    ranges: [rangeFromSpan(doc, pair.open), rangeFromSpan(doc, pair.close)],
+    wordPattern: TAG_NAME_WORD_PATTERN,
+  };
+});
+
+connection.onDocumentHighlight((params: DocumentHighlightParams): DocumentHighlight[] => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+
+  const cached = getOrCreateParsedCache(doc);
+  const projectedText = cached.htmlDocument.getText();
+  const offset = doc.offsetAt(params.position);
+
+  // Taglib directive prefix value: highlight the declaration and every `<prefix:...>` usage.
+  const dirHit = findTaglibDirectivePrefixValueAtOffset(doc.getText(), offset);
+  if (dirHit) {
+    return [
+      {
+        range: { start: doc.positionAt(dirHit.startOffset), end: doc.positionAt(dirHit.endOffset) },
+        kind: DocumentHighlightKind.Write,
+      },
+      ...scanTagPrefixUsagesInText(projectedText, dirHit.prefix).map((s) => ({
+        range: { start: doc.positionAt(s.startOffset), end: doc.positionAt(s.endOffset) },
+        kind: DocumentHighlightKind.Read,
+      })),
+    ];
+  }
+
+  // Matching start/end tag names.
+  const pair = findTagPairAtOffset(projectedText, offset);
+  if (!pair) {
+    return [];
+  }
+
+  return [pair.open, pair.close]
+    .filter((s): s is TagNameSpan => !!s)
+    .map((s) => ({ range: rangeFromSpan(doc, s), kind: DocumentHighlightKind.Read }));
+});
+
+connection.onDocumentColor((params: DocumentColorParams): ColorInformation[] => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+  return findJspDocumentColors(cssLanguageService, doc, getOrCreateParsedCache(doc).cssRegions);
+});
+
+connection.onColorPresentation((params: ColorPresentationParams): ColorPresentation[] => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+  return getJspColorPresentations(cssLanguageService, doc, getOrCreateParsedCache(doc).cssRegions, params.color, params.range);
+});
+
+connection.onDocumentLinks(async (params: DocumentLinkParams): Promise<DocumentLink[]> => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+
+  const cached = getOrCreateParsedCache(doc);
+  const candidates = findDocumentLinkCandidates(doc.getText(), cached.htmlDocument.getText());
+  const index = candidates.some((c) => c.kind === 'taglib-uri') ? await ensureTaglibIndex() : undefined;
+
+  const links: DocumentLink[] = [];
+  for (const c of candidates) {
+    let target: string | undefined;
+    if (c.kind === 'taglib-uri') {
+      // Jar-scanned TLDs (`jar:...!/META-INF/x.tld`) have no document to open.
+      const source = index?.byUri.get(c.value)?.source;
+      target = source && !source.startsWith('jar:') && !source.includes('!/') ? pathToFileURL(source).toString() : undefined;
+    } else if (isWebUrl(c.value)) {
+      target = c.value;
+    } else {
+      const localPath = toLocalResourcePath(c.value);
+      target = localPath ? resolveIncludeTargetToFileUri(doc, localPath) : undefined;
+    }
+
+    if (target) {
+      links.push({ range: { start: doc.positionAt(c.startOffset), end: doc.positionAt(c.endOffset) }, target });
+    }
+  }
+  return links;
+});
+
+async function getSemanticTokens(doc: TextDocument, range?: Range): Promise<SemanticTokens> {
+  const index = await ensureTaglibIndex();
+  const cached = getOrCreateParsedCache(doc);
+  const tokens = collectJspSemanticTokens({
+    jspText: doc.getText(),
+    projectedText: cached.htmlDocument.getText(),
+    javaRegions: cached.javaRegions,
+    elRegions: cached.elRegions,
+    index,
+  });
+  return encodeJspSemanticTokens(doc, tokens, range);
+}
+
+connection.languages.semanticTokens.on(async (params: SemanticTokensParams): Promise<SemanticTokens> => {
+  const doc = documents.get(params.textDocument.uri);
+  return doc ? getSemanticTokens(doc) : { data: [] };
+});
+
+connection.languages.semanticTokens.onRange(async (params: SemanticTokensRangeParams): Promise<SemanticTokens> => {
+  const doc = documents.get(params.textDocument.uri);
+  return doc ? getSemanticTokens(doc, params.range) : { data: [] };
+});
+
+connection.languages.inlayHint.on(async (params: InlayHintParams): Promise<InlayHint[]> => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return [];
+  }
+
+  const cached = getOrCreateParsedCache(doc);
+  const docFsPath = uriToFsPath(doc.uri);
+  return collectJspInlayHints({
+    doc,
+    projectedText: cached.htmlDocument.getText(),
+    index: inlayHintsConfig.attributeTypes ? await ensureTaglibIndex() : undefined,
+    config: inlayHintsConfig,
+    resolveIncludePath: (includePath) => {
+      const resolved = docFsPath
+        ? resolveIncludeTargetToFsPath({
+            docFsPath,
+            workspaceRoots,
+            webRoots: includeConfig.webRoots,
+            includePath,
+            strategy: includeConfig.resolveStrategy,
+          })
+        : undefined;
+      const root = resolved ? workspaceRoots.find((r) => resolved.startsWith(r + path.sep)) : undefined;
+      return resolved && root ? path.relative(root, resolved).split(path.sep).join('/') : resolved;
+    },
+    range: params.range,
+  });
+});
+
+/**
+ * Auto-close request (like the HTML extension's `html/tag`), sent by the client after `>` or `/`
+ * is typed. Returns the snippet to insert and the range it replaces.
+ */
+connection.onRequest(
+  'jsp/autoCloseTag',
+  async (params: TextDocumentPositionParams): Promise<{ snippet: string; range: Range } | null> => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+      return null;
+    }
+
+    const index = await ensureTaglibIndex();
+    const prefixToUri = parseTaglibPrefixToUri(doc.getText());
+    const cached = getOrCreateParsedCache(doc);
+
+    const result = getAutoCloseTag({
+      projectedText: cached.htmlDocument.getText(),
+      offset: doc.offsetAt(params.position),
+      resolveTag: (prefix, localName) => {
+        const uri = prefixToUri.get(prefix);
+        return uri ? index?.byUri.get(uri)?.tags.get(localName) : undefined;
+      },
+    });
+    if (!result) {
+      return null;
+    }
+
+    return {
+      snippet: result.snippet,
+      range: { start: doc.positionAt(result.startOffset), end: doc.positionAt(result.endOffset) },
+    };
+  },
+);
+
+/** Jasper-style servlet Java for the page, shared by `jsp/translatedJava` and the Java language server bridge. */
+function translatePage(doc: TextDocument): TranslatedJava {
+  const cached = getOrCreateParsedCache(doc);
+  return translateJspToJava({
+    jspText: doc.getText(),
+    javaRegions: cached.javaRegions,
+    pageImports: cached.pageImports,
+    className: jasperClassName(decodeURIComponent(doc.uri.replace(/[?#].*$/, ''))),
+    flavor: detectServletApiFlavor(doc.getText(), javaConfig.servletApi),
+  });
+}
+
+/** (Re)starts the Java language server bridge for the configured command, or stops it when none is set. */
+async function restartJavaBridge(): Promise<void> {
+  const previous = javaBridge;
+  javaBridge = undefined;
+  await previous?.dispose();
+
+  if (javaConfig.languageServerCommand.length > 0) {
+    javaBridge = createJavaLanguageServerBridge({
+      command: javaConfig.languageServerCommand,
+      cwd: workspaceRoots[0],
+      workspaceFolderUris: workspaceRoots.map((root) => pathToFileURL(root).href),
+      translate: translatePage,
+      onDiagnostics: (jspUri) => {
+        const doc = documents.get(jspUri);
+        if (doc) {
+          scheduleValidation(doc);
+        }
+      },
+      log: (message) => connection.console.log(`[java] ${message}`),
+    });
+  }
+  for (const d of documents.all()) {
+    scheduleValidation(d);
+  }
+}
+
+/** A generated range and the JSP range it was translated from (`verbatim` when the text was copied as is). */
+type TranslatedJavaSegment = { jspRange: Range; javaRange: Range; verbatim: boolean };
+
+/**
+ * Java servlet source an approximate Jasper translation of the page produces (`jsp.showTranslatedJava`),
+ * with the segments the client uses to reveal JSP and Java ranges from one another.
+ */
+connection.onRequest(
+  'jsp/translatedJava',
+  (params: {
+    textDocument: { uri: string };
+  }): { className: string; source: string; segments: TranslatedJavaSegment[] } | null => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+      return null;
+    }
+
+    const translated = translatePage(doc);
+    const javaDoc = TextDocument.create(`${doc.uri}.java`, 'java', doc.version, translated.source);
+    const toSegment = (jspStart: number, jspEnd: number, javaStart: number, javaEnd: number, verbatim: boolean) => ({
+      jspRange: { start: doc.positionAt(jspStart), end: doc.positionAt(jspEnd) },
+      javaRange: { start: javaDoc.positionAt(javaStart), end: javaDoc.positionAt(javaEnd) },
+      verbatim,
+    });
+    return {
+      className: translated.className,
+      source: translated.source,
+      segments: [
+        ...translated.segments.map((s) => toSegment(s.jspStart, s.jspEnd, s.javaStart, s.javaEnd, false)),
+        ...translated.mappings.map((m) =>
+          toSegment(m.jspOffset, m.jspOffset + m.length, m.javaOffset, m.javaOffset + m.length, true),
+        ),
+      ],
+    };
+  },
+);
+
 connection.onInitialized(() => {
   connection.console.log('JSP language server ready');
-  // Build taglib index in the background.
+  void restartJavaBridge();
+  // Build taglib and selector indexes in the background.
   void ensureTaglibIndex();
+  void ensureSelectorIndex();
+  void reloadHtmlCustomData().then(registerHtmlCustomDataWatcher);
 
   // Watch for .tld file changes so taglib completions/diagnostics update without reload.
   // VS Code supports dynamic registration for file watching.
   void connection.client
     .register(DidChangeWatchedFilesNotification.type, {
-      watchers: [{ globPattern: '**/*.tld' }],
+      watchers: [
+        { globPattern: '**/*.tld' },
+        { globPattern: '**/*.{css,jsp,jspf,tag}' },
+        { globPattern: '**/*.{java,jar}' },
+      ],
     })
     .then(() => {
-      connection.console.log('Registered .tld file watcher');
+      connection.console.log('Registered .tld/.css/.jsp file watchers');
     })
     .catch((err) => {
       // Non-fatal: the server will still periodically rebuild the taglib index.
@@ -1362,6 +2068,32 @@ connection.onInitialized(() => {
 });
 
 connection.onDidChangeWatchedFiles((params) => {
+  // Keep the selector index current; deleted files simply drop out on re-read.
+  if (selectorIndex) {
+    const index = selectorIndex;
+    for (const c of params.changes) {
+      const fsPath = uriToFsPath(c.uri);
+      if (fsPath && isSelectorSourcePath(fsPath)) {
+        void updateSelectorIndexFile(index, fsPath);
+      }
+    }
+  }
+
+  const hasCustomDataChange = params.changes.some((c) => {
+    const fsPath = uriToFsPath(c.uri);
+    return !!fsPath && htmlCustomDataPaths.includes(path.normalize(fsPath));
+  });
+  if (hasCustomDataChange) {
+    void reloadHtmlCustomData();
+  }
+
+  if (params.changes.some((c) => /\.(?:java|jar)$/i.test(c.uri))) {
+    javaTypeIndexStale = true;
+    if (javaTypeIndex) {
+      peekJavaTypeIndex();
+    }
+  }
+
   const hasTldChange = params.changes.some((c) => c.uri.toLowerCase().endsWith('.tld'));
   if (!hasTldChange) {
     return;
@@ -1377,8 +2109,7 @@ connection.onDidChangeWatchedFiles((params) => {
 });
 
 documents.onDidChangeContent((change: TextDocumentChangeEvent<TextDocument>) => {
-  // Clear cached parse for this version. We'll rebuild lazily on demand.
-  parsedCache.delete(change.document.uri);
+  // The cache was already brought up to date (or dropped) when the changes were applied.
   scheduleValidation(change.document);
 });
 
@@ -1389,10 +2120,103 @@ documents.onDidClose((close: { document: TextDocument }) => {
     pendingValidations.delete(close.document.uri);
   }
   parsedCache.delete(close.document.uri);
+  javaBridge?.closeDocument(close.document.uri);
   connection.sendDiagnostics({ uri: close.document.uri, diagnostics: [] });
 });
 
-connection.onCompletion(async (params: CompletionParams): Promise<CompletionList> => {
+/** Selectors defined by the document itself, from its current (possibly unsaved) text. */
+function getCurrentSelectorDefinitions(doc: TextDocument): { uri: string; definitions: SelectorDefinition[] } {
+  const regions = getOrCreateParsedCache(doc).cssRegions.map(({ region }) => region);
+  return { uri: doc.uri, definitions: getSelectorDefinitionsFromCssRegions(doc, regions) };
+}
+
+function describeSelectorSource(uri: string): string {
+  const fsPath = uriToFsPath(uri);
+  const root = fsPath ? workspaceRoots.find((r) => fsPath.startsWith(r + path.sep)) : undefined;
+  return fsPath && root ? path.relative(root, fsPath) : (fsPath ?? uri);
+}
+
+async function getSelectorCompletions(doc: TextDocument, offset: number): Promise<CompletionList | undefined> {
+  const ctx = findSelectorAttributeContext(getOrCreateParsedCache(doc).htmlDocument.getText(), offset);
+  if (!ctx) {
+    return undefined;
+  }
+
+  const index = await ensureSelectorIndex();
+  const names = listSelectorNames(index, ctx.kind, getCurrentSelectorDefinitions(doc));
+  const range = { start: doc.positionAt(ctx.wordStart), end: doc.positionAt(ctx.wordEnd) };
+  const items: CompletionItem[] = [];
+  for (const [name, uri] of names) {
+    if (ctx.otherValues.includes(name)) {
+      continue;
+    }
+    items.push({
+      label: name,
+      kind: CompletionItemKind.Value,
+      detail: describeSelectorSource(uri),
+      textEdit: { range, newText: name },
+    });
+  }
+  return { isIncomplete: false, items };
+}
+
+async function getSelectorHover(doc: TextDocument, offset: number): Promise<Hover | null> {
+  const ctx = findSelectorAttributeContext(getOrCreateParsedCache(doc).htmlDocument.getText(), offset);
+  if (!ctx?.word) {
+    return null;
+  }
+
+  const defs = findSelectorDefinitions(await ensureSelectorIndex(), ctx.kind, ctx.word, getCurrentSelectorDefinitions(doc));
+  if (!defs.length) {
+    return null;
+  }
+
+  const shown = defs.slice(0, 3);
+  const md = shown.map((d) => `\`${describeSelectorSource(d.uri)}\`\n\n\`\`\`css\n${d.ruleText}\n\`\`\``);
+  if (defs.length > shown.length) {
+    md.push(`...and ${defs.length - shown.length} more definition(s)`);
+  }
+
+  return {
+    contents: { kind: MarkupKind.Markdown, value: md.join('\n\n---\n\n') },
+    range: { start: doc.positionAt(ctx.wordStart), end: doc.positionAt(ctx.wordEnd) },
+  };
+}
+
+/**
+ * Emmet abbreviations in markup. JSP constructs (scriptlets, directives, EL) never expand;
+ * CSS and JavaScript regions are handled before this is reached.
+ */
+function getEmmetCompletions(
+  doc: TextDocument,
+  cached: ParsedDocumentCache,
+  position: Position,
+  index: TaglibIndex | undefined,
+): CompletionList | undefined {
+  if (!emmetConfig.enable) {
+    return undefined;
+  }
+
+  const offset = doc.offsetAt(position);
+  const insideJsp =
+    cached.javaRegions.some((r) => offset > r.jspStartOffset && offset < r.jspEndOffset) ||
+    cached.elRegions.some((r) => offset > r.jspStartOffset && offset < r.jspEndOffset);
+  if (insideJsp) {
+    return undefined;
+  }
+
+  const prefixToUri = parseTaglibPrefixToUri(doc.getText());
+  return getJspEmmetCompletions({
+    htmlDocument: cached.htmlDocument,
+    position,
+    resolveTag: (prefix, localName) => {
+      const uri = prefixToUri.get(prefix);
+      return uri ? index?.byUri.get(uri)?.tags.get(localName) : undefined;
+    },
+  });
+}
+
+connection.onCompletion(async (params: CompletionParams, token): Promise<CompletionList> => {
   const doc = documents.get(params.textDocument.uri);
   if (!doc) {
     return { isIncomplete: false, items: [] };
@@ -1403,7 +2227,19 @@ connection.onCompletion(async (params: CompletionParams): Promise<CompletionList
 
   const javaHit = findJavaRegionAtOffset(cached, offset);
   if (javaHit && isJavaScriptletRegion(javaHit)) {
-    return getJavaImplicitObjectCompletions();
+    const bridged = await javaBridge?.doComplete(doc, offset, token);
+    if (bridged) {
+      return bridged;
+    }
+    const symbols = getScriptletSymbolsAt(cached, offset);
+    return (
+      getScriptletMemberCompletions(doc, javaHit, offset, variableTypeLookup(symbols, offset)) ??
+      getJavaIdentifierCompletions(symbols, offset)
+    );
+  }
+  const importEntry = javaHit && findPageImportEntry(doc.getText(), javaHit, offset);
+  if (importEntry) {
+    return getPageImportCompletions(doc, importEntry, await ensureJavaTypeIndex());
   }
 
   const elContext = isElIdentifierContext(doc.getText(), cached.elRegions, offset);
@@ -1423,9 +2259,18 @@ connection.onCompletion(async (params: CompletionParams): Promise<CompletionList
     return mapCompletionListFromCssToJsp(doc, region, cssDoc, list);
   }
 
-  const elHover = getElImplicitObjectHover(doc, cached, offset);
-  if (elHover) {
-    return elHover;
+  const jsHit = findJsRegionAtOffset(cached, offset);
+  if (jsHit) {
+    const jsDoc = jsHit.jsDocument;
+    const jsPos = jsDoc.positionAt(mapOffsetFromJspToJs(jsHit, offset));
+
+    const list = jsLanguageService.doComplete(jsDoc, jsPos);
+    return mapCompletionListFromJsToJsp(doc, jsHit, list);
+  }
+
+  const selectorList = await getSelectorCompletions(doc, offset);
+  if (selectorList) {
+    return selectorList;
   }
 
   const tldIndex = await ensureTaglibIndex();
@@ -1433,20 +2278,18 @@ connection.onCompletion(async (params: CompletionParams): Promise<CompletionList
 
   const jspSnippets = getJspSnippetCompletions(doc, params.position);
   const htmlList = htmlLanguageService.doComplete(cached.htmlDocument, params.position, cached.htmlParsed as any);
-  if (!jspSnippets.length) {
-    return {
-      ...htmlList,
-      items: [...taglibItems, ...htmlList.items],
-    };
-  }
+  const emmetList = getEmmetCompletions(doc, cached, params.position, tldIndex);
+  const emmetItems = emmetList?.items ?? [];
 
   return {
     ...htmlList,
-    items: [...jspSnippets, ...taglibItems, ...htmlList.items],
+    // Emmet abbreviations grow with every keystroke; ask the client to re-query.
+    isIncomplete: htmlList.isIncomplete || !!emmetList?.isIncomplete || emmetItems.length > 0,
+    items: [...jspSnippets, ...taglibItems, ...htmlList.items, ...emmetItems],
   };
 });
 
-connection.onHover(async (params: HoverParams): Promise<Hover | null> => {
+connection.onHover(async (params: HoverParams, token): Promise<Hover | null> => {
   const doc = documents.get(params.textDocument.uri);
   if (!doc) {
     return null;
@@ -1455,6 +2298,25 @@ connection.onHover(async (params: HoverParams): Promise<Hover | null> => {
   const cached = getOrCreateParsedCache(doc);
   const offset = doc.offsetAt(params.position);
 
+  const javaHit = findJavaRegionAtOffset(cached, offset);
+  if (javaHit && isJavaScriptletRegion(javaHit)) {
+    const bridged = await javaBridge?.doHover(doc, offset, token);
+    if (bridged) {
+      return bridged;
+    }
+    const symbols = getScriptletSymbolsAt(cached, offset);
+    return (
+      (symbols && getScriptletSymbolHover(doc, symbols, offset)) ??
+      getScriptletHover(
+        doc,
+        javaHit,
+        offset,
+        detectServletApiFlavor(doc.getText(), javaConfig.servletApi),
+        variableTypeLookup(symbols, offset),
+      )
+    );
+  }
+
   const cssHit = findCssRegionAtOffset(cached, offset);
   if (cssHit) {
     const { region, stylesheet } = cssHit;
@@ -1472,6 +2334,31 @@ connection.onHover(async (params: HoverParams): Promise<Hover | null> => {
     };
   }
 
+  const jsHit = findJsRegionAtOffset(cached, offset);
+  if (jsHit) {
+    const jsDoc = jsHit.jsDocument;
+    const jsPos = jsDoc.positionAt(mapOffsetFromJspToJs(jsHit, offset));
+
+    const hover = jsLanguageService.doHover(jsDoc, jsPos);
+    if (!hover) {
+      return null;
+    }
+    return {
+      ...hover,
+      range: hover.range ? mapRangeFromJsToJsp(doc, jsHit, hover.range) : undefined,
+    };
+  }
+
+  const elHover = getElImplicitObjectHover(doc, cached, offset);
+  if (elHover) {
+    return elHover;
+  }
+
+  const selectorHover = await getSelectorHover(doc, offset);
+  if (selectorHover) {
+    return selectorHover;
+  }
+
   const tldIndex = await ensureTaglibIndex();
   const taglibHover = getTaglibHover(doc, params.position, tldIndex);
   if (taglibHover) {
@@ -1481,4 +2368,32 @@ connection.onHover(async (params: HoverParams): Promise<Hover | null> => {
   return htmlLanguageService.doHover(cached.htmlDocument, params.position, cached.htmlParsed as any);
 });
 
+connection.onSignatureHelp((params: SignatureHelpParams): SignatureHelp | null => {
+  const doc = documents.get(params.textDocument.uri);
+  if (!doc) {
+    return null;
+  }
+
+  const cached = getOrCreateParsedCache(doc);
+  const offset = doc.offsetAt(params.position);
+
+  const javaHit = findJavaRegionAtOffset(cached, offset);
+  if (javaHit && isJavaScriptletRegion(javaHit)) {
+    return getScriptletSignatureHelp(doc, javaHit, offset, variableTypeLookup(getScriptletSymbolsAt(cached, offset), offset));
+  }
+
+  const jsHit = findJsRegionAtOffset(cached, offset);
+  if (!jsHit) {
+    return null;
+  }
+
+  const jsDoc = jsHit.jsDocument;
+  return jsLanguageService.doSignatureHelp(jsDoc, jsDoc.positionAt(mapOffsetFromJspToJs(jsHit, offset)));
+});
+
+connection.onShutdown(async () => {
+  await javaBridge?.dispose();
+  javaBridge = undefined;
+});
+
 connection.listen();
@@ -3,6 +3,7 @@ import * as vscode from 'vscode';
 import {
   LanguageClient,
   type LanguageClientOptions,
+  type Range as ProtocolRange,
   type ServerOptions,
   TransportKind,
 } from 'vscode-languageclient/node';
@@ -31,7 +32,7 @@ function getLintConfig(): {
   const maxCount = cfg.get<number>('lint.scriptlets.maxCount', 5);
   const maxLines = cfg.get<number>('lint.scriptlets.maxLines', 30);
   const maxNesting = cfg.get<number>('lint.scriptlets.maxNesting', 3);
-  const enableSyntaxDiagnostics = cfg.get<boolean>('lint.java.enableSyntaxDiagnostics', false);
+  const enableSyntaxDiagnostics = cfg.get<boolean>('lint.java.enableSyntaxDiagnostics', true);
   return {
     enable,
     rules,
@@ -47,6 +48,53 @@ function getIncludeConfig(): { webRoots: string[]; resolveStrategy: string } {
   return { webRoots, resolveStrategy };
 }
 
+function getFormatConfig(): {
+  enable: boolean;
+  wrapLineLength: number;
+  wrapAttributes: string;
+  indentInnerHtml: boolean;
+  preserveNewLines: boolean;
+  maxPreserveNewLines: number;
+  endWithNewline: boolean;
+} {
+  const cfg = vscode.workspace.getConfiguration('jsp');
+  const enable = cfg.get<boolean>('format.enable', true);
+  const wrapLineLength = cfg.get<number>('format.wrapLineLength', 120);
+  const wrapAttributes = cfg.get<string>('format.wrapAttributes', 'auto');
+  const indentInnerHtml = cfg.get<boolean>('format.indentInnerHtml', false);
+  const preserveNewLines = cfg.get<boolean>('format.preserveNewLines', true);
+  const maxPreserveNewLines = cfg.get<number>('format.maxPreserveNewLines', 0);
+  const endWithNewline = cfg.get<boolean>('format.endWithNewline', false);
+  return { enable, wrapLineLength, wrapAttributes, indentInnerHtml, preserveNewLines, maxPreserveNewLines, endWithNewline };
+}
+
+function getEmmetConfig(): { enable: boolean } {
+  const cfg = vscode.workspace.getConfiguration('jsp');
+  const enable = cfg.get<boolean>('emmet.enable', true);
+  return { enable };
+}
+
+function getJavaConfig(): { servletApi: string; languageServer: { command: string[] } } {
+  const cfg = vscode.workspace.getConfiguration('jsp');
+  const servletApi = cfg.get<string>('java.servletApi', 'auto');
+  const command = cfg.get<string[]>('java.languageServer.command', []);
+  return { servletApi, languageServer: { command } };
+}
+
+function getInlayHintsConfig(): { attributeTypes: boolean; includeTargets: boolean; variableTypes: boolean } {
+  const cfg = vscode.workspace.getConfiguration('jsp');
+  const attributeTypes = cfg.get<boolean>('inlayHints.attributeTypes.enabled', true);
+  const includeTargets = cfg.get<boolean>('inlayHints.includeTargets.enabled', true);
+  const variableTypes = cfg.get<boolean>('inlayHints.variableTypes.enabled', true);
+  return { attributeTypes, includeTargets, variableTypes };
+}
+
+function getHtmlConfig(): { customData: string[] } {
+  const cfg = vscode.workspace.getConfiguration('jsp');
+  const customData = cfg.get<string[]>('html.customData', []);
+  return { customData };
+}
+
 function resolveWebRoots(webRoots: string[], workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined): string[] {
   if (!workspaceFolders?.length) {
     return webRoots;
@@ -65,6 +113,223 @@ function resolveWebRoots(webRoots: string[], workspaceFolders: readonly vscode.W
   return out;
 }
 
+/**
+ * Mirrors the HTML extension's auto-insertion: after `>` or `/` is typed in a JSP document, ask the
+ * server for a closing tag (or a self-close for `body-content` `empty` taglib tags) and insert it.
+ */
+function activateAutoClosingTags(languageClient: LanguageClient): vscode.Disposable {
+  let timeout: NodeJS.Timeout | undefined;
+
+  const listener = vscode.workspace.onDidChangeTextDocument((e) => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = undefined;
+    }
+
+    const document = e.document;
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document !== document || document.languageId !== 'jsp') {
+      return;
+    }
+    if (e.reason === vscode.TextDocumentChangeReason.Undo || e.reason === vscode.TextDocumentChangeReason.Redo) {
+      return;
+    }
+    if (!vscode.workspace.getConfiguration('jsp', document).get<boolean>('autoClosingTags', true)) {
+      return;
+    }
+
+    const change = e.contentChanges[e.contentChanges.length - 1];
+    if (e.contentChanges.length !== 1 || !change || change.rangeLength !== 0 || (change.text !== '>' && change.text !== '/')) {
+      return;
+    }
+
+    const position = change.range.start.translate(0, 1);
+    const version = document.version;
+
+    timeout = setTimeout(async () => {
+      timeout = undefined;
+      // The server may be restarting or gone; then there is simply nothing to close.
+      const result = await languageClient
+        .sendRequest<{ snippet: string; range: ProtocolRange } | null>('jsp/autoCloseTag', {
+          textDocument: { uri: document.uri.toString() },
+          position: languageClient.code2ProtocolConverter.asPosition(position),
+        })
+        .catch(() => null);
+      if (!result || document.version !== version) {
+        return;
+      }
+
+      const activeEditor = vscode.window.activeTextEditor;
+      if (activeEditor?.document !== document || !activeEditor.selection.active.isEqual(position)) {
+        return;
+      }
+
+      const range = languageClient.protocol2CodeConverter.asRange(result.range);
+      void activeEditor.insertSnippet(new vscode.SnippetString(result.snippet), range);
+    }, 100);
+  });
+
+  return new vscode.Disposable(() => {
+    listener.dispose();
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+  });
+}
+
+type TranslatedJavaSegment = { jspRange: vscode.Range; javaRange: vscode.Range; verbatim: boolean };
+
+const TRANSLATED_JAVA_SCHEME = 'jsp-java';
+
+/**
+ * `jsp.showTranslatedJava`: shows the servlet Java the server translates the active JSP to in a read-only
+ * virtual document, kept up to date while the JSP is edited. Clicking in either document highlights and
+ * reveals the corresponding range in the other one.
+ */
+function activateTranslatedJavaView(languageClient: LanguageClient): vscode.Disposable {
+  const onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  /** Segments of the last translation, by virtual document URI. */
+  const segmentsByUri = new Map<string, TranslatedJavaSegment[]>();
+  const highlight = vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+  });
+  /** Pending refreshes, by virtual document URI. */
+  const refreshTimeouts = new Map<string, NodeJS.Timeout>();
+
+  const javaUriFor = (jspUri: vscode.Uri): vscode.Uri =>
+    vscode.Uri.from({
+      scheme: TRANSLATED_JAVA_SCHEME,
+      path: `/${path.posix.basename(jspUri.path)}.java`,
+      query: jspUri.toString(),
+    });
+  const jspUriFor = (javaUri: vscode.Uri): vscode.Uri => vscode.Uri.parse(javaUri.query);
+
+  const provider: vscode.TextDocumentContentProvider = {
+    onDidChange: onDidChange.event,
+    async provideTextDocumentContent(uri) {
+      const jspUri = jspUriFor(uri);
+      const result = await languageClient.sendRequest<{
+        className: string;
+        source: string;
+        segments: { jspRange: ProtocolRange; javaRange: ProtocolRange; verbatim: boolean }[];
+      } | null>('jsp/translatedJava', { textDocument: { uri: jspUri.toString() } });
+      if (!result) {
+        segmentsByUri.delete(uri.toString());
+        return `// ${jspUri.fsPath || jspUri.toString()} is not open.\n`;
+      }
+
+      const asRange = (r: ProtocolRange) => languageClient.protocol2CodeConverter.asRange(r);
+      segmentsByUri.set(
+        uri.toString(),
+        result.segments.map((s) => ({ jspRange: asRange(s.jspRange), javaRange: asRange(s.javaRange), verbatim: s.verbatim })),
+      );
+      return result.source;
+    },
+  };
+
+  /**
+   * Where a click at `position` leads in the other document: the construct it was translated from/to
+   * (highlighted) and, inside copied code, the exact corresponding position.
+   */
+  const findTarget = (
+    segments: TranslatedJavaSegment[],
+    position: vscode.Position,
+    from: vscode.TextDocument,
+    to: vscode.TextDocument,
+    fromJava: boolean,
+  ): { position: vscode.Position; highlight: vscode.Range } | undefined => {
+    const sourceOf = (s: TranslatedJavaSegment) => (fromJava ? s.javaRange : s.jspRange);
+    const targetOf = (s: TranslatedJavaSegment) => (fromJava ? s.jspRange : s.javaRange);
+    const containing = segments.filter((s) => sourceOf(s).contains(position));
+    const construct = containing.find((s) => !s.verbatim);
+    if (!construct) {
+      return undefined;
+    }
+    const copied = containing.find((s) => s.verbatim);
+    const at = copied
+      ? to.positionAt(to.offsetAt(targetOf(copied).start) + from.offsetAt(position) - from.offsetAt(sourceOf(copied).start))
+      : targetOf(construct).start;
+    return { position: at, highlight: targetOf(construct) };
+  };
+
+  const selectionListener = vscode.window.onDidChangeTextEditorSelection((e) => {
+    if (e.kind !== vscode.TextEditorSelectionChangeKind.Mouse) {
+      return;
+    }
+    const document = e.textEditor.document;
+    const fromJava = document.uri.scheme === TRANSLATED_JAVA_SCHEME;
+    if (!fromJava && document.languageId !== 'jsp') {
+      return;
+    }
+
+    const javaUri = fromJava ? document.uri : javaUriFor(document.uri);
+    const otherUri = (fromJava ? jspUriFor(document.uri) : javaUri).toString();
+    const segments = segmentsByUri.get(javaUri.toString());
+    const other = vscode.window.visibleTextEditors.find((ed) => ed.document.uri.toString() === otherUri);
+    if (!segments || !other) {
+      return;
+    }
+    const target = findTarget(segments, e.selections[0]!.active, document, other.document, fromJava);
+    if (!target) {
+      return;
+    }
+
+    for (const ed of vscode.window.visibleTextEditors) {
+      ed.setDecorations(highlight, []);
+    }
+    other.setDecorations(highlight, [target.highlight]);
+    other.revealRange(new vscode.Range(target.position, target.position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  });
+
+  const changeListener = vscode.workspace.onDidChangeTextDocument((e) => {
+    if (e.document.languageId !== 'jsp') {
+      return;
+    }
+    const javaUri = javaUriFor(e.document.uri);
+    if (!vscode.workspace.textDocuments.some((d) => d.uri.toString() === javaUri.toString())) {
+      return;
+    }
+    const key = javaUri.toString();
+    clearTimeout(refreshTimeouts.get(key));
+    refreshTimeouts.set(
+      key,
+      setTimeout(() => {
+        refreshTimeouts.delete(key);
+        onDidChange.fire(javaUri);
+      }, 300),
+    );
+  });
+
+  const command = vscode.commands.registerCommand('jsp.showTranslatedJava', async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'jsp') {
+      void vscode.window.showInformationMessage('Open a JSP file to show its translated Java.');
+      return;
+    }
+    const javaDocument = await vscode.workspace.openTextDocument(javaUriFor(editor.document.uri));
+    await vscode.window.showTextDocument(javaDocument, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preserveFocus: true,
+      preview: false,
+    });
+  });
+
+  return vscode.Disposable.from(
+    vscode.workspace.registerTextDocumentContentProvider(TRANSLATED_JAVA_SCHEME, provider),
+    command,
+    selectionListener,
+    changeListener,
+    highlight,
+    onDidChange,
+    new vscode.Disposable(() => {
+      for (const timeout of refreshTimeouts.values()) {
+        clearTimeout(timeout);
+      }
+      refreshTimeouts.clear();
+    }),
+  );
+}
+
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
   outputChannel = vscode.window.createOutputChannel('JSP Language Server');
   context.subscriptions.push(outputChannel);
@@ -114,6 +379,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       taglibs: getTaglibsConfig(),
       lint: getLintConfig(),
       includes: getIncludeConfig(),
+      format: getFormatConfig(),
+      emmet: getEmmetConfig(),
+      inlayHints: getInlayHintsConfig(),
+      java: getJavaConfig(),
+      html: getHtmlConfig(),
     },
   };
 
@@ -126,6 +396,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   await client.start();
   context.subscriptions.push(client);
+  context.subscriptions.push(activateAutoClosingTags(client));
+  context.subscriptions.push(activateTranslatedJavaView(client));
 
   // Forward settings changes to the server so taglib discovery updates without reload.
   context.subscriptions.push(
@@ -144,6 +416,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       if (e.affectsConfiguration('jsp.webRoots') || e.affectsConfiguration('jsp.includes')) {
         void client.sendNotification('jsp/includeConfig', getIncludeConfig());
       }
+
+      if (e.affectsConfiguration('jsp.format')) {
+        void client.sendNotification('jsp/formatConfig', getFormatConfig());
+      }
+
+      if (e.affectsConfiguration('jsp.emmet')) {
+        void client.sendNotification('jsp/emmetConfig', getEmmetConfig());
+      }
+
+      if (e.affectsConfiguration('jsp.java')) {
+        void client.sendNotification('jsp/javaConfig', getJavaConfig());
+      }
+
+      if (e.affectsConfiguration('jsp.inlayHints')) {
+        void client.sendNotification('jsp/inlayHintsConfig', getInlayHintsConfig());
+      }
+
+      if (e.affectsConfiguration('jsp.html')) {
+        void client.sendNotification('jsp/htmlConfig', getHtmlConfig());
+      }
     }),
   );
 }
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'vitest';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { getAutoCloseTag } from '../server/src/jsp/taglibs/autoCloseTag';
+import { parseTldXml } from '../server/src/jsp/taglibs/parseTld';
+
+const TLD = [
+  '<taglib>',
+  '  <uri>http://example.com/tld/demo</uri>',
+  '  <tag><name>form</name><body-content>JSP</body-content></tag>',
+  '  <tag><name>input</name><body-content>empty</body-content></tag>',
+  '  <tag><name>legacy</name><bodycontent>EMPTY</bodycontent></tag>',
+  '</taglib>',
+].join('\n');
+
+const taglib = parseTldXml(TLD, 'demo.tld');
+
+/** Runs auto-close with the cursor at `|` (removed from the text). */
+function autoClose(jspWithCursor: string) {
+  const offset = jspWithCursor.indexOf('|');
+  const jsp = jspWithCursor.slice(0, offset) + jspWithCursor.slice(offset + 1);
+  return getAutoCloseTag({
+    projectedText: maskJspToHtml(jsp),
+    offset,
+    resolveTag: (prefix, localName) => (prefix === 'demo' ? taglib.tags.get(localName) : undefined),
+  });
+}
+
+describe('auto-close tags', () => {
+  test('parses body-content (and the JSP 1.1 bodycontent spelling) from TLDs', () => {
+    expect(taglib.tags.get('form')!.bodyContent).toBe('JSP');
+    expect(taglib.tags.get('input')!.bodyContent).toBe('empty');
+    expect(taglib.tags.get('legacy')!.bodyContent).toBe('EMPTY');
+  });
+
+  test('closes HTML and taglib start tags, including ones with EL containing ">"', () => {
+    expect(autoClose('<div class="a">|')).toEqual({ snippet: '$0</div>', startOffset: 15, endOffset: 15 });
+    expect(autoClose('<c:if test="${a > b}">|')!.snippet).toBe('$0</c:if>');
+    expect(autoClose('<demo:form action="x">|')!.snippet).toBe('$0</demo:form>');
+  });
+
+  test('self-closes taglib tags declared with body-content empty', () => {
+    expect(autoClose('<demo:input name="a">|')).toEqual({ snippet: ' />', startOffset: 20, endOffset: 21 });
+    expect(autoClose('<demo:legacy >|')).toEqual({ snippet: '/>', startOffset: 13, endOffset: 14 });
+  });
+
+  test('does nothing for void, self-closed or already closed elements', () => {
+    expect(autoClose('<br>|')).toBeUndefined();
+    expect(autoClose('<c:set var="x" value="1"/>|')).toBeUndefined();
+    expect(autoClose('<p>|</p>')).toBeUndefined();
+  });
+
+  test('ignores ">" typed inside attribute values, scriptlets, EL and scripts', () => {
+    expect(autoClose('<a title="x>|')).toBeUndefined();
+    expect(autoClose('<% if (a >|')).toBeUndefined();
+    expect(autoClose('<p>${a >|}</p>')).toBeUndefined();
+    expect(autoClose('<script>var s = "<b>|";</script>')).toBeUndefined();
+  });
+
+  test('completes "</" with the innermost unclosed element', () => {
+    expect(autoClose('<c:forEach items="${xs}" var="x"><li><br></|')).toEqual({
+      snippet: 'li>',
+      startOffset: 43,
+      endOffset: 43,
+    });
+    expect(autoClose('<ul><li>a</li></|')!.snippet).toBe('ul>');
+    expect(autoClose('<c:if test="${x}"></|>')!.snippet).toBe('c:if');
+    expect(autoClose('<div></div></|')).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest';
+import { getCSSLanguageService } from 'vscode-css-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+  findJspDocumentColors,
+  getJspColorPresentations,
+  mapRangeFromCssToJsp,
+  mapRangeFromJspToCss,
+  type ParsedCssRegion,
+} from '../server/src/jsp/css/cssMapping';
+import { extractCssRegionsFromProjectedHtml } from '../server/src/jsp/extractCssRegions';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+
+const cssLanguageService = getCSSLanguageService();
+
+function parse(jsp: string): { doc: TextDocument; cssRegions: ParsedCssRegion[] } {
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  const projected = TextDocument.create('file:///a.jsp.html', 'html', 1, maskJspToHtml(jsp));
+  const cssRegions = extractCssRegionsFromProjectedHtml(projected).map((region) => ({
+    region,
+    stylesheet: cssLanguageService.parseStylesheet(region.cssDocument),
+  }));
+  return { doc, cssRegions };
+}
+
+describe('CSS region mapping', () => {
+  test('maps ranges both ways, past the x{ wrapper of inline styles', () => {
+    const jsp = '<p style="color: red">x</p>';
+    const { doc, cssRegions } = parse(jsp);
+    const { region } = cssRegions[0]!;
+    expect(region.cssDocument.getText()).toBe('x{color: red}');
+
+    const jspRange = { start: doc.positionAt(jsp.indexOf('red')), end: doc.positionAt(jsp.indexOf('red') + 3) };
+    const cssRange = mapRangeFromJspToCss(doc, region, region.cssDocument, jspRange);
+    expect(region.cssDocument.getText(cssRange)).toBe('red');
+    expect(mapRangeFromCssToJsp(doc, region, region.cssDocument, cssRange)).toEqual(jspRange);
+
+    // The wrapper itself maps to the start of the attribute value.
+    const wrapper = { start: region.cssDocument.positionAt(0), end: region.cssDocument.positionAt(2) };
+    const mapped = mapRangeFromCssToJsp(doc, region, region.cssDocument, wrapper);
+    expect(doc.offsetAt(mapped.start)).toBe(jsp.indexOf('color'));
+    expect(doc.offsetAt(mapped.end)).toBe(jsp.indexOf('color'));
+  });
+
+  test('finds colors in <style> blocks and style attributes at their JSP ranges', () => {
+    const jsp = [
+      '<%@ page contentType="text/html" %>',
+      '<style>',
+      '  .a { color: #ff0000; background: <%= bg %>; }',
+      '</style>',
+      '<div style="border-color: rgb(0, 128, 0)">${x}</div>',
+    ].join('\n');
+    const { doc, cssRegions } = parse(jsp);
+
+    const colors = findJspDocumentColors(cssLanguageService, doc, cssRegions);
+    expect(colors.map((c) => doc.getText(c.range))).toEqual(['#ff0000', 'rgb(0, 128, 0)']);
+    expect(colors[0]!.color).toEqual({ red: 1, green: 0, blue: 0, alpha: 1 });
+  });
+
+  test('maps color presentation edits back to the JSP', () => {
+    const jsp = '<% int n = 1; %>\n<style>.a { color: #ff0000; }</style>\n<b style="color:#00ff00">b</b>';
+    const { doc, cssRegions } = parse(jsp);
+    const [block, inline] = findJspDocumentColors(cssLanguageService, doc, cssRegions);
+
+    const blue = { red: 0, green: 0, blue: 1, alpha: 1 };
+    for (const info of [block!, inline!]) {
+      const presentations = getJspColorPresentations(cssLanguageService, doc, cssRegions, blue, info.range);
+      const hex = presentations.find((p) => p.label === '#0000ff')!;
+      expect(hex.textEdit!.range).toEqual(info.range);
+    }
+
+    const edit = getJspColorPresentations(cssLanguageService, doc, cssRegions, blue, inline!.range)[0]!.textEdit!;
+    expect(TextDocument.applyEdits(doc, [edit])).toBe(
+      '<% int n = 1; %>\n<style>.a { color: #ff0000; }</style>\n<b style="color:rgb(0, 0, 255)">b</b>',
+    );
+    // Outside CSS.
+    const scriptlet = { start: doc.positionAt(3), end: doc.positionAt(3) };
+    expect(getJspColorPresentations(cssLanguageService, doc, cssRegions, blue, scriptlet)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { findDocumentLinkCandidates, isWebUrl, toLocalResourcePath } from '../server/src/jsp/navigation/documentLinks';
+
+function candidates(jsp: string) {
+  return findDocumentLinkCandidates(jsp, maskJspToHtml(jsp)).map((c) => {
+    expect(jsp.slice(c.startOffset, c.endOffset)).toBe(c.value);
+    return { kind: c.kind, value: c.value };
+  });
+}
+
+describe('document links', () => {
+  test('finds include targets, taglib URIs and static resources', () => {
+    const jsp = [
+      '<%@ taglib prefix="core" uri="http://java.sun.com/jsp/jstl/core" %>',
+      '<%@ include file="header.jspf" %>',
+      '<jsp:include page="/WEB-INF/nav.jsp"/>',
+      '<jsp:forward page=\'done.jsp\'/>',
+      '<core:import url="/fragments/footer.jsp"/>',
+      '<link rel="stylesheet" href="css/site.css?v=2"><img SRC="img/logo.png">',
+    ].join('\n');
+
+    expect(candidates(jsp)).toEqual([
+      { kind: 'taglib-uri', value: 'http://java.sun.com/jsp/jstl/core' },
+      { kind: 'include', value: 'header.jspf' },
+      { kind: 'include', value: '/WEB-INF/nav.jsp' },
+      { kind: 'include', value: 'done.jsp' },
+      { kind: 'include', value: '/fragments/footer.jsp' },
+      { kind: 'resource', value: 'css/site.css?v=2' },
+      { kind: 'resource', value: 'img/logo.png' },
+    ]);
+  });
+
+  test('skips values built from EL or scriptlets and markup inside scriptlets or scripts', () => {
+    const jsp = [
+      '<jsp:include page="${page}.jsp"/>',
+      '<a href="<%= url %>/x">x</a>',
+      '<img src="img/#{name}.png">',
+      '<% out.print("<a href=\\"a.jsp\\">"); %>',
+      '<script>var s = \'<a href="b.jsp">\';</script>',
+      '<c:import url="c.jsp"/>',
+    ].join('\n');
+
+    // `c:import` only counts when `c` is bound to the JSTL core taglib.
+    expect(candidates(jsp)).toEqual([]);
+  });
+
+  test('classifies link values', () => {
+    expect(isWebUrl('https://example.com/x.js')).toBe(true);
+    expect(isWebUrl('//cdn.example.com/x.js')).toBe(false);
+    expect(toLocalResourcePath('css/site.css?v=2#top')).toBe('css/site.css');
+    expect(toLocalResourcePath('mailto:a@b.c')).toBeUndefined();
+    expect(toLocalResourcePath('#anchor')).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+import { getLanguageService } from 'vscode-html-languageservice';
+import { type DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { analyzeScriptletSymbols } from '../server/src/jsp/java/scriptletSymbols';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { buildJspDocumentSymbols } from '../server/src/jsp/navigation/documentSymbols';
+
+function outline(jsp: string) {
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  const htmlParsed = getLanguageService().parseHTMLDocument(
+    TextDocument.create('file:///a.html', 'html', 1, maskJspToHtml(jsp)),
+  );
+  const symbols = buildJspDocumentSymbols({
+    doc,
+    javaRegions: regions,
+    htmlParsed,
+    scriptletSymbols: analyzeScriptletSymbols({ jspText: jsp, javaRegions: regions, pageImports }),
+  });
+  return { doc, symbols };
+}
+
+/** `name [detail]` lines, indented by depth. */
+function render(symbols: DocumentSymbol[], depth = 0): string[] {
+  return symbols.flatMap((s) => [
+    `${'  '.repeat(depth)}${s.name}${s.detail ? ` [${s.detail}]` : ''}`,
+    ...render(s.children ?? [], depth + 1),
+  ]);
+}
+
+const JSP = [
+  '<%@ page contentType="text/html" %>',
+  '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>',
+  '<%! private int counter = 0;',
+  '    String greet(String who) { return "Hi " + who; } %>',
+  '<html><body>',
+  '<div id="main">',
+  '  <form action="/save" method="post">',
+  '    <c:forEach items="${orders}" var="o">',
+  '      <c:if test="${o.open}">',
+  '        <%',
+  '          out.print(greet("x")); %>',
+  '      </c:if>',
+  '    </c:forEach>',
+  '  </form>',
+  '  <table><tr><td><%= counter %></td></tr></table>',
+  '</div>',
+  '</body></html>',
+].join('\n');
+
+describe('document symbols (outline)', () => {
+  test('lists directives, declarations, scriptlets, custom tags and landmarks as a tree', () => {
+    expect(render(outline(JSP).symbols)).toEqual([
+      '@page',
+      '@taglib c → http://java.sun.com/jsp/jstl/core',
+      'counter [int]',
+      'greet(String who) [String]',
+      'div#main',
+      '  form [/save]',
+      '    c:forEach [items="${orders}"]',
+      '      c:if [test="${o.open}"]',
+      '        <% out.print(greet("x")); [scriptlet]',
+      '  table',
+    ]);
+  });
+
+  test('covers whole declarations and selects their names', () => {
+    const { doc, symbols } = outline(JSP);
+    const greet = symbols.find((s) => s.kind === SymbolKind.Method)!;
+    expect(doc.getText(greet.range)).toBe('String greet(String who) { return "Hi " + who; }');
+    expect(doc.getText(greet.selectionRange)).toBe('greet');
+  });
+
+  test('lists declarations like scriptlets while the page does not parse', () => {
+    const jsp = '<%! int broken( %>\n<% if (x) { %><p id="a">x</p><% } %>';
+    expect(render(outline(jsp).symbols)).toEqual([
+      '<%! int broken( [declaration]',
+      '<% if (x) { [scriptlet]',
+      'p#a',
+      '<% } [scriptlet]',
+    ]);
+  });
+});
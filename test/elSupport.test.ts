@@ -6,6 +6,7 @@ import {
   findElIdentifierAtOffset,
   isElIdentifierContext,
 } from '../server/src/jsp/elSupport';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
 
 describe('EL support', () => {
   test('extractElRegionsFromJsp finds ${...} and #{...} regions', () => {
@@ -27,6 +28,36 @@ describe('EL support', () => {
     expect(regions[0]!.jspEndOffset).toBe(jsp.length);
   });
 
+  test('extractElRegionsFromJsp tracks string literals and nested braces', () => {
+    const jsp = `<p>\${fn:join(map['}'], ',')}</p><p>\${ {'a':1}.a }</p><p>\${"x\\"}"}</p>`;
+
+    const contents = extractElRegionsFromJsp(jsp).map((r) => jsp.slice(r.jspContentStartOffset, r.jspContentEndOffset));
+
+    expect(contents).toEqual([`fn:join(map['}'], ',')`, ` {'a':1}.a `, `"x\\"}"`]);
+  });
+
+  test('extractElRegionsFromJsp skips escaped EL and EL inside JSP comments', () => {
+    const jsp = '\\${literal} <%-- ${commented} --%> ${real}';
+
+    const regions = extractElRegionsFromJsp(jsp);
+
+    expect(regions.map((r) => jsp.slice(r.jspStartOffset, r.jspEndOffset))).toEqual(['${real}']);
+  });
+
+  test('maskJspToHtml masks exactly the EL regions', () => {
+    const jsp = `<div class="\${m['}']} x">` + '\\${a}</div>' + `<style>p { color: \${ {'c':'red'}.c }; }</style>`;
+
+    const projected = maskJspToHtml(jsp);
+
+    expect(projected).toHaveLength(jsp.length);
+    expect(projected).toBe(
+      `<div class="${' '.repeat(9)} x">` + '\\${a}</div>' + `<style>p { color: ${' '.repeat(18)}; }</style>`,
+    );
+    for (const r of extractElRegionsFromJsp(jsp)) {
+      expect(projected.slice(r.jspStartOffset, r.jspEndOffset).trim()).toBe('');
+    }
+  });
+
   test('findElIdentifierAtOffset returns implicit object name when cursor is on it', () => {
     const jsp = 'Hello ${requestScope.user}';
     const offset = jsp.indexOf('requestScope') + 2;
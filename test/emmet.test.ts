@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { getJspEmmetCompletions } from '../server/src/jsp/emmet/jspEmmet';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { parseTldXml } from '../server/src/jsp/taglibs/parseTld';
+
+const TLD = [
+  '<taglib>',
+  '  <uri>http://java.sun.com/jsp/jstl/core</uri>',
+  '  <tag><name>forEach</name><body-content>JSP</body-content>',
+  '    <attribute><name>var</name></attribute>',
+  '    <attribute><name>items</name><required>true</required></attribute>',
+  '  </tag>',
+  '  <tag><name>out</name><body-content>empty</body-content>',
+  '    <attribute><name>value</name><required>true</required></attribute>',
+  '  </tag>',
+  '</taglib>',
+].join('\n');
+
+const taglib = parseTldXml(TLD, 'c.tld');
+
+/** Emmet completion item for the abbreviation ending at `|` (removed from the text). */
+function expand(jspWithCursor: string) {
+  const offset = jspWithCursor.indexOf('|');
+  const jsp = jspWithCursor.slice(0, offset) + jspWithCursor.slice(offset + 1);
+  const htmlDocument = TextDocument.create('file:///a.jsp', 'html', 1, maskJspToHtml(jsp));
+  const list = getJspEmmetCompletions({
+    htmlDocument,
+    position: htmlDocument.positionAt(offset),
+    resolveTag: (prefix, localName) => (prefix === 'c' ? taglib.tags.get(localName) : undefined),
+  });
+  return list?.items.find((i) => i.detail === 'Emmet Abbreviation');
+}
+
+function newText(item: ReturnType<typeof expand>): string | undefined {
+  return item?.textEdit && 'newText' in item.textEdit ? item.textEdit.newText : undefined;
+}
+
+describe('emmet', () => {
+  test('expands HTML abbreviations in markup', () => {
+    const item = expand('<body>\nul>li*2|\n</body>');
+    expect(item?.label).toBe('ul>li*2');
+    expect(newText(item)).toBe('<ul>\n\t<li>${1}</li>\n\t<li>${0}</li>\n</ul>');
+  });
+
+  test('expands taglib abbreviations with required TLD attributes', () => {
+    expect(newText(expand('c:forEach>li|'))).toBe('<c:forEach items="${1}">\n\t<li>${0}</li>\n</c:forEach>');
+    expect(newText(expand('c:forEach[var=row]|'))).toBe('<c:forEach var="row" items="${1}">${0}</c:forEach>');
+    expect(newText(expand('c:out|'))).toBe('<c:out value="${0}" />');
+  });
+
+  test('does not expand inside start tags, comments or JSP constructs', () => {
+    expect(expand('<div cl|')).toBeUndefined();
+    expect(expand('<!-- ul>li| -->')).toBeUndefined();
+    // Scriptlets and EL are blanks in the projection, so there is no abbreviation to expand.
+    expect(expand('<% ul>li| %>')).toBeUndefined();
+    expect(expand('${ul|}')).toBeUndefined();
+  });
+});
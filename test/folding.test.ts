@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FoldingRangeKind } from 'vscode-languageserver';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { extractCssRegionsFromProjectedHtml } from '../server/src/jsp/extractCssRegions';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { getJspFoldingRanges } from '../server/src/jsp/folding/jspFoldingRanges';
+
+function fold(lines: string[]) {
+  const text = lines.join('\n');
+  const doc = TextDocument.create('file:///test.jsp', 'jsp', 1, text);
+  const htmlDocument = TextDocument.create(doc.uri, 'html', 1, maskJspToHtml(text));
+  return getJspFoldingRanges({
+    doc,
+    htmlDocument,
+    javaRegions: extractJavaRegionsFromJsp(text).regions,
+    cssRegions: extractCssRegionsFromProjectedHtml(htmlDocument),
+  });
+}
+
+function has(ranges: ReturnType<typeof fold>, startLine: number, endLine: number, kind?: string) {
+  return ranges.some((r) => r.startLine === startLine && r.endLine === endLine && (kind === undefined || r.kind === kind));
+}
+
+describe('JSP folding ranges', () => {
+  test('folds leading directives, taglib elements and HTML elements', () => {
+    const ranges = fold([
+      '<%@ page contentType="text/html" %>',
+      '<%@ page import="java.util.List" %>',
+      '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>',
+      '<div>',
+      '  <c:if test="${x}">',
+      '    <span>x</span>',
+      '  </c:if>',
+      '</div>',
+    ]);
+
+    expect(has(ranges, 0, 2, FoldingRangeKind.Imports)).toBe(true);
+    expect(has(ranges, 3, 6)).toBe(true);
+    expect(has(ranges, 4, 5)).toBe(true);
+  });
+
+  test('folds multi-line scriptlets, declarations and JSP comments but not expressions', () => {
+    const ranges = fold([
+      '<%',
+      '  int a = 1;',
+      '%>',
+      '<%!',
+      '  int f() { return 1; }',
+      '%>',
+      '<%--',
+      '  note',
+      '--%>',
+      '<%= a',
+      '  + 1 %>',
+    ]);
+
+    expect(has(ranges, 0, 1)).toBe(true);
+    expect(has(ranges, 3, 4)).toBe(true);
+    expect(has(ranges, 6, 7, FoldingRangeKind.Comment)).toBe(true);
+    expect(ranges.some((r) => r.startLine === 9)).toBe(false);
+  });
+
+  test('honors #region / #endregion markers', () => {
+    const ranges = fold([
+      '<%-- #region Header --%>',
+      '<p>a</p>',
+      '<p>b</p>',
+      '<%-- #endregion --%>',
+    ]);
+
+    expect(has(ranges, 0, 3, FoldingRangeKind.Region)).toBe(true);
+  });
+
+  test('folds CSS rules inside <style> blocks at their JSP lines', () => {
+    const ranges = fold([
+      '<p>x</p>',
+      '<style>',
+      '  .box {',
+      '    color: red;',
+      '  }',
+      '</style>',
+    ]);
+
+    expect(has(ranges, 2, 3)).toBe(true);
+  });
+});
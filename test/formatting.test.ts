@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { formatJsp } from '../server/src/jsp/formatting/formatJsp';
+import { DEFAULT_FORMAT_CONFIG, normalizeFormatConfig } from '../server/src/jsp/formatting/formatConfig';
+
+const OPTIONS = { tabSize: 2, insertSpaces: true };
+
+function makeDoc(text: string) {
+  return TextDocument.create('file:///test.jsp', 'jsp', 1, text);
+}
+
+function format(text: string, range?: { start: number; end: number }) {
+  const doc = makeDoc(text);
+  const edits = formatJsp({
+    doc,
+    range: range ? { start: doc.positionAt(range.start), end: doc.positionAt(range.end) } : undefined,
+    options: OPTIONS,
+    config: DEFAULT_FORMAT_CONFIG,
+  });
+  return TextDocument.applyEdits(doc, edits);
+}
+
+describe('JSP formatting', () => {
+  test('indents markup and taglib bodies like block elements', () => {
+    const jsp = [
+      '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>',
+      '<div>',
+      '<c:if test="${user != null}">',
+      '<c:forEach items="${user.orders}" var="o">',
+      '<p>${o.id}</p>',
+      '</c:forEach>',
+      '</c:if>',
+      '</div>',
+    ].join('\n');
+
+    const formatted = format(jsp);
+
+    expect(formatted).toContain('\n  <c:if test="${user != null}">\n    <c:forEach items="${user.orders}" var="o">');
+    expect(formatted).toContain('\n      <p>${o.id}</p>');
+    expect(formatted).toContain('\n    </c:forEach>\n  </c:if>\n</div>');
+  });
+
+  test('leaves scriptlets, JSP comments and directives byte-identical', () => {
+    const scriptlet = '<%\n   if (x) {\n  out.print( "a<b>" );\n      }\n%>';
+    const comment = '<%--   keep   <div>   me --%>';
+    const directive = '<%@ page   import="java.util.*"   %>';
+    const jsp = [directive, '<div><span>', comment, scriptlet, '<b><%= a  +  b %></b>', '</span></div>'].join('\n');
+
+    const formatted = format(jsp);
+
+    expect(formatted).toContain(scriptlet);
+    expect(formatted).toContain(comment);
+    expect(formatted).toContain(directive);
+    expect(formatted).toContain('<b><%= a  +  b %></b>');
+  });
+
+  test('keeps JSP constructs inside tags, attribute values and scripts', () => {
+    const jsp = '<div><input <%= disabled %> value="<%= v %>" class="${cls}"><script>var n = <%= n %>;</script></div>';
+
+    const formatted = format(jsp);
+
+    expect(formatted).toContain('<input <%= disabled %> value="<%= v %>" class="${cls}">');
+    expect(formatted).toContain('var n = <%= n %>;');
+  });
+
+  test('formats only the requested range', () => {
+    const jsp = ['<div>', '<p>a</p>', '</div>', '<section>', '<p>b</p>', '</section>'].join('\n');
+    const start = jsp.indexOf('<section>');
+
+    const formatted = format(jsp, { start, end: jsp.length });
+
+    expect(formatted.startsWith('<div>\n<p>a</p>\n</div>\n')).toBe(true);
+    expect(formatted).toContain('<section>\n  <p>b</p>\n</section>');
+  });
+
+  test('returns no edits when formatting is disabled', () => {
+    const doc = makeDoc('<div>\n<p>a</p>\n</div>');
+    const config = normalizeFormatConfig({ enable: false });
+
+    expect(formatJsp({ doc, options: OPTIONS, config })).toEqual([]);
+  });
+
+  test('normalizeFormatConfig ignores invalid values', () => {
+    const cfg = normalizeFormatConfig({ wrapLineLength: 'x', wrapAttributes: 'sideways', indentInnerHtml: true });
+
+    expect(cfg.wrapLineLength).toBe(DEFAULT_FORMAT_CONFIG.wrapLineLength);
+    expect(cfg.wrapAttributes).toBe('auto');
+    expect(cfg.indentInnerHtml).toBe(true);
+  });
+});
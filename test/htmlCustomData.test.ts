@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { getLanguageService } from 'vscode-html-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+  loadHtmlCustomData,
+  normalizeHtmlConfig,
+  resolveHtmlCustomDataPaths,
+} from '../server/src/jsp/html/htmlCustomData';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+
+const CUSTOM_DATA = {
+  version: 1.1,
+  tags: [{ name: 'my-widget', description: 'A web component.', attributes: [{ name: 'size' }] }],
+  globalAttributes: [{ name: 'hx-get', description: 'Issues a GET request (htmx).' }],
+};
+
+let root: string | undefined;
+
+afterEach(() => {
+  if (root) {
+    fs.rmSync(root, { recursive: true, force: true });
+    root = undefined;
+  }
+});
+
+describe('HTML custom data', () => {
+  test('normalizes config and resolves relative paths against every root', () => {
+    expect(normalizeHtmlConfig({ customData: [' a.json ', 3, ''] })).toEqual({ customData: ['a.json'] });
+    expect(normalizeHtmlConfig(undefined)).toEqual({ customData: [] });
+
+    const abs = path.resolve('/data/x.json');
+    expect(resolveHtmlCustomDataPaths(['a.json', abs], [path.resolve('/r1'), path.resolve('/r2')])).toEqual([
+      path.resolve('/r1', 'a.json'),
+      path.resolve('/r2', 'a.json'),
+      abs,
+    ]);
+  });
+
+  test('loads custom data into completion and hover, skipping missing and invalid files', async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'jsp-lang-customdata-'));
+    fs.writeFileSync(path.join(root, 'html.json'), JSON.stringify(CUSTOM_DATA));
+    fs.writeFileSync(path.join(root, 'broken.json'), '{ "tags": ');
+
+    const paths = resolveHtmlCustomDataPaths(['html.json', 'broken.json', 'missing.json'], [root]);
+    const { providers, errors } = await loadHtmlCustomData(paths);
+    expect(providers).toHaveLength(1);
+    expect(errors.map((e) => path.basename(e.fsPath))).toEqual(['broken.json']);
+
+    const ls = getLanguageService();
+    ls.setDataProviders(true, providers);
+
+    const jsp = '<%@ page contentType="text/html" %>\n<my-widget hx-get="/x"></my-widget>\n<';
+    const doc = TextDocument.create('file:///a.jsp', 'html', 1, maskJspToHtml(jsp));
+    const parsed = ls.parseHTMLDocument(doc);
+
+    const tags = ls.doComplete(doc, doc.positionAt(jsp.length), parsed).items.map((i) => i.label);
+    expect(tags).toContain('my-widget');
+
+    const hover = ls.doHover(doc, doc.positionAt(jsp.indexOf('hx-get') + 2), parsed);
+    expect(JSON.stringify(hover?.contents)).toContain('Issues a GET request');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getCSSLanguageService } from 'vscode-css-languageservice';
+import { getLanguageService } from 'vscode-html-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { createJspProjection, updateJspProjection, type JspProjection } from '../server/src/jsp/jspProjection';
+import { createParsedDocumentCache } from '../server/src/jsp/parsedDocumentCache';
+
+const SAMPLE = fs.readFileSync(path.join(__dirname, '..', 'samples', 'feature01.jsp'), 'utf8');
+
+/** Small deterministic PRNG (mulberry32) so failures are reproducible. */
+function createRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const FRAGMENTS = ['<', '%', '>', '<%', '%>', '<%--', '--%>', '-', '$', '#', '{', '}', '${', '\\', '"', "'", 'x', '\n', ' ', '<%= a %>', '${b}'];
+
+function applyEdit(projection: JspProjection, startOffset: number, endOffset: number, text: string): JspProjection {
+  const next = updateJspProjection(projection, { startOffset, endOffset, text });
+  expect(next).toEqual(createJspProjection(next.jspText));
+  return next;
+}
+
+describe('incremental JSP projection', () => {
+  test('matches a full rebuild for edits that open, close and escape constructs', () => {
+    let p = createJspProjection('<p>${a}</p><% int x = 1; %><%-- c --%>\\${d}');
+
+    p = applyEdit(p, 3, 3, '<%');
+    p = applyEdit(p, 3, 5, '');
+    p = applyEdit(p, 24, 26, '');
+    p = applyEdit(p, 0, 0, '<%--');
+    p = applyEdit(p, 0, 4, '');
+    p = applyEdit(p, p.jspText.indexOf('\\'), p.jspText.indexOf('\\') + 1, '');
+    p = applyEdit(p, p.jspText.indexOf('${a'), p.jspText.indexOf('${a') + 2, '${ "}" ');
+    applyEdit(p, 0, p.jspText.length, 'plain');
+  });
+
+  test('matches a full rebuild for random edits to a sample page', () => {
+    const random = createRandom(0x5eed);
+    let p = createJspProjection(SAMPLE);
+
+    for (let i = 0; i < 500; i++) {
+      const start = Math.floor(random() * (p.jspText.length + 1));
+      const end = Math.min(p.jspText.length, start + Math.floor(random() * 4));
+      const text = random() < 0.3 ? '' : FRAGMENTS[Math.floor(random() * FRAGMENTS.length)]!;
+      p = applyEdit(p, start, end, text);
+    }
+  });
+
+  test('reuses the stylesheets of unchanged CSS regions across versions', () => {
+    const services = { html: getLanguageService(), css: getCSSLanguageService() };
+    const jsp = '<style>.a { color: red; }</style>\n<p style="margin: 0">${x}</p>\n<style>.b { }</style>';
+    const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+    const v1 = createParsedDocumentCache(doc, createJspProjection(jsp), services);
+    const [a, inline, b] = v1.cssRegions.map((r) => r.stylesheet);
+
+    // Version 2 never parses CSS; version 3 still reuses what version 1 parsed.
+    const edit = (cached: typeof v1, at: number, text: string, version: number) => {
+      const projection = updateJspProjection(cached.projection, { startOffset: at, endOffset: at, text });
+      const next = TextDocument.create(doc.uri, 'jsp', version, projection.jspText);
+      return createParsedDocumentCache(next, projection, services, cached);
+    };
+    const v2 = edit(v1, jsp.indexOf('${x}'), 'y', 2);
+    const v3 = edit(v2, jsp.indexOf('}</style>\n<p'), ' ', 3);
+
+    expect(v3.cssRegions.map((r) => r.stylesheet === a || r.stylesheet === inline || r.stylesheet === b)).toEqual([
+      false,
+      true,
+      true,
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+  collectJspInlayHints,
+  DEFAULT_INLAY_HINTS_CONFIG,
+  normalizeInlayHintsConfig,
+} from '../server/src/jsp/inlayHints/jspInlayHints';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { parseTldXml } from '../server/src/jsp/taglibs/parseTld';
+
+const TLD = `<?xml version="1.0" encoding="UTF-8"?>
+<taglib>
+  <uri>http://example.com/tld/ui</uri>
+  <tag>
+    <name>panel</name>
+    <attribute><name>title</name><rtexprvalue>true</rtexprvalue><type>java.lang.String</type></attribute>
+    <attribute><name>collapsed</name><rtexprvalue>false</rtexprvalue><type>boolean</type></attribute>
+    <attribute><name>mode</name><rtexprvalue>false</rtexprvalue></attribute>
+    <attribute><name>css</name></attribute>
+  </tag>
+</taglib>`;
+
+const taglib = parseTldXml(TLD, '/ui.tld');
+const INDEX = { byUri: new Map([[taglib.uri!, taglib]]), builtAtMs: 0, tldFileCount: 1, parseErrorCount: 0, roots: [] };
+
+function hints(jsp: string, config = DEFAULT_INLAY_HINTS_CONFIG) {
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  return collectJspInlayHints({
+    doc,
+    projectedText: maskJspToHtml(jsp),
+    index: INDEX,
+    config,
+    resolveIncludePath: (p) => (p.includes('missing') ? undefined : `src/main/webapp/${p.replace(/^\//, '')}`),
+  }).map((h) => ({ before: jsp.slice(0, doc.offsetAt(h.position)).split('\n').pop(), label: h.label }));
+}
+
+describe('inlay hints', () => {
+  test('shows TLD attribute types and marks rtexprvalue=false attributes', () => {
+    const jsp =
+      '<%@ taglib prefix="ui" uri="http://example.com/tld/ui" %>\n' +
+      '<ui:panel title="${t}" collapsed="true" mode="x" css="y"></ui:panel>';
+
+    expect(hints(jsp)).toEqual([
+      { before: '<ui:panel title="${t}"', label: ': String' },
+      { before: '<ui:panel title="${t}" collapsed="true"', label: ': boolean (static)' },
+      { before: '<ui:panel title="${t}" collapsed="true" mode="x"', label: '(static)' },
+    ]);
+  });
+
+  test('shows resolved include targets', () => {
+    const jsp = '<%@ include file="/WEB-INF/header.jspf" %>\n<jsp:include page="missing.jsp"/>\n<jsp:include page="${p}"/>';
+
+    expect(hints(jsp)).toEqual([
+      { before: '<%@ include file="/WEB-INF/header.jspf"', label: '→ src/main/webapp/WEB-INF/header.jspf' },
+    ]);
+  });
+
+  test('shows the types of variables declared by JSTL core tags and jsp:useBean', () => {
+    const jsp = [
+      '<%@ taglib prefix="c" uri="jakarta.tags.core" %>',
+      '<c:forEach var="i" begin="1" end="3" varStatus="s">${i}</c:forEach>',
+      '<c:forEach var="item" items="${items}">${item}</c:forEach>',
+      '<c:forEach var="w" items="a,b">${w}</c:forEach>',
+      '<c:catch var="e"></c:catch>',
+      '<jsp:useBean id="cart" class="com.shop.Cart" scope="session"/>',
+    ].join('\n');
+
+    expect(hints(jsp)).toEqual([
+      { before: '<c:forEach var="i"', label: ': Integer' },
+      { before: '<c:forEach var="i" begin="1" end="3" varStatus="s"', label: ': LoopTagStatus' },
+      { before: '<c:forEach var="w"', label: ': String' },
+      { before: '<c:catch var="e"', label: ': Throwable' },
+      { before: '<jsp:useBean id="cart"', label: ': Cart' },
+    ]);
+  });
+
+  test('each category can be turned off', () => {
+    const jsp =
+      '<%@ taglib prefix="ui" uri="http://example.com/tld/ui" %>\n<%@ include file="a.jsp" %>\n' +
+      '<ui:panel title="x"></ui:panel><jsp:useBean id="b" class="B"/>';
+
+    const off = normalizeInlayHintsConfig({ attributeTypes: false, includeTargets: false, variableTypes: false });
+    expect(hints(jsp, off)).toEqual([]);
+    expect(hints(jsp, { ...off, includeTargets: true }).map((h) => h.label)).toEqual(['→ src/main/webapp/a.jsp']);
+  });
+});
@@ -0,0 +1,129 @@
+import * as path from 'node:path';
+import { afterEach, describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import {
+  createJavaLanguageServerBridge,
+  type JavaLanguageServerBridge,
+} from '../server/src/jsp/java/javaLanguageServerBridge';
+import { jasperClassName, translateJspToJava } from '../server/src/jsp/java/jspTranslation';
+
+const STUB_SERVER = path.join(__dirname, 'mock', 'stubJavaLanguageServer.js');
+
+let bridge: JavaLanguageServerBridge | undefined;
+
+afterEach(async () => {
+  await bridge?.dispose();
+  bridge = undefined;
+});
+
+function createBridge(command = [process.execPath, STUB_SERVER]) {
+  const published: string[] = [];
+  const log: string[] = [];
+  bridge = createJavaLanguageServerBridge({
+    command,
+    workspaceFolderUris: ['file:///ws'],
+    translate: (doc) => {
+      const { regions, pageImports } = extractJavaRegionsFromJsp(doc.getText());
+      return translateJspToJava({
+        jspText: doc.getText(),
+        javaRegions: regions,
+        pageImports,
+        className: jasperClassName(doc.uri),
+      });
+    },
+    onDiagnostics: (uri) => published.push(uri),
+    log: (message) => log.push(message),
+  });
+  return { bridge, published, log };
+}
+
+const JSP = '<p>Hi</p>\n<% String name = request.getParameter("n"); %>\n<%= name.length() + undefinedName %>';
+
+describe('external Java language server bridge', () => {
+  test('maps completion, hover and definition between the page and its translation', async () => {
+    const { bridge } = createBridge();
+    const doc = TextDocument.create('file:///ws/web/index.jsp', 'jsp', 1, JSP);
+    await bridge.syncDocument(doc);
+
+    const completionOffset = JSP.indexOf('length');
+    const list = (await bridge.doComplete(doc, completionOffset))!;
+    expect(list.items).toHaveLength(1);
+    const item = list.items[0]!;
+    // The position was translated into the generated source...
+    expect(item.detail).not.toBe(`${doc.positionAt(completionOffset).line}:${doc.positionAt(completionOffset).character}`);
+    // ...and the edit back to the JSP; the import edit in generated code is dropped.
+    expect(item.textEdit).toEqual({
+      range: { start: doc.positionAt(completionOffset), end: doc.positionAt(completionOffset) },
+      newText: 'echo',
+    });
+    expect(item.additionalTextEdits).toBeUndefined();
+
+    const hoverOffset = JSP.indexOf('getParameter') + 2;
+    const hover = (await bridge.doHover(doc, hoverOffset))!;
+    expect(hover.contents).toEqual({ kind: 'markdown', value: 'stub hover: getParameter' });
+    expect(hover.range).toEqual({
+      start: doc.positionAt(JSP.indexOf('getParameter')),
+      end: doc.positionAt(JSP.indexOf('getParameter') + 'getParameter'.length),
+    });
+
+    const definition = await bridge.findDefinition(doc, JSP.lastIndexOf('name.length'));
+    expect(definition).toEqual([
+      {
+        uri: doc.uri,
+        range: { start: doc.positionAt(JSP.indexOf('name =')), end: doc.positionAt(JSP.indexOf('name =') + 4) },
+      },
+    ]);
+
+    // Template text is not Java.
+    expect(await bridge.doHover(doc, JSP.indexOf('Hi'))).toBeNull();
+  });
+
+  test('maps published diagnostics and drops those in generated code', async () => {
+    const { bridge, published } = createBridge();
+    const doc = TextDocument.create('file:///ws/web/index.jsp', 'jsp', 1, JSP);
+
+    await bridge.syncDocument(doc);
+    await expect.poll(() => published.length).toBeGreaterThan(0);
+
+    const start = JSP.indexOf('undefinedName');
+    expect(bridge.getDiagnostics(doc.uri)).toEqual([
+      {
+        range: { start: doc.positionAt(start), end: doc.positionAt(start + 'undefinedName'.length) },
+        message: 'undefinedName cannot be resolved',
+        severity: 1,
+        source: 'Java',
+      },
+    ]);
+
+    // Edits are synced before the next request; fixed code clears the diagnostic.
+    const fixed = TextDocument.create(doc.uri, 'jsp', 2, JSP.replace('undefinedName', '1'));
+    published.length = 0;
+    await bridge.syncDocument(fixed);
+    await expect.poll(() => published.length).toBeGreaterThan(0);
+    expect(bridge.getDiagnostics(doc.uri)).toEqual([]);
+  });
+
+  test('leaves requests to the built-in providers until initialized and when the server fails', async () => {
+    const { bridge, log } = createBridge();
+    const jsp = '<% boom(); %>';
+    const doc = TextDocument.create('file:///ws/web/boom.jsp', 'jsp', 1, jsp);
+
+    // Not waiting for the server to start.
+    expect(await bridge.doHover(doc, jsp.indexOf('boom'))).toBeNull();
+    await bridge.syncDocument(doc);
+
+    expect(await bridge.doHover(doc, jsp.indexOf('boom'))).toBeNull();
+    expect(log.join('\n')).toContain('Java language server hover failed: internal');
+  });
+
+  test('logs and gives up when the command cannot be started', async () => {
+    const { bridge, log } = createBridge([path.join(__dirname, 'no-such-java-language-server')]);
+    const doc = TextDocument.create('file:///ws/index.jsp', 'jsp', 1, JSP);
+
+    await bridge.syncDocument(doc);
+    expect(await bridge.doHover(doc, JSP.indexOf('getParameter'))).toBeNull();
+    expect(log.join('\n')).toContain('failed to start');
+  });
+});
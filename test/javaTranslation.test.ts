@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { validateJavaScriptletSyntax } from '../server/src/jsp/diagnostics/javaScriptletDiagnostics';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import {
+  jasperClassName,
+  mapJavaOffsetToJsp,
+  mapJspOffsetToJava,
+  translateJspToJava,
+} from '../server/src/jsp/java/jspTranslation';
+
+function translate(jsp: string) {
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  return translateJspToJava({ jspText: jsp, javaRegions: regions, pageImports });
+}
+
+function syntaxErrors(jsp: string, uri = 'file:///a.jsp') {
+  const doc = TextDocument.create(uri, 'jsp', 1, jsp);
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  return validateJavaScriptletSyntax({ doc, javaRegions: regions, pageImports }).map((d) => ({
+    message: d.message,
+    start: doc.offsetAt(d.range.start),
+    end: doc.offsetAt(d.range.end),
+  }));
+}
+
+describe('Jasper-style Java translation', () => {
+  test('stitches scriptlets into _jspService and hoists declarations to the class', () => {
+    const jsp = [
+      '<%@ page import="java.util.List" %>',
+      '<%! int count() { return 1; } %>',
+      '<p>Hi "you"</p>',
+      '<% if (count() > 0) { %>',
+      '  <b><%= count() %></b>',
+      '<% } %>',
+    ].join('\n');
+    const { source } = translate(jsp);
+
+    expect(source).toContain('import java.util.List;');
+    expect(source.indexOf('int count()')).toBeLessThan(source.indexOf('_jspService'));
+    expect(source).toContain('out.write("\\n<p>Hi \\"you\\"</p>\\n");');
+    expect(source).toContain('out.print( count() );');
+    expect(source).toMatch(/if \(count\(\) > 0\) \{ \n {4}out\.write/);
+    expect(jasperClassName('/web/my-page.jsp')).toBe('my_page_jsp');
+    expect(jasperClassName('1.jsp')).toBe('_1_jsp');
+  });
+
+  test('maps copied code in both directions', () => {
+    const jsp = '<p/><% String name = request.getParameter("n"); %><%= name %>';
+    const translated = translate(jsp);
+
+    for (const word of ['name =', 'getParameter', 'name %>']) {
+      const jspOffset = jsp.indexOf(word);
+      const javaOffset = mapJspOffsetToJava(translated, jspOffset)!;
+      expect(translated.source.slice(javaOffset, javaOffset + 4)).toBe(word.slice(0, 4));
+      expect(mapJavaOffsetToJsp(translated, javaOffset)).toBe(jspOffset);
+    }
+    expect(mapJspOffsetToJava(translated, jsp.indexOf('<p/>'))).toBeUndefined();
+  });
+
+  test('records the JSP construct or template text behind each generated statement', () => {
+    const jsp = '<%! int n; %><p/><% n++; %><%= n %>';
+    const { source, segments } = translate(jsp);
+    const pairs = segments.map((s) => [jsp.slice(s.jspStart, s.jspEnd), source.slice(s.javaStart, s.javaEnd)]);
+
+    expect(pairs).toEqual([
+      ['<%! int n; %>', ' int n; '],
+      ['<p/>', '    out.write("<p/>");'],
+      ['<% n++; %>', ' n++; '],
+      ['<%= n %>', '    out.print( n );'],
+    ]);
+  });
+});
+
+describe('scriptlet Java syntax diagnostics', () => {
+  test('accepts blocks split across scriptlets and code using declarations', () => {
+    expect(syntaxErrors('<% if (true) { %>\n<p>yes</p>\n<% } else { %>\n<p>no</p>\n<% } %>')).toEqual([]);
+    expect(syntaxErrors('<% for (int i = 0; i < 3; i++) { %><%= i %>,<% } %>')).toEqual([]);
+    expect(syntaxErrors('<%! private int twice(int v) { return 2 * v; } %><%= twice(2) %>')).toEqual([]);
+    expect(syntaxErrors('<%= "a" // note %>')).toEqual([]);
+    expect(syntaxErrors('<p>no code</p>')).toEqual([]);
+  });
+
+  test('reports errors at the offending token of the page', () => {
+    const jsp = '<p/>\n<% int x = ; %>';
+    expect(syntaxErrors(jsp)).toEqual([
+      { message: "Java syntax error: unexpected ';'", start: jsp.indexOf(';'), end: jsp.indexOf(';') + 1 },
+    ]);
+
+    const expr = '<%= request.getParameter("a"); %>';
+    const [err] = syntaxErrors(expr);
+    expect(err!.start).toBe(expr.indexOf(';'));
+  });
+
+  test('reports missing code after the last scriptlet code', () => {
+    const jsp = '<% if (true) { %>\n<p>open</p>\n';
+    expect(syntaxErrors(jsp)).toEqual([
+      {
+        message: "Java syntax error: expected '}' before the end of the page",
+        start: jsp.indexOf('{') + 1,
+        end: jsp.indexOf('{') + 1,
+      },
+    ]);
+
+    const missingSemicolon = '<% int y = 1 %><p/>';
+    const [err] = syntaxErrors(missingSemicolon);
+    expect(err!.message).toBe("Java syntax error: expected ';'");
+    expect(err!.start).toBe(missingSemicolon.indexOf('1') + 1);
+  });
+
+  test('reports an extra closing brace at the brace', () => {
+    const jsp = '<% int x = 1; %>\n<% } %>\n<p/>';
+    expect(syntaxErrors(jsp)).toEqual([
+      { message: "Java syntax error: unexpected '}'", start: jsp.indexOf('}'), end: jsp.indexOf('}') + 1 },
+    ]);
+
+    const declaration = '<%! int f() { return 1; } } %>';
+    expect(syntaxErrors(declaration).map((e) => e.start)).toEqual([declaration.lastIndexOf('}')]);
+  });
+
+  test('skips fragments and pages with static includes, whose blocks may continue elsewhere', () => {
+    expect(syntaxErrors('<% if (user != null) { %>', 'file:///header.jspf')).toEqual([]);
+    expect(syntaxErrors('<%@ include file="header.jspf" %>\n<p>x</p>\n<% } %>')).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import yazl from 'yazl';
+
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import {
+  buildJavaTypeIndex,
+  findPageImportEntry,
+  getPageImportCompletions,
+  type JavaTypeIndex,
+} from '../server/src/jsp/java/javaTypeIndex';
+
+function writeZip(filePath: string, zipPaths: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const zipfile = new yazl.ZipFile();
+    for (const zipPath of zipPaths) {
+      zipfile.addBuffer(Buffer.alloc(0), zipPath);
+    }
+
+    const out = fs.createWriteStream(filePath);
+    out.on('error', reject);
+    zipfile.outputStream.pipe(out).on('close', () => resolve());
+    zipfile.end();
+  });
+}
+
+async function buildFixtureIndex(enableJarScanning = true): Promise<JavaTypeIndex> {
+  const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'jsp-lang-types-'));
+  for (const rel of ['com/acme/web/OrderService.java', 'com/acme/web/package-info.java', 'com/acme/Money.java']) {
+    const file = path.join(tmpRoot, 'shop', 'src', 'main', 'java', rel);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, '');
+  }
+
+  const libDir = path.join(tmpRoot, 'shop', 'src', 'main', 'webapp', 'WEB-INF', 'lib');
+  fs.mkdirSync(libDir, { recursive: true });
+  await writeZip(path.join(libDir, 'commons.jar'), [
+    'META-INF/MANIFEST.MF',
+    'META-INF/versions/11/org/apache/commons/text/StringEscapeUtils.class',
+    'org/apache/commons/text/StringEscapeUtils.class',
+    'org/apache/commons/text/StringEscapeUtils$Builder.class',
+    'org/apache/commons/lang3/StringUtils.class',
+    'module-info.class',
+  ]);
+
+  return buildJavaTypeIndex({ roots: [tmpRoot], enableJarScanning, jarGlobs: ['**/*.jar'] });
+}
+
+function complete(jsp: string, cursor: number, index: JavaTypeIndex) {
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  const region = extractJavaRegionsFromJsp(jsp).regions.find(
+    (r) => cursor >= r.jspContentStartOffset && cursor < r.jspContentEndOffset,
+  )!;
+  const entry = findPageImportEntry(jsp, region, cursor);
+  return entry && { doc, list: getPageImportCompletions(doc, entry, index) };
+}
+
+describe('Java type index and page import completion', () => {
+  test('indexes types from src/main/java trees and jar class entries', async () => {
+    const index = await buildFixtureIndex();
+
+    expect([...index.packages].sort()).toEqual([
+      'com',
+      'com.acme',
+      'com.acme.web',
+      'org',
+      'org.apache',
+      'org.apache.commons',
+      'org.apache.commons.lang3',
+      'org.apache.commons.text',
+    ]);
+    expect([...index.typesByPackage.get('org.apache.commons.text')!]).toEqual(['StringEscapeUtils']);
+    expect([...index.typesByPackage.get('com.acme.web')!]).toEqual(['OrderService']);
+    expect(index.typesByPackage.has('')).toBe(false);
+  });
+
+  test('leaves jars alone unless jar scanning is enabled', async () => {
+    const index = await buildFixtureIndex(false);
+
+    expect([...index.packages].sort()).toEqual(['com', 'com.acme', 'com.acme.web']);
+    expect(index.jarFileCount).toBe(0);
+  });
+
+  test('completes packages and types of the entry being edited', async () => {
+    const index = await buildFixtureIndex();
+
+    const jsp = '<%@ page import="java.util.List, org.apache.commons.te" %>';
+    const cursor = jsp.indexOf('te"') + 2;
+    const { doc, list } = complete(jsp, cursor, index)!;
+    expect(list.items.map((i) => i.label)).toEqual(['org.apache.commons.text']);
+    // The whole entry is replaced, not the first one of the list.
+    const edit = list.items[0]!.textEdit as { range: { start: unknown; end: unknown }; newText: string };
+    expect(edit.range).toEqual({ start: doc.positionAt(jsp.indexOf('org')), end: doc.positionAt(cursor) });
+    expect(edit.newText).toBe('org.apache.commons.text.');
+
+    const acme = '<%@ page import="com.acme." %>';
+    expect(complete(acme, acme.indexOf('"', 17), index)!.list.items.map((i) => i.label)).toEqual([
+      'com.acme.Money',
+      'com.acme.web',
+    ]);
+
+    // A capitalized word looks types up by simple name.
+    const simple = "<%@ page import='java.util.*,Str' %>";
+    const items = complete(simple, simple.indexOf("'", 17), index)!.list.items;
+    expect(items.map((i) => [i.label, i.filterText])).toEqual([
+      ['org.apache.commons.lang3.StringUtils', 'StringUtils'],
+      ['org.apache.commons.text.StringEscapeUtils', 'StringEscapeUtils'],
+    ]);
+  });
+
+  test('only applies inside the import value of a page directive', async () => {
+    const index = await buildFixtureIndex();
+
+    const jsp = '<%@ page contentType="text/html" import="" %><%@ taglib prefix="c" uri="" %>';
+    expect(complete(jsp, jsp.indexOf('text'), index)).toBeUndefined();
+    expect(complete(jsp, jsp.indexOf('uri=""') + 5, index)).toBeUndefined();
+    expect(complete(jsp, jsp.indexOf('import=""') + 8, index)!.list.items.map((i) => i.label)).toEqual([
+      'com',
+      'org',
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { extractJsRegionsFromProjectedHtml } from '../server/src/jsp/extractJsRegions';
+import { getJavaScriptLanguageService } from '../server/src/jsp/javascript/jsLanguageService';
+
+function projectRegions(jsp: string) {
+  const htmlDocument = TextDocument.create('file:///test.jsp', 'html', 1, maskJspToHtml(jsp));
+  return extractJsRegionsFromProjectedHtml(htmlDocument, jsp);
+}
+
+function contentOf(region: ReturnType<typeof projectRegions>[number]): string {
+  const text = region.jsDocument.getText();
+  return text.slice(region.jsContentStartOffset, region.jsContentStartOffset + (region.jspEndOffset - region.jspStartOffset));
+}
+
+describe('Feature 01 (JavaScript regions)', () => {
+  test('extracts <script> blocks and on* handler attributes with same-length content', () => {
+    const jsp = [
+      '<script>var a = 1;</script>',
+      '<button onclick="doThing(); return false;">Go</button>',
+      '<script type="text/template"><b>not js</b></script>',
+    ].join('\n');
+
+    const regions = projectRegions(jsp);
+
+    expect(regions.map((r) => r.kind)).toEqual(['script-block', 'event-handler-attr']);
+    expect(jsp.slice(regions[0]!.jspStartOffset, regions[0]!.jspEndOffset)).toBe('var a = 1;');
+    expect(jsp.slice(regions[1]!.jspStartOffset, regions[1]!.jspEndOffset)).toBe('doThing(); return false;');
+    expect(contentOf(regions[1]!)).toBe('doThing(); return false;');
+  });
+
+  test('masks JSP expressions and EL as placeholder expressions, statement scriptlets as whitespace', () => {
+    const jsp = [
+      '<script>',
+      '  var id = <%= user.getId() %>;',
+      "  var name = '${user.name}';",
+      '  <% if (admin) { %>showAdmin();<% } %>',
+      '  <%-- ${ignored} --%>',
+      '</script>',
+    ].join('\n');
+
+    const [region] = projectRegions(jsp);
+    const content = contentOf(region!);
+
+    expect(content.length).toBe(region!.jspEndOffset - region!.jspStartOffset);
+    expect(content).toContain('var id = 0');
+    expect(content).toContain("var name = '0");
+    expect(content).toContain('showAdmin();');
+    expect(content).not.toContain('<%');
+    expect(content).not.toContain('${');
+    // Nothing is written into JSP comments.
+    expect(content.split('\n')[4]!.trim()).toBe('');
+  });
+
+  test('reports syntax errors, but not for masked JSP constructs', () => {
+    const service = getJavaScriptLanguageService();
+
+    const ok = projectRegions("<script>var total = ${cart.total} + <%= tax %>; alert('${msg}');</script>");
+    expect(service.doValidation(ok[0]!.jsDocument)).toEqual([]);
+
+    // Adjacent expressions render as one value.
+    const adjacent = projectRegions(
+      '<script>var id = ${a}${b}; var n = <%= x %><%= y %>;</script><a onclick="go(${a}${b})">x</a>',
+    );
+    expect(adjacent.map((r) => service.doValidation(r.jsDocument))).toEqual([[], []]);
+    expect(contentOf(adjacent[0]!)).toMatch(/^var id = 0 +; var n = 0 +;$/);
+
+    const bad = projectRegions('<script>var x = ;</script>');
+    const diags = service.doValidation(bad[0]!.jsDocument);
+    expect(diags.length).toBeGreaterThan(0);
+    expect(diags[0]!.source).toBe('jsp-lang(js)');
+  });
+
+  test('provides completion, hover and signature help for embedded scripts', () => {
+    const service = getJavaScriptLanguageService();
+    const [region] = projectRegions('<script>function greet(name) { return name; }\ndocument.get\ngreet(</script>');
+    const jsDoc = region!.jsDocument;
+    const text = jsDoc.getText();
+
+    const completionOffset = text.indexOf('document.get') + 'document.get'.length;
+    const list = service.doComplete(jsDoc, jsDoc.positionAt(completionOffset));
+    expect(list.items.some((i) => i.label === 'getElementById')).toBe(true);
+
+    const hover = service.doHover(jsDoc, jsDoc.positionAt(text.indexOf('greet') + 1));
+    expect(hover).toBeTruthy();
+    expect(JSON.stringify(hover!.contents)).toContain('greet(name');
+
+    const help = service.doSignatureHelp(jsDoc, jsDoc.positionAt(text.lastIndexOf('(') + 1));
+    expect(help).toBeTruthy();
+    expect(help!.signatures[0]!.label).toContain('greet(');
+  });
+});
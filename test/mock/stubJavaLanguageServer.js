@@ -0,0 +1,74 @@
+// Stub stdio language server standing in for a Java language server in the bridge tests.
+//
+// It answers with canned results derived from the request position and the synced text:
+// - completion: one `echo` item replacing nothing at the position, plus an import edit at the top
+// - hover: `stub hover: <word>` over the word at the position (an `internal` error for `boom`)
+// - definition: the first occurrence of that word in the document
+// - diagnostics: an error over each `undefinedName`, plus one on the first line (generated code)
+
+const { createConnection, ErrorCodes, ResponseError, TextDocuments } = require('vscode-languageserver/node');
+const { TextDocument } = require('vscode-languageserver-textdocument');
+
+const connection = createConnection(process.stdin, process.stdout);
+const documents = new TextDocuments(TextDocument);
+
+function wordAt(doc, position) {
+  const text = doc.getText();
+  const offset = doc.offsetAt(position);
+  let start = offset;
+  let end = offset;
+  while (start > 0 && /\w/.test(text[start - 1])) start--;
+  while (end < text.length && /\w/.test(text[end])) end++;
+  return { word: text.slice(start, end), start, end };
+}
+
+connection.onInitialize(() => ({
+  capabilities: { textDocumentSync: 1, completionProvider: {}, hoverProvider: true, definitionProvider: true },
+}));
+
+connection.onCompletion(({ position }) => [
+  {
+    label: 'echo',
+    detail: `${position.line}:${position.character}`,
+    textEdit: { range: { start: position, end: position }, newText: 'echo' },
+    additionalTextEdits: [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, newText: 'import x;\n' }],
+  },
+]);
+
+connection.onHover(({ textDocument, position }) => {
+  const doc = documents.get(textDocument.uri);
+  const { word, start, end } = wordAt(doc, position);
+  if (word === 'boom') {
+    throw new ResponseError(ErrorCodes.InternalError, 'internal');
+  }
+  return {
+    contents: { kind: 'markdown', value: `stub hover: ${word}` },
+    range: { start: doc.positionAt(start), end: doc.positionAt(end) },
+  };
+});
+
+connection.onDefinition(({ textDocument, position }) => {
+  const doc = documents.get(textDocument.uri);
+  const { word } = wordAt(doc, position);
+  const start = doc.getText().search(new RegExp(`\\b${word}\\b`));
+  return { uri: doc.uri, range: { start: doc.positionAt(start), end: doc.positionAt(start + word.length) } };
+});
+
+documents.onDidChangeContent(({ document }) => {
+  const diagnostics = [
+    { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 6 } }, message: 'generated', severity: 2 },
+  ];
+  const text = document.getText();
+  for (let i = text.indexOf('undefinedName'); i !== -1; i = text.indexOf('undefinedName', i + 1)) {
+    diagnostics.push({
+      range: { start: document.positionAt(i), end: document.positionAt(i + 'undefinedName'.length) },
+      message: 'undefinedName cannot be resolved',
+      severity: 1,
+      source: 'Java',
+    });
+  }
+  void connection.sendDiagnostics({ uri: document.uri, diagnostics });
+});
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { TextEdit } from 'vscode-languageserver';
+
+import { validatePageImports } from '../server/src/jsp/diagnostics/javaScriptletDiagnostics';
+import { extractElRegionsFromJsp } from '../server/src/jsp/elSupport';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import type { JavaTypeIndex } from '../server/src/jsp/java/javaTypeIndex';
+import { addPageImportEdit, findPageImports, removePageImportEdit } from '../server/src/jsp/java/pageImports';
+import { analyzeScriptletSymbols } from '../server/src/jsp/java/scriptletSymbols';
+
+const TYPE_INDEX: JavaTypeIndex = {
+  typesByPackage: new Map([
+    ['com.acme', new Set(['Money', 'Order'])],
+    ['com.acme.legacy', new Set(['Order'])],
+  ]),
+  packages: new Set(['com', 'com.acme', 'com.acme.legacy']),
+  builtAtMs: 0,
+  sourceFileCount: 3,
+  jarFileCount: 0,
+};
+
+function validate(jsp: string, uri = 'file:///a.jsp', typeIndex: JavaTypeIndex | undefined = TYPE_INDEX) {
+  const doc = TextDocument.create(uri, 'jsp', 1, jsp);
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  return validatePageImports({
+    doc,
+    javaRegions: regions,
+    elRegions: extractElRegionsFromJsp(jsp),
+    symbols: analyzeScriptletSymbols({ jspText: jsp, javaRegions: regions, pageImports }),
+    typeIndex,
+    unusedSeverity: 2,
+    missingSeverity: 2,
+  }).map((d) => ({ code: d.code, text: jsp.slice(doc.offsetAt(d.range.start), doc.offsetAt(d.range.end)), data: d.data }));
+}
+
+function apply(jsp: string, edit: TextEdit): string {
+  return TextDocument.applyEdits(TextDocument.create('file:///a.jsp', 'jsp', 1, jsp), [edit]);
+}
+
+describe('page import diagnostics and quick fixes', () => {
+  test('flags imports whose simple name the page never uses', () => {
+    const jsp = [
+      '<%@ page import="java.util.List, java.util.Date,java.util.*" %>',
+      '<%@ page import="com.acme.Money" %>',
+      '<% List<String> xs = null; // Date %>',
+      '<p>${Money.ZERO}</p>',
+    ].join('\n');
+
+    // Comments don't count, EL does, and on-demand imports are never flagged.
+    expect(validate(jsp)).toEqual([{ code: 'jsp.java.unused-import', text: 'java.util.Date', data: undefined }]);
+  });
+
+  test('flags type names that nothing imports, with candidates from the type index', () => {
+    const jsp = [
+      '<%@ page import="java.util.List" %>',
+      '<%! class Row {} %>',
+      '<% List<Row> rows = new ArrayList<>(); Money m = Money.of(1); String s = Integer.toString(rows.size()); %>',
+      '<% HttpSession hs = request.getSession(); Order o = (Order) hs.getAttribute("o"); java.util.Map<String, Object> map = null; %>',
+    ].join('\n');
+
+    expect(validate(jsp)).toEqual([
+      { code: 'jsp.java.missing-import', text: 'ArrayList', data: { name: 'ArrayList', candidates: [] } },
+      { code: 'jsp.java.missing-import', text: 'Money', data: { name: 'Money', candidates: ['com.acme.Money'] } },
+      { code: 'jsp.java.missing-import', text: 'Money', data: { name: 'Money', candidates: ['com.acme.Money'] } },
+      {
+        code: 'jsp.java.missing-import',
+        text: 'Order',
+        data: { name: 'Order', candidates: ['com.acme.Order', 'com.acme.legacy.Order'] },
+      },
+      {
+        code: 'jsp.java.missing-import',
+        text: 'Order',
+        data: { name: 'Order', candidates: ['com.acme.Order', 'com.acme.legacy.Order'] },
+      },
+    ]);
+  });
+
+  test('trusts on-demand imports only for packages the index knows', () => {
+    const known = '<%@ page import="com.acme.*" %>\n<% Money m = null; Other x = null; %>';
+    expect(validate(known).map((d) => d.text)).toEqual(['Other']);
+
+    const unknown = '<%@ page import="java.util.*" %>\n<% Money m = null; %>';
+    expect(validate(unknown)).toEqual([]);
+  });
+
+  test('skips fragments and pages with static includes', () => {
+    const jsp = '<%@ page import="java.util.Date" %>\n<% Money m = null; %>';
+    expect(validate(jsp, 'file:///header.jspf')).toEqual([]);
+    expect(validate(`${jsp}\n<%@ include file="header.jspf" %>`)).toEqual([]);
+  });
+
+  test('removes an import entry, attribute or directive', () => {
+    const remove = (jsp: string, name: string) => {
+      const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+      const entry = findPageImports(jsp, extractJavaRegionsFromJsp(jsp).regions).find((i) => i.name === name)!;
+      return apply(jsp, removePageImportEdit(doc, entry));
+    };
+
+    const list = '<%@ page import="java.util.List, java.util.Date, java.io.File" %>';
+    expect(remove(list, 'java.util.List')).toBe('<%@ page import="java.util.Date, java.io.File" %>');
+    expect(remove(list, 'java.util.Date')).toBe('<%@ page import="java.util.List, java.io.File" %>');
+    expect(remove(list, 'java.io.File')).toBe('<%@ page import="java.util.List, java.util.Date" %>');
+
+    expect(remove('<%@ page contentType="text/html" import="java.util.List" %>', 'java.util.List')).toBe(
+      '<%@ page contentType="text/html" %>',
+    );
+    expect(remove('<%@ page import="java.util.List" %>\n<p>x</p>', 'java.util.List')).toBe('<p>x</p>');
+  });
+
+  test('adds an import to the last import list or a new directive', () => {
+    const add = (jsp: string) => {
+      const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+      return apply(jsp, addPageImportEdit(doc, extractJavaRegionsFromJsp(jsp).regions, 'com.acme.Money'));
+    };
+
+    expect(add('<%@ page import="java.util.List" %>\n<p/>')).toBe('<%@ page import="java.util.List, com.acme.Money" %>\n<p/>');
+    expect(add('<%@ page contentType="text/html" %>\n<p/>')).toBe(
+      '<%@ page contentType="text/html" %>\n<%@ page import="com.acme.Money" %>\n<p/>',
+    );
+    expect(add('<p/>')).toBe('<%@ page import="com.acme.Money" %>\n<p/>');
+  });
+});
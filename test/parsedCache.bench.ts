@@ -0,0 +1,94 @@
+import { bench, describe } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getCSSLanguageService } from 'vscode-css-languageservice';
+import { getLanguageService, type HTMLDocument } from 'vscode-html-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { validateJavaScriptletSyntax } from '../server/src/jsp/diagnostics/javaScriptletDiagnostics';
+import { validateTagStructure } from '../server/src/jsp/diagnostics/tagStructure';
+import { validateXssOutput } from '../server/src/jsp/diagnostics/xssLint';
+import { getJavaScriptLanguageService } from '../server/src/jsp/javascript/jsLanguageService';
+import { createJspProjection, updateJspProjection, type JspProjection } from '../server/src/jsp/jspProjection';
+import { createParsedDocumentCache, type ParsedDocumentCache } from '../server/src/jsp/parsedDocumentCache';
+
+function collectSamples(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return collectSamples(full);
+    return entry.name.endsWith('.jsp') ? [fs.readFileSync(full, 'utf8')] : [];
+  });
+}
+
+/** All sample pages, repeated into one document of at least 20k lines. */
+function buildLargeDocument(): string {
+  const samples = collectSamples(path.join(__dirname, '..', 'samples')).join('\n');
+  const parts: string[] = [];
+  let lines = 0;
+  while (lines < 20000) {
+    parts.push(samples);
+    lines += samples.split('\n').length;
+  }
+  return parts.join('\n');
+}
+
+const LARGE = buildLargeDocument();
+const base = createJspProjection(LARGE);
+
+describe.each([
+  ['template text', LARGE.indexOf('<body', LARGE.length / 2)],
+  ['a scriptlet', LARGE.indexOf('<%', LARGE.length / 2) + 3],
+  ['an EL expression', LARGE.indexOf('${', LARGE.length / 2) + 2],
+])('one-character edit in %s of a 20k-line document', (_, offset) => {
+  const edit = { startOffset: offset, endOffset: offset, text: 'x' };
+  const edited = LARGE.slice(0, offset) + 'x' + LARGE.slice(offset);
+
+  bench('full rebuild', () => {
+    createJspProjection(edited);
+  });
+
+  bench('incremental update', () => {
+    updateJspProjection(base, edit);
+  });
+});
+
+const services = { html: getLanguageService(), css: getCSSLanguageService() };
+const jsLanguageService = getJavaScriptLanguageService();
+
+/** What the server computes for a page version before publishing its diagnostics. */
+function parseAndValidate(projection: JspProjection, version: number, previous?: ParsedDocumentCache): ParsedDocumentCache {
+  const doc = TextDocument.create('file:///large.jsp', 'jsp', version, projection.jspText);
+  const cached = createParsedDocumentCache(doc, projection, services, previous);
+  validateTagStructure({ doc, projectedText: projection.projectedText, javaRegions: cached.javaRegions });
+  validateXssOutput({
+    doc,
+    projectedText: projection.projectedText,
+    htmlParsed: cached.htmlParsed as HTMLDocument,
+    javaRegions: cached.javaRegions,
+    elRegions: cached.elRegions,
+    scriptletSymbols: cached.scriptletSymbols,
+  });
+  for (const { region, stylesheet } of cached.cssRegions) {
+    services.css.doValidation(region.cssDocument, stylesheet);
+  }
+  for (const region of cached.jsRegions) {
+    jsLanguageService.doValidation(region.jsDocument);
+  }
+  validateJavaScriptletSyntax({ doc, javaRegions: cached.javaRegions, pageImports: cached.pageImports });
+  return cached;
+}
+
+describe('parse and validation after a one-character edit in template text of a 20k-line document', () => {
+  const offset = LARGE.indexOf('<body', LARGE.length / 2);
+  const edit = { startOffset: offset, endOffset: offset, text: 'x' };
+  const edited = LARGE.slice(0, offset) + 'x' + LARGE.slice(offset);
+  const validated = parseAndValidate(base, 1);
+
+  bench('full rebuild', () => {
+    parseAndValidate(createJspProjection(edited), 2);
+  });
+
+  bench('incremental update', () => {
+    parseAndValidate(updateJspProjection(base, edit), 2, validated);
+  });
+});
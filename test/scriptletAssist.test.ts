@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import {
+  detectServletApiFlavor,
+  getScriptletHover,
+  getScriptletMemberCompletions,
+  getScriptletSignatureHelp,
+} from '../server/src/jsp/java/scriptletAssist';
+
+/** `|` marks the cursor. */
+function setup(jspWithCursor: string) {
+  const offset = jspWithCursor.indexOf('|');
+  const jsp = jspWithCursor.slice(0, offset) + jspWithCursor.slice(offset + 1);
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  const region = extractJavaRegionsFromJsp(jsp).regions.find(
+    (r) => offset >= r.jspContentStartOffset && offset <= r.jspContentEndOffset,
+  )!;
+  return { doc, region, offset };
+}
+
+function completionLabels(jsp: string): string[] | undefined {
+  const { doc, region, offset } = setup(jsp);
+  return getScriptletMemberCompletions(doc, region, offset)?.items.map((i) => i.label);
+}
+
+describe('scriptlet Servlet/JSP API assistance', () => {
+  test('completes members of implicit objects, call chains and static constants', () => {
+    const request = completionLabels('<% request.get| %>')!;
+    expect(request).toContain('getParameter');
+    expect(request).toContain('getSession');
+    // Inherited from ServletRequest and Object.
+    expect(request).toContain('getAttribute');
+    expect(request).toContain('hashCode');
+
+    expect(completionLabels('<%= request.getSession(false).| %>')).toContain('invalidate');
+    expect(completionLabels('<% out.| %>')).toEqual(expect.arrayContaining(['println', 'write', 'clearBuffer']));
+    expect(completionLabels('<% int s = PageContext.| %>')).toEqual([
+      'PAGE_SCOPE',
+      'REQUEST_SCOPE',
+      'SESSION_SCOPE',
+      'APPLICATION_SCOPE',
+    ]);
+    expect(completionLabels('<% "a".| %>')).toContain('substring');
+  });
+
+  test('falls back outside member access, and ignores strings, comments and declarations', () => {
+    expect(completionLabels('<% req| %>')).toBeUndefined();
+    expect(completionLabels('<% String s = "request.| %>')).toBeUndefined();
+    expect(completionLabels('<% // request.| %>')).toBeUndefined();
+    expect(completionLabels('<%! void f() { request.| } %>')).toBeUndefined();
+    expect(completionLabels('<% foo.| %>')).toEqual([]);
+  });
+
+  test('hovers implicit objects and members with the detected API flavor', () => {
+    const jsp = '<% String n = request.getParameter("n"); session.setAttribute("n", n); %>';
+    const at = (word: string, flavor: 'javax' | 'jakarta' = 'javax') => {
+      const { doc, region } = setup(jsp.replace(word, `|${word}`));
+      const hover = getScriptletHover(doc, region, jsp.indexOf(word) + 1, flavor);
+      return hover && (hover.contents as { value: string }).value;
+    };
+
+    expect(at('request')).toContain('javax.servlet.http.HttpServletRequest request');
+    expect(at('request', 'jakarta')).toContain('jakarta.servlet.http.HttpServletRequest request');
+    expect(at('getParameter')).toContain('String getParameter(String name)');
+    expect(at('setAttribute')).toContain('void setAttribute(String name, Object value)');
+
+    expect(detectServletApiFlavor('<%@ page import="jakarta.servlet.http.*" %>', 'auto')).toBe('jakarta');
+    expect(detectServletApiFlavor('<%@ taglib prefix="c" uri="jakarta.tags.core" %>', 'auto')).toBe('jakarta');
+    expect(detectServletApiFlavor('<p/>', 'auto')).toBe('javax');
+    expect(detectServletApiFlavor('<p/>', 'jakarta')).toBe('jakarta');
+  });
+
+  test('signature help tracks overloads and the active parameter', () => {
+    const { doc, region, offset } = setup('<% response.sendError(404, |) %>');
+    const help = getScriptletSignatureHelp(doc, region, offset)!;
+
+    expect(help.signatures.map((s) => s.label)).toEqual(['void sendError(int sc)', 'void sendError(int sc, String msg)']);
+    expect(help.activeParameter).toBe(1);
+    expect(help.activeSignature).toBe(1);
+
+    const nested = setup('<% out.println(request.getParameter(|)); %>');
+    expect(getScriptletSignatureHelp(nested.doc, nested.region, nested.offset)!.signatures[0]!.label).toBe(
+      'String getParameter(String name)',
+    );
+  });
+});
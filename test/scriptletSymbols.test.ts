@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { validateJavaUseBeforeDeclaration } from '../server/src/jsp/diagnostics/javaScriptletDiagnostics';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { getScriptletMemberCompletions } from '../server/src/jsp/java/scriptletAssist';
+import {
+  analyzeScriptletSymbols,
+  findScriptletSymbolDefinition,
+  getScriptletSymbolCompletions,
+  getScriptletSymbolHover,
+  scriptletVariableType,
+} from '../server/src/jsp/java/scriptletSymbols';
+
+const JSP = [
+  '<%@ page import="java.util.*" %>',
+  '<%! private int counter = 0;',
+  '    String greet(String who) { return "Hi " + who; } %>',
+  '<% List<String> orders = new ArrayList<>(); %>',
+  '<% for (String o : orders) { String up = o.toUpperCase(); %>',
+  '  <li><%= up %></li>',
+  '<% } %>',
+  '<%= orders.size() %>',
+].join('\n');
+
+function analyze(jsp: string, cursorOffset?: number) {
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  return analyzeScriptletSymbols({ jspText: jsp, javaRegions: regions, pageImports, cursorOffset });
+}
+
+describe('scriptlet local variables, fields and methods', () => {
+  test('completes what is in scope at the cursor', () => {
+    const symbols = analyze(JSP)!;
+    const labels = (at: number) => getScriptletSymbolCompletions(symbols, at).map((i) => i.label);
+
+    expect(labels(JSP.indexOf('up %>'))).toEqual(['up', 'o', 'orders', 'greet', 'counter']);
+    // The loop variables are out of scope after the loop; members are visible everywhere.
+    expect(labels(JSP.lastIndexOf('orders.size'))).toEqual(['orders', 'greet', 'counter']);
+    expect(labels(JSP.indexOf('"Hi "'))).toEqual(['who', 'greet', 'counter']);
+
+    const greet = getScriptletSymbolCompletions(symbols, JSP.lastIndexOf('orders')).find((i) => i.label === 'greet')!;
+    expect(greet.detail).toBe('String greet(String who)');
+    expect(greet.insertText).toBe('greet($0)');
+  });
+
+  test('hovers and navigates to declarations', () => {
+    const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, JSP);
+    const symbols = analyze(JSP)!;
+
+    const hover = getScriptletSymbolHover(doc, symbols, JSP.lastIndexOf('orders') + 1)!;
+    expect((hover.contents as { value: string }).value).toContain('List<String> orders');
+    expect((hover.contents as { value: string }).value).toContain('Local variable, declared on line 4.');
+
+    const definition = findScriptletSymbolDefinition(doc, symbols, JSP.indexOf('up %>'))!;
+    expect(doc.offsetAt(definition.range.start)).toBe(JSP.indexOf('up ='));
+    expect(findScriptletSymbolDefinition(doc, symbols, JSP.indexOf('toUpperCase'))).toBeNull();
+  });
+
+  test('tolerates the statement being typed and completes members of model types', () => {
+    const jsp = '<% String name = request.getParameter("n"); %>\n<% name. %>';
+    const cursor = jsp.indexOf('. %>') + 1;
+    const symbols = analyze(jsp, cursor)!;
+    expect(scriptletVariableType(symbols, 'name', cursor)).toBe('String');
+
+    const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+    const region = extractJavaRegionsFromJsp(jsp).regions[1]!;
+    const items = getScriptletMemberCompletions(doc, region, cursor, (n) => scriptletVariableType(symbols, n, cursor));
+    expect(items!.items.map((i) => i.label)).toContain('substring');
+  });
+
+  test('flags variables used before the scriptlet that declares them', () => {
+    const jsp = '<%= total %>\n<% int total = 1; %>\n<%= total %>\n<% if (true) { int late = 2; } %><%= late %>';
+    const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+
+    const diagnostics = validateJavaUseBeforeDeclaration({ doc, symbols: analyze(jsp)! });
+    expect(diagnostics.map((d) => [doc.offsetAt(d.range.start), d.message, d.code])).toEqual([
+      [jsp.indexOf('total'), "'total' is used before it is declared (line 2)", 'jsp.java.use-before-declaration'],
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { analyzeScriptletSymbols } from '../server/src/jsp/java/scriptletSymbols';
+import { getScriptletToElCodeActions, javaExpressionToEl } from '../server/src/jsp/java/scriptletToEl';
+
+function actionsAt(jsp: string, offset: number, uri = 'file:///a.jsp') {
+  const doc = TextDocument.create(uri, 'jsp', 1, jsp);
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  const actions = getScriptletToElCodeActions({
+    doc,
+    javaRegions: regions,
+    startOffset: offset,
+    endOffset: offset,
+    analysis: analyzeScriptletSymbols({ jspText: jsp, javaRegions: regions, pageImports }),
+    flavor: 'javax',
+  });
+  return actions.map((a) => ({ title: a.title, result: TextDocument.applyEdits(doc, a.edit!.changes![doc.uri]!) }));
+}
+
+describe('scriptlet to EL/JSTL refactorings', () => {
+  test('translates the Java expressions EL can express', () => {
+    expect(javaExpressionToEl('request.getParameter("x")')).toBe('param.x');
+    expect(javaExpressionToEl('request.getParameter("user-id")')).toBe("param['user-id']");
+    expect(javaExpressionToEl('session.getAttribute("u")')).toBe('sessionScope.u');
+    expect(javaExpressionToEl('foo.getBar().isActive()')).toBe('foo.bar.active');
+    expect(javaExpressionToEl('doc.getURL()')).toBe('doc.URL');
+    expect(javaExpressionToEl('request.getContextPath()')).toBe('pageContext.request.contextPath');
+    expect(javaExpressionToEl('!user.getRole().equals("admin") && !items.isEmpty()')).toBe(
+      "!(user.role == 'admin') && !(empty items)",
+    );
+    expect(javaExpressionToEl('n > 0 ? n : "none"')).toBe("n > 0 ? n : 'none'");
+
+    // String concatenation, casts, calls with arguments, static members and out are Java-only.
+    for (const code of ['"a" + b', '(String) x', 'x.get(0)', 'Foo.getX()', 'format(x)', 'a.b', 'out.getBufferSize()']) {
+      expect(javaExpressionToEl(code)).toBeUndefined();
+    }
+  });
+
+  test('keeps Java reference comparison and integer division out of EL', () => {
+    expect(javaExpressionToEl('null != x && 1.5 / -2 < 0')).toBe('null != x && 1.5 / -2 < 0');
+    expect(javaExpressionToEl('1 + 2.5')).toBe('1 + 2.5');
+    const concatenations = ['request.getParameter("a") + request.getParameter("b")', 'foo.getFirst() + bar.getLast()', 'n + 1'];
+    for (const code of ['total / count', '7 / 2', 'x.getName() == "a"', 'a != b', 'n == 1', ...concatenations]) {
+      expect(javaExpressionToEl(code)).toBeUndefined();
+    }
+  });
+
+  test('converts expressions, but not those using page variables', () => {
+    const jsp = '<% String local = "x"; %>\n<p><%= foo.getBar() %> <%= local.getBytes() %></p>';
+
+    expect(actionsAt(jsp, jsp.indexOf('foo'))).toEqual([
+      {
+        title: 'Convert to EL: ${foo.bar}',
+        result: '<% String local = "x"; %>\n<p>${foo.bar} <%= local.getBytes() %></p>',
+      },
+    ]);
+    expect(actionsAt(jsp, jsp.indexOf('local.'))).toEqual([]);
+  });
+
+  test('converts a simple if block to <c:if>, adding the JSTL taglib', () => {
+    const jsp = [
+      '<%@ page contentType="text/html" %>',
+      '<% if (request.getParameter("debug") != null) { %>',
+      '  <% for (int i = 0; i < 3; i++) { %><b>x</b><% } %>',
+      '<% } %>',
+    ].join('\n');
+
+    const expected = [
+      '<%@ page contentType="text/html" %>',
+      '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>',
+      '<c:if test="${param.debug != null}">',
+      '  <% for (int i = 0; i < 3; i++) { %><b>x</b><% } %>',
+      '</c:if>',
+    ].join('\n');
+    const action = { title: 'Convert to <c:if test="${param.debug != null}">', result: expected };
+    // Offered on the closing scriptlet too.
+    expect(actionsAt(jsp, jsp.indexOf('if'))).toEqual([action]);
+    expect(actionsAt(jsp, jsp.lastIndexOf('}'))).toEqual([action]);
+  });
+
+  test('reuses the page JSTL prefix and leaves if/else alone', () => {
+    const jsp = '<%@ taglib prefix="core" uri="jakarta.tags.core" %>\n<% if (user.isAdmin()) { %>a<% } %>';
+    expect(actionsAt(jsp, jsp.indexOf('if')).map((a) => a.result)).toEqual([
+      '<%@ taglib prefix="core" uri="jakarta.tags.core" %>\n<core:if test="${user.admin}">a</core:if>',
+    ]);
+
+    const withElse = '<% if (user.isAdmin()) { %>a<% } else { %>b<% } %>';
+    expect(actionsAt(withElse, withElse.indexOf('if'))).toEqual([]);
+  });
+
+  test('leaves pages that ignore EL alone', () => {
+    const jsp = '<%@ page contentType="text/html" isELIgnored="true" %>\n<p><%= foo.getBar() %></p>';
+    expect(actionsAt(jsp, jsp.indexOf('foo'))).toEqual([]);
+  });
+
+  test('leaves fragments and pages with static includes alone', () => {
+    // `user` may be a page variable declared in the included file.
+    const jsp = '<%@ include file="header.jspf" %>\n<p><%= user.getName() %></p>';
+    expect(actionsAt(jsp, jsp.indexOf('user'))).toEqual([]);
+    expect(actionsAt('<p><%= user.getName() %></p>', 8, 'file:///header.jspf')).toEqual([]);
+  });
+});
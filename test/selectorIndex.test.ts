@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import {
+  buildSelectorIndex,
+  findSelectorAttributeContext,
+  findSelectorDefinitions,
+  findSelectorsInCss,
+  getSelectorDefinitionsFromJsp,
+  listSelectorNames,
+  updateSelectorIndexFile,
+} from '../server/src/jsp/css/selectorIndex';
+
+describe('workspace selector index', () => {
+  test('finds class and id selectors, skipping declarations, comments, strings and at-rule preludes', () => {
+    const css = [
+      '/* .commented { } */',
+      '.btn, .btn-primary:hover > #main { color: #fff; background: url(".nope.png"); }',
+      '@media (min-width: 10.5em) {',
+      '  a[href$=".pdf"].doc { x: y; }',
+      '}',
+    ].join('\n');
+
+    const hits = findSelectorsInCss(css).map((h) => `${h.kind}:${h.name}`);
+
+    expect(hits).toEqual(['class:btn', 'class:btn-primary', 'id:main', 'class:doc']);
+    const main = findSelectorsInCss(css).find((h) => h.name === 'main')!;
+    expect(css.slice(main.startOffset, main.endOffset)).toBe('main');
+    expect(css.slice(main.ruleStartOffset, main.ruleEndOffset)).toMatch(/^\.btn, [\s\S]*\}$/);
+  });
+
+  test('maps selectors in JSP <style> blocks back to the JSP document', () => {
+    const jsp = '<%@ page contentType="text/html" %>\n<style>\n  .card { color: ${c}; }\n</style>\n<div style="x: y"></div>';
+    const defs = getSelectorDefinitionsFromJsp('file:///a.jsp', jsp);
+
+    expect(defs).toHaveLength(1);
+    expect(defs[0]!.range).toEqual({ start: { line: 2, character: 3 }, end: { line: 2, character: 7 } });
+    expect(defs[0]!.ruleText).toBe('.card { color: ${c}; }');
+  });
+
+  test('detects the class/id word at the cursor in the projected HTML', () => {
+    const jsp = '<div id="top" class="btn ${extra} card-x">';
+    const projected = maskJspToHtml(jsp);
+
+    const ctx = findSelectorAttributeContext(projected, jsp.indexOf('card-x') + 2)!;
+    expect(ctx.kind).toBe('class');
+    expect(ctx.word).toBe('card-x');
+    expect(ctx.otherValues).toEqual(['btn']);
+
+    expect(findSelectorAttributeContext(projected, jsp.indexOf('top') + 1)!.kind).toBe('id');
+    expect(findSelectorAttributeContext(projected, jsp.indexOf('div') + 1)).toBeUndefined();
+    expect(findSelectorAttributeContext('<p>class="x"</p>', 11)).toBeUndefined();
+  });
+
+  test('indexes workspace .css files and JSP style blocks, and updates single files', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'jsp-lang-selectors-'));
+    const cssPath = path.join(root, 'css', 'site.css');
+    fs.mkdirSync(path.dirname(cssPath), { recursive: true });
+    fs.writeFileSync(cssPath, '.shared { margin: 0; }\n#header { }');
+    fs.writeFileSync(path.join(root, 'other.jsp'), '<style>.from-jsp { }</style>');
+
+    const index = await buildSelectorIndex({ roots: [root] });
+
+    expect([...listSelectorNames(index, 'class').keys()].sort()).toEqual(['from-jsp', 'shared']);
+    const header = findSelectorDefinitions(index, 'id', 'header');
+    expect(header.map((d) => d.uri)).toEqual([pathToFileURL(cssPath).toString()]);
+
+    // The open document's own definitions win over its indexed copy.
+    const jspUri = pathToFileURL(path.join(root, 'other.jsp')).toString();
+    const current = { uri: jspUri, definitions: getSelectorDefinitionsFromJsp(jspUri, '<style>.edited { }</style>') };
+    expect(listSelectorNames(index, 'class', current).has('from-jsp')).toBe(false);
+    expect(findSelectorDefinitions(index, 'class', 'edited', current)).toHaveLength(1);
+
+    fs.writeFileSync(cssPath, '.renamed { }');
+    await updateSelectorIndexFile(index, cssPath);
+    expect(findSelectorDefinitions(index, 'class', 'shared')).toEqual([]);
+    expect(findSelectorDefinitions(index, 'class', 'renamed')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { extractElRegionsFromJsp } from '../server/src/jsp/elSupport';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { buildTaglibIndex } from '../server/src/jsp/taglibs/taglibIndex';
+import {
+  collectJspSemanticTokens,
+  encodeJspSemanticTokens,
+  JSP_SEMANTIC_TOKEN_MODIFIERS,
+  JSP_SEMANTIC_TOKEN_TYPES,
+} from '../server/src/jsp/semanticTokens/jspSemanticTokens';
+import type { TaglibIndex } from '../server/src/jsp/taglibs/types';
+
+const FIXTURE_ROOT = path.resolve(__dirname, '..', 'samples', 'feature03-tests');
+
+function tokensOf(jsp: string, index?: TaglibIndex) {
+  const tokens = collectJspSemanticTokens({
+    jspText: jsp,
+    projectedText: maskJspToHtml(jsp),
+    javaRegions: extractJavaRegionsFromJsp(jsp).regions,
+    elRegions: extractElRegionsFromJsp(jsp),
+    index,
+  });
+  return tokens.map((t) => ({
+    text: jsp.slice(t.startOffset, t.startOffset + t.length),
+    type: t.type,
+    modifiers: t.modifiers,
+  }));
+}
+
+describe('JSP semantic tokens', () => {
+  test('distinguishes resolved and unresolved taglib tags and attributes', async () => {
+    const index = await buildTaglibIndex({ roots: [FIXTURE_ROOT] });
+    const jsp = [
+      '<%@ taglib prefix="demo" uri="http://example.com/tld/demo" %>',
+      '<demo:form action="/save" bogus="1"></demo:form>',
+      '<demo:nope/>',
+      '<x:out value="a"/>',
+      '<jsp:include page="a.jsp"/>',
+    ].join('\n');
+
+    const tokens = tokensOf(jsp, index);
+
+    expect(tokens).toContainEqual({ text: 'taglib', type: 'keyword', modifiers: [] });
+    expect(tokens).toContainEqual({ text: 'demo', type: 'namespace', modifiers: ['declaration'] });
+    expect(tokens.filter((t) => t.text === 'form')).toEqual([
+      { text: 'form', type: 'jspTag', modifiers: [] },
+      { text: 'form', type: 'jspTag', modifiers: [] },
+    ]);
+    expect(tokens).toContainEqual({ text: 'action', type: 'property', modifiers: [] });
+    expect(tokens).toContainEqual({ text: 'bogus', type: 'property', modifiers: ['unresolved'] });
+    expect(tokens).toContainEqual({ text: 'nope', type: 'jspTag', modifiers: ['unresolved'] });
+    expect(tokens).toContainEqual({ text: 'x', type: 'namespace', modifiers: ['unresolved'] });
+    expect(tokens).toContainEqual({ text: 'include', type: 'jspTag', modifiers: ['defaultLibrary'] });
+  });
+
+  test('classifies EL implicit objects and functions, skipping EL in comments and scriptlets', () => {
+    const jsp = [
+      '<%@ taglib prefix="fn" uri="http://java.sun.com/jsp/jstl/functions" %>',
+      '${fn:length(param.items) + sessionScope["param"] + user.param}',
+      '<%-- ${requestScope.x} --%>',
+      '<% String s = "${header.x}"; %>',
+    ].join('\n');
+
+    const tokens = tokensOf(jsp);
+
+    expect(tokens).toContainEqual({ text: 'fn', type: 'namespace', modifiers: [] });
+    expect(tokens).toContainEqual({ text: 'length', type: 'function', modifiers: [] });
+    expect(tokens.filter((t) => t.type === 'variable').map((t) => t.text)).toEqual(['param', 'sessionScope']);
+  });
+
+  test('marks JSP implicit objects in scriptlets and expressions, but not in declarations or strings', () => {
+    const jsp = [
+      '<%! String request = "x"; %>',
+      '<% String id = request.getParameter("session"); // out',
+      '   foo.session = 1; %>',
+      '<%= out %>',
+    ].join('\n');
+
+    const tokens = tokensOf(jsp);
+
+    expect(tokens.filter((t) => t.type === 'variable').map((t) => t.text)).toEqual(['request', 'out']);
+    expect(tokens.find((t) => t.text === 'request')!.modifiers).toEqual(['readonly', 'defaultLibrary']);
+  });
+
+  test('encodes tokens for a range with the legend indices', () => {
+    const jsp = '<% request %>\n<% session %>';
+    const doc = TextDocument.create('file:///test.jsp', 'jsp', 1, jsp);
+    const tokens = collectJspSemanticTokens({
+      jspText: jsp,
+      projectedText: maskJspToHtml(jsp),
+      javaRegions: extractJavaRegionsFromJsp(jsp).regions,
+      elRegions: [],
+      index: undefined,
+    });
+
+    const encoded = encodeJspSemanticTokens(doc, tokens, { start: { line: 1, character: 0 }, end: { line: 1, character: 14 } });
+
+    const modifiers = (1 << JSP_SEMANTIC_TOKEN_MODIFIERS.indexOf('readonly')) | (1 << JSP_SEMANTIC_TOKEN_MODIFIERS.indexOf('defaultLibrary'));
+    expect(encoded.data).toEqual([1, 3, 7, JSP_SEMANTIC_TOKEN_TYPES.indexOf('variable'), modifiers]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest';
+
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+import { findTagPairAtOffset, findTagPairs } from '../server/src/jsp/taglibs/startTagContext';
+
+describe('tag pairing (linked editing + highlights)', () => {
+  test('pairs taglib and HTML tags, skipping masked scriptlets and EL', () => {
+    const jsp = [
+      '<c:forEach items="${a > b ? x : y}" var="i">',
+      '  <% out.print("</c:forEach>"); %>',
+      '  <DIV><br><img src="x"/>${"<c:if>"}</div>',
+      '</c:forEach>',
+    ].join('\n');
+    const projected = maskJspToHtml(jsp);
+
+    const pairs = findTagPairs(projected);
+    const forEach = pairs.find((p) => p.name === 'c:forEach')!;
+
+    expect(forEach.close).toBeTruthy();
+    expect(forEach.close!.startOffset).toBe(jsp.lastIndexOf('c:forEach'));
+
+    const div = pairs.find((p) => p.name === 'DIV')!;
+    expect(jsp.slice(div.close!.startOffset, div.close!.endOffset)).toBe('div');
+    expect(pairs.find((p) => p.name === 'br')!.close).toBeUndefined();
+    expect(pairs.find((p) => p.name === 'img')!.close).toBeUndefined();
+  });
+
+  test('findTagPairAtOffset works from both the start and the end tag name', () => {
+    const jsp = '<c:if test="${x}"><span>a</span></c:if>';
+    const projected = maskJspToHtml(jsp);
+
+    const fromOpen = findTagPairAtOffset(projected, jsp.indexOf('c:if') + 2);
+    const fromClose = findTagPairAtOffset(projected, jsp.lastIndexOf('c:if') + 4);
+
+    expect(fromOpen).toBeTruthy();
+    expect(fromOpen).toEqual(fromClose);
+    expect(jsp.slice(fromOpen!.open.startOffset, fromOpen!.open.endOffset)).toBe('c:if');
+    expect(findTagPairAtOffset(projected, jsp.indexOf('test'))).toBeUndefined();
+  });
+
+  test('does not treat markup inside <script> as tags and recovers from unclosed elements', () => {
+    const jsp = '<c:choose><script>if (a < b) { x = "</c:choose>"; }</script><p>text</c:choose>';
+    const pairs = findTagPairs(maskJspToHtml(jsp));
+
+    const choose = pairs.find((p) => p.name === 'c:choose')!;
+    expect(choose.close!.startOffset).toBe(jsp.lastIndexOf('c:choose'));
+    expect(pairs.find((p) => p.name === 'p')!.close).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { DEFAULT_LINT_CONFIG, normalizeLintConfig } from '../server/src/jsp/diagnostics/lintConfig';
+import { validateTagStructure } from '../server/src/jsp/diagnostics/tagStructure';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+
+const TAGLIBS = '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>\n';
+
+function validate(jsp: string, lintConfig = DEFAULT_LINT_CONFIG) {
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  return validateTagStructure({
+    doc,
+    projectedText: maskJspToHtml(jsp),
+    javaRegions: extractJavaRegionsFromJsp(jsp).regions,
+    lintConfig,
+  }).map((d) => ({ code: d.code, text: doc.getText(d.range), message: d.message }));
+}
+
+describe('tag structure validation', () => {
+  test('reports unclosed and misnested custom tags', () => {
+    const jsp = TAGLIBS + '<c:forEach items="${xs}"><c:if test="${x}"></c:forEach>\n<c:if test="${y}">';
+
+    expect(validate(jsp).map((d) => [d.code, d.text])).toEqual([
+      ['jsp.tag.misnested', '</c:forEach'],
+      ['jsp.tag.unclosed', '<c:if'],
+    ]);
+    expect(validate(TAGLIBS + '</c:if>')[0]!.message).toMatch(/no matching <c:if> is open/);
+  });
+
+  test('requires <c:when>/<c:otherwise> directly inside <c:choose> and <jsp:param> inside include/forward', () => {
+    const jsp = [
+      TAGLIBS,
+      '<c:choose><c:when test="${a}"><div>a</div></c:when><c:otherwise>b</c:otherwise></c:choose>',
+      '<c:otherwise>x</c:otherwise>',
+      '<c:choose><c:if test="${b}"><c:when test="${c}"/></c:if></c:choose>',
+      '<jsp:include page="x.jsp"><jsp:param name="a" value="b"/></jsp:include><jsp:param name="c" value="d"/>',
+    ].join('\n');
+
+    expect(validate(jsp).map((d) => [d.code, d.text])).toEqual([
+      ['jsp.tag.invalid-parent', '<c:otherwise'],
+      ['jsp.tag.invalid-parent', '<c:when'],
+      ['jsp.tag.invalid-parent', '<jsp:param'],
+    ]);
+  });
+
+  test('tracks HTML split across scriptlet branches and custom tag bodies', () => {
+    const jsp = [
+      TAGLIBS,
+      '<% if (a) { %><div class="a"><% } else if (b) { %><div class="b"><% } else { %><div><% } %>',
+      '<c:if test="${x}"><span></c:if>',
+      '<% switch (k) { case 1: %></span><% break; default: %></span><% } %>',
+      '<% try { %></div><% } catch (Exception e) { // "}" %></div><% } %>',
+      '<c:choose><c:when test="${y}"><ul></c:when><c:otherwise><ul class="x"></c:otherwise></c:choose></ul>',
+    ].join('\n');
+
+    expect(validate(jsp)).toEqual([]);
+  });
+
+  test('still reports HTML end tags that match nothing, and custom tags are not excused by scriptlets', () => {
+    const jsp = TAGLIBS + '<% if (a) { %><c:if test="${x}"><% } else { %><c:if test="${y}"><% } %></c:if></p>';
+
+    expect(validate(jsp).map((d) => [d.code, d.text])).toEqual([
+      [undefined, '</p>'],
+      ['jsp.tag.unclosed', '<c:if'],
+    ]);
+  });
+
+  test('ignores unbound prefixes and honors rule levels', () => {
+    expect(validate('<fb:like><x:y></fb:like>')).toEqual([]);
+
+    const off = normalizeLintConfig({ rules: { 'jsp.tag.unclosed': 'off' } });
+    expect(validate(TAGLIBS + '<c:if test="${x}">', off)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'vitest';
+import { getLanguageService } from 'vscode-html-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { DEFAULT_LINT_CONFIG, normalizeLintConfig } from '../server/src/jsp/diagnostics/lintConfig';
+import { getXssQuickFixes, validateXssOutput } from '../server/src/jsp/diagnostics/xssLint';
+import { extractElRegionsFromJsp } from '../server/src/jsp/elSupport';
+import { extractJavaRegionsFromJsp } from '../server/src/jsp/extractJavaRegions';
+import { analyzeScriptletSymbols } from '../server/src/jsp/java/scriptletSymbols';
+import { maskJspToHtml } from '../server/src/jsp/maskToHtml';
+
+const TAGLIBS = '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>\n';
+
+function validate(jsp: string, lintConfig = DEFAULT_LINT_CONFIG) {
+  const doc = TextDocument.create('file:///a.jsp', 'jsp', 1, jsp);
+  const projectedText = maskJspToHtml(jsp);
+  const { regions, pageImports } = extractJavaRegionsFromJsp(jsp);
+  const diagnostics = validateXssOutput({
+    doc,
+    projectedText,
+    htmlParsed: getLanguageService().parseHTMLDocument(TextDocument.create('file:///a.html', 'html', 1, projectedText)),
+    javaRegions: regions,
+    elRegions: extractElRegionsFromJsp(jsp),
+    scriptletSymbols: analyzeScriptletSymbols({ jspText: jsp, javaRegions: regions, pageImports }),
+    lintConfig,
+  });
+  const fixes = (index: number) =>
+    getXssQuickFixes({ doc, javaRegions: regions, diagnostic: diagnostics[index]!, flavor: 'javax' }).map((a) => ({
+      title: a.title,
+      result: TextDocument.applyEdits(doc, a.edit!.changes![doc.uri]!),
+    }));
+  return {
+    diagnostics: diagnostics.map((d) => [d.code, doc.getText(d.range)]),
+    messages: diagnostics.map((d) => d.message),
+    fixes,
+  };
+}
+
+describe('XSS lint', () => {
+  test('reports unescaped request data by the context it is written into', () => {
+    const jsp = [
+      '<p>${param.q} <%= request.getHeader("Referer") %> ${row.name}</p>',
+      '<a href="${param.next}" title="${header.title}" class=${param.cls} onclick="go(\'${fn:escapeXml(param.id)}\')">x</a>',
+      '<script>var q = "${param.q}";</script>',
+    ].join('\n');
+
+    const { diagnostics, messages } = validate(jsp);
+    expect(diagnostics).toEqual([
+      ['jsp.xss.html', '${param.q}'],
+      ['jsp.xss.html', '<%= request.getHeader("Referer") %>'],
+      ['jsp.xss.url', '${param.next}'],
+      ['jsp.xss.attribute', '${header.title}'],
+      ['jsp.xss.attribute', '${param.cls}'],
+      ['jsp.xss.script', '${fn:escapeXml(param.id)}'],
+      ['jsp.xss.script', '${param.q}'],
+    ]);
+    expect(messages[0]).toBe(
+      'Request data `param.q` is written into HTML text without escaping; wrap it in <c:out> or fn:escapeXml(...).',
+    );
+    expect(messages[1]).toMatch(/^Request data `request.getHeader\("Referer"\)`/);
+    expect(messages[4]).toMatch(/unquoted "class" attribute/);
+  });
+
+  test('leaves escaped, scalar and application-controlled values alone', () => {
+    const jsp = [
+      TAGLIBS,
+      '<% int count = 3; %>',
+      '<p>${fn:escapeXml(user.name)} ${empty items ? \'none\' : \'some\'} ${fn:length(items)} ${n + 1} <%= count %></p>',
+      '<a href="${pageContext.request.contextPath}/home" title="${fn:escapeXml(t)}">home</a>',
+      '<c:url var="next" value="/list"><c:param name="q" value="${param.q}"/></c:url><a href="${next}">next</a>',
+      '<c:out value="${param.q}"/><c:set var="x">${param.x}</c:set>',
+      '<a href="<c:url value=\'${param.p}\'/>">p</a>',
+      '<style>.a { color: ${color}; }</style>',
+      '<p><%= Encode.forHtml(request.getParameter("q")) %></p>',
+      '<script>var n = <%= count %>;</script>',
+    ].join('\n');
+
+    // Checked with every value in scope, not just request data.
+    const lint = normalizeLintConfig({ rules: { 'jsp.xss.unescaped': 'warning' } });
+    expect(validate(jsp, lint).diagnostics).toEqual([]);
+    expect(validate('<%@ page contentType="application/json" %>\n{"q": "${param.q}"}').diagnostics).toEqual([]);
+  });
+
+  test('rules can be configured by id', () => {
+    const jsp = '<p>${param.a}</p><a href="${param.b}">b</a>';
+    const lint = normalizeLintConfig({ rules: { 'jsp.xss.html': 'off', 'jsp.xss.url': 'error' } });
+    expect(validate(jsp, lint).diagnostics).toEqual([['jsp.xss.url', '${param.b}']]);
+  });
+
+  test('reports other unescaped values only when jsp.xss.unescaped is enabled', () => {
+    const jsp = '<p>${row.name} <%= user.getName() %> ${param.q}</p><a href="${link}">a</a>';
+    const lint = normalizeLintConfig({ rules: { 'jsp.xss.unescaped': 'info' } });
+
+    const { diagnostics, messages, fixes } = validate(jsp, lint);
+    expect(diagnostics).toEqual([
+      ['jsp.xss.unescaped', '${row.name}'],
+      ['jsp.xss.unescaped', '<%= user.getName() %>'],
+      ['jsp.xss.html', '${param.q}'],
+      ['jsp.xss.unescaped', '${link}'],
+    ]);
+    expect(messages[0]).toBe('`${row.name}` is written into HTML text without escaping; wrap it in <c:out> or fn:escapeXml(...).');
+    expect(fixes(0).map((f) => f.title)).toEqual(['Wrap in <c:out>', 'Escape with fn:escapeXml(...)']);
+    expect(fixes(3)).toEqual([]);
+  });
+
+  test('wraps values in <c:out> or fn:escapeXml, declaring the taglib', () => {
+    const rest = '<p title="${param.t}"><%= request.getQueryString() %></p>';
+    const { fixes } = validate(TAGLIBS + '<p>${param.q}</p>' + rest);
+
+    expect(fixes(0)).toEqual([
+      { title: 'Wrap in <c:out>', result: TAGLIBS + '<p><c:out value="${param.q}"/></p>' + rest },
+      {
+        title: 'Escape with fn:escapeXml(...)',
+        result:
+          TAGLIBS.trimEnd() +
+          '\n<%@ taglib prefix="fn" uri="http://java.sun.com/jsp/jstl/functions" %>\n' +
+          '<p>${fn:escapeXml(param.q)}</p>' +
+          rest,
+      },
+    ]);
+    expect(fixes(1).map((f) => f.title)).toEqual(['Escape with fn:escapeXml(...)']);
+    expect(fixes(2).map((f) => f.result)).toEqual([
+      TAGLIBS + '<p>${param.q}</p><p title="${param.t}"><c:out value="<%= request.getQueryString() %>"/></p>',
+    ]);
+
+    // Escaping doesn't help unquoted attributes, URLs or scripts.
+    const unfixable = validate('<a class=${param.c} href="${param.h}" onclick="f(${param.x})">a</a>');
+    expect([0, 1, 2].map((i) => unfixable.fixes(i))).toEqual([[], [], []]);
+  });
+});
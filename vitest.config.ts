@@ -5,6 +5,9 @@ export default defineConfig({
   test: {
     environment: 'node',
     include: ['test/**/*.test.ts'],
+    benchmark: {
+      include: ['test/**/*.bench.ts'],
+    },
     alias: {
       // Allow Node-only testing of VS Code extension modules by mapping `import 'vscode'`
       // to a tiny in-repo mock.